@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { UntitledButton } from "@/components/ui/untitled-button";
+import { WorkspaceMembers } from "@/components/ui/workspace-members";
+import { ApiKeys } from "@/components/ui/api-keys";
+import { Webhooks } from "@/components/ui/webhooks";
+import { FeedbackReport } from "@/components/ui/feedback-report";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Dataflow01, Key01, LogOut01, MessageChatSquare, Users01 } from "@untitledui/icons";
+
+// The signed-in user, the workspace they are working in and a way to switch or leave it
+export function AccountMenu() {
+  const { session, role, logout, switchWorkspace } = useAuth();
+  const { toast } = useToast();
+  const [membersOpen, setMembersOpen] = useState(false);
+  const [apiKeysOpen, setApiKeysOpen] = useState(false);
+  const [webhooksOpen, setWebhooksOpen] = useState(false);
+  const [feedbackOpen, setFeedbackOpen] = useState(false);
+
+  if (!session) {
+    return null;
+  }
+
+  const workspace = session.workspaces.find(w => w.id === session.workspaceId);
+
+  const handleSwitch = (workspaceId: string) => {
+    switchWorkspace.mutate(workspaceId, {
+      onError: (error) => toast({
+        title: "Could Not Switch Workspace",
+        description: error.message,
+        variant: "destructive"
+      })
+    });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 sm:gap-3">
+      {session.workspaces.length > 1 ? (
+        <Select value={session.workspaceId ?? undefined} onValueChange={handleSwitch} disabled={switchWorkspace.isPending}>
+          <SelectTrigger className="w-48" data-testid="select-workspace">
+            <SelectValue placeholder="Choose a workspace" />
+          </SelectTrigger>
+          <SelectContent>
+            {session.workspaces.map(w => (
+              <SelectItem key={w.id} value={w.id}>{w.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : workspace && (
+        <span className="text-sm font-medium text-charcoal-600" data-testid="text-workspace-name">{workspace.name}</span>
+      )}
+
+      {workspace && (
+        <UntitledButton
+          variant="secondary"
+          size="sm"
+          onClick={() => setMembersOpen(true)}
+          data-testid="button-workspace-members"
+          iconLeading={<Users01 className="w-4 h-4" />}
+        >
+          Members
+        </UntitledButton>
+      )}
+
+      {role === "admin" && (
+        <UntitledButton
+          variant="secondary"
+          size="sm"
+          onClick={() => setApiKeysOpen(true)}
+          data-testid="button-api-keys"
+          iconLeading={<Key01 className="w-4 h-4" />}
+        >
+          API Keys
+        </UntitledButton>
+      )}
+
+      {role === "admin" && (
+        <UntitledButton
+          variant="secondary"
+          size="sm"
+          onClick={() => setWebhooksOpen(true)}
+          data-testid="button-webhooks"
+          iconLeading={<Dataflow01 className="w-4 h-4" />}
+        >
+          Webhooks
+        </UntitledButton>
+      )}
+
+      {role === "admin" && (
+        <UntitledButton
+          variant="secondary"
+          size="sm"
+          onClick={() => setFeedbackOpen(true)}
+          data-testid="button-feedback-report"
+          iconLeading={<MessageChatSquare className="w-4 h-4" />}
+        >
+          Feedback
+        </UntitledButton>
+      )}
+
+      <span className="text-xs sm:text-sm text-gray-600 hidden md:inline" data-testid="text-user-email">
+        {session.user.email}{role && ` · ${role}`}
+      </span>
+
+      <UntitledButton
+        variant="tertiary"
+        size="sm"
+        onClick={() => logout.mutate()}
+        disabled={logout.isPending}
+        data-testid="button-logout"
+        iconLeading={<LogOut01 className="w-4 h-4" />}
+      >
+        Sign Out
+      </UntitledButton>
+
+      {workspace && (
+        <WorkspaceMembers
+          open={membersOpen}
+          onOpenChange={setMembersOpen}
+          workspaceName={workspace.name}
+          currentUserId={session.user.id}
+          canManage={role === "admin"}
+        />
+      )}
+      {role === "admin" && <ApiKeys open={apiKeysOpen} onOpenChange={setApiKeysOpen} />}
+      {role === "admin" && <Webhooks open={webhooksOpen} onOpenChange={setWebhooksOpen} />}
+      {role === "admin" && <FeedbackReport open={feedbackOpen} onOpenChange={setFeedbackOpen} />}
+    </div>
+  );
+}
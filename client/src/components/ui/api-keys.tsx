@@ -0,0 +1,173 @@
+import { useState, type FormEvent } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { UntitledButton } from "@/components/ui/untitled-button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiKeyRoles, type ApiKeyRole, type ApiKeyView, type CreatedApiKey } from "@shared/schema";
+import { Copy01, Trash01 } from "@untitledui/icons";
+
+const API_KEYS_KEY = ["/api/api-keys"];
+
+const roleLabels: Record<ApiKeyRole, string> = {
+  analyst: "Read & write",
+  viewer: "Read only"
+};
+
+interface ApiKeysProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Keys for calling /api/v1 from other systems; a new key is shown once, right after it is created
+export function ApiKeys({ open, onOpenChange }: ApiKeysProps) {
+  const { toast } = useToast();
+  const { data: keys = [] } = useQuery<ApiKeyView[]>({ queryKey: API_KEYS_KEY, enabled: open, staleTime: 0 });
+  const [name, setName] = useState("");
+  const [role, setRole] = useState<ApiKeyRole>("analyst");
+  const [rateLimit, setRateLimit] = useState("");
+  const [created, setCreated] = useState<CreatedApiKey | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const createKey = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      const response = await apiRequest("POST", "/api/api-keys", {
+        name,
+        role,
+        rateLimit: rateLimit ? parseInt(rateLimit, 10) : undefined
+      });
+      setCreated(await response.json());
+      setName("");
+      setRateLimit("");
+      queryClient.invalidateQueries({ queryKey: API_KEYS_KEY });
+    } catch (error) {
+      toast({
+        title: "Could Not Create Key",
+        description: error instanceof Error ? error.message : "Failed to create API key.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const revokeKey = async (key: ApiKeyView) => {
+    try {
+      await apiRequest("DELETE", `/api/api-keys/${key.id}`);
+      queryClient.invalidateQueries({ queryKey: API_KEYS_KEY });
+    } catch (error) {
+      toast({
+        title: "Could Not Revoke Key",
+        description: error instanceof Error ? error.message : "Failed to revoke API key.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const copyKey = async (key: string) => {
+    await navigator.clipboard.writeText(key);
+    toast({ title: "Key Copied", description: "Store it somewhere safe; it will not be shown again." });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (!next) setCreated(null); onOpenChange(next); }}>
+      <DialogContent className="max-w-2xl bg-white">
+        <DialogHeader>
+          <DialogTitle>API Keys</DialogTitle>
+          <DialogDescription>
+            Call the qualifier from your own systems through <code>/api/v1</code> with "Authorization: Bearer &lt;key&gt;".
+            The API is described at <a href="/api/v1/openapi.json" target="_blank" rel="noreferrer" className="underline">/api/v1/openapi.json</a>.
+          </DialogDescription>
+        </DialogHeader>
+
+        {created && (
+          <div className="p-4 bg-green-50 border border-green-200 rounded-lg" data-testid="panel-created-key">
+            <p className="text-sm font-medium text-green-800 mb-2">Copy the key for "{created.name}" now. It will not be shown again.</p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 text-xs bg-white border border-green-200 rounded px-2 py-2 break-all" data-testid="text-created-key">{created.key}</code>
+              <UntitledButton
+                variant="secondary"
+                size="sm"
+                onClick={() => copyKey(created.key)}
+                data-testid="button-copy-key"
+                iconLeading={<Copy01 className="w-4 h-4" />}
+              >
+                Copy
+              </UntitledButton>
+            </div>
+          </div>
+        )}
+
+        <ul className="divide-y divide-gray-200 max-h-64 overflow-y-auto" data-testid="list-api-keys">
+          {keys.length === 0 && <li className="py-3 text-sm text-gray-500">No API keys yet.</li>}
+          {keys.map(key => (
+            <li key={key.id} className="flex items-center justify-between gap-3 py-3" data-testid={`row-api-key-${key.id}`}>
+              <div className="min-w-0">
+                <p className={`text-sm font-medium truncate ${key.revokedAt ? "text-gray-400 line-through" : "text-charcoal-600"}`}>
+                  {key.name} <span className="font-mono text-xs text-gray-500">{key.prefix}…</span>
+                </p>
+                <p className="text-xs text-gray-500">
+                  {roleLabels[key.role]} • {key.rateLimit.toLocaleString()} requests/min •{" "}
+                  {key.revokedAt
+                    ? `revoked ${new Date(key.revokedAt).toLocaleDateString()}`
+                    : key.lastUsedAt ? `last used ${new Date(key.lastUsedAt).toLocaleString()}` : "never used"}
+                </p>
+              </div>
+              {!key.revokedAt && (
+                <UntitledButton
+                  variant="tertiary-destructive"
+                  size="sm"
+                  onClick={() => revokeKey(key)}
+                  data-testid={`button-revoke-key-${key.id}`}
+                  iconLeading={<Trash01 className="w-4 h-4" />}
+                >
+                  Revoke
+                </UntitledButton>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        <form onSubmit={createKey} className="grid grid-cols-1 sm:grid-cols-[1fr_auto_auto_auto] gap-2 items-end pt-2 border-t border-gray-200">
+          <div>
+            <Label htmlFor="api-key-name" className="text-xs text-gray-600">Name</Label>
+            <Input id="api-key-name" required placeholder="e.g. CRM sync" value={name} onChange={(e) => setName(e.target.value)} data-testid="input-api-key-name" />
+          </div>
+          <div>
+            <Label className="text-xs text-gray-600">Access</Label>
+            <Select value={role} onValueChange={(value) => setRole(value as ApiKeyRole)}>
+              <SelectTrigger className="sm:w-36" data-testid="select-api-key-role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {apiKeyRoles.map(value => <SelectItem key={value} value={value}>{roleLabels[value]}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="api-key-rate-limit" className="text-xs text-gray-600">Requests/min</Label>
+            <Input
+              id="api-key-rate-limit"
+              type="number"
+              min={1}
+              max={10000}
+              placeholder="Default"
+              className="sm:w-28"
+              value={rateLimit}
+              onChange={(e) => setRateLimit(e.target.value)}
+              data-testid="input-api-key-rate-limit"
+            />
+          </div>
+          <UntitledButton type="submit" variant="primary" disabled={isSaving} className="bg-navy-600 hover:bg-navy-700" data-testid="button-create-api-key">
+            Create Key
+          </UntitledButton>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
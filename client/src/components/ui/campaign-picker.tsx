@@ -0,0 +1,60 @@
+import { useQuery } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { Campaign } from "@shared/schema";
+
+const NEW_CAMPAIGN = "new";
+
+interface CampaignPickerProps {
+  selectedCampaignId: string | null;
+  onSelect: (campaign: Campaign | null) => void;
+  name: string;
+  onNameChange: (name: string) => void;
+}
+
+export function CampaignPicker({
+  selectedCampaignId,
+  onSelect,
+  name,
+  onNameChange
+}: CampaignPickerProps) {
+  const { data: campaigns = [] } = useQuery<Campaign[]>({ queryKey: ["/api/campaigns"] });
+
+  const handleValueChange = (value: string) => {
+    onSelect(value === NEW_CAMPAIGN ? null : campaigns.find(campaign => campaign.id === value) ?? null);
+  };
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-6">
+      <div>
+        <Label className="text-sm font-medium text-charcoal-600">Campaign</Label>
+        <Select value={selectedCampaignId ?? NEW_CAMPAIGN} onValueChange={handleValueChange}>
+          <SelectTrigger className="mt-3 w-full" data-testid="select-campaign">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NEW_CAMPAIGN}>New campaign</SelectItem>
+            {campaigns.map((campaign) => (
+              <SelectItem key={campaign.id} value={campaign.id}>{campaign.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div>
+        <Label htmlFor="campaign-name" className="text-sm font-medium text-charcoal-600">
+          Campaign Name
+        </Label>
+        <Input
+          id="campaign-name"
+          placeholder="Leave empty for a one-off analysis"
+          className="mt-3"
+          value={name}
+          onChange={(e) => onNameChange(e.target.value)}
+          data-testid="input-campaign-name"
+        />
+      </div>
+    </div>
+  );
+}
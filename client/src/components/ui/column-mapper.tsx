@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { UntitledButton } from "@/components/ui/untitled-button";
+import type { CsvTable } from "@/lib/csv-utils";
+import type { ColumnMapping, ColumnTarget } from "@shared/schema";
+import { Save01 } from "@untitledui/icons";
+
+interface ColumnMapperProps {
+  table: CsvTable;
+  mapping: ColumnMapping;
+  onChange: (mapping: ColumnMapping) => void;
+  // Name of the saved template the mapping came from, if any
+  templateName?: string;
+  onSaveTemplate: (name: string) => Promise<void>;
+}
+
+const targetLabels: Record<ColumnTarget, string> = {
+  companyName: "Company Name",
+  email: "Email",
+  phone: "Phone",
+  industry: "Industry",
+  companySize: "Company Size",
+  title: "Job Title",
+  contactName: "Contact Name",
+  website: "Website",
+  revenue: "Revenue",
+  context: "Include in AI context",
+  ignore: "Ignore"
+};
+
+export function ColumnMapper({ table, mapping, onChange, templateName, onSaveTemplate }: ColumnMapperProps) {
+  const [name, setName] = useState(templateName ?? "");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // A Lead field can only be filled from one column, so choosing it elsewhere moves the old column to context
+  const setTarget = (header: string, target: ColumnTarget) => {
+    const isField = target !== "context" && target !== "ignore";
+    onChange(Object.fromEntries(table.headers.map(h => {
+      if (h === header) return [h, target];
+      return [h, isField && mapping[h] === target ? "context" : mapping[h]];
+    })));
+  };
+
+  const sampleValue = (index: number) => table.rows.slice(0, 20).find(row => row[index])?.[index] ?? "";
+
+  const saveTemplate = async () => {
+    setIsSaving(true);
+    try {
+      await onSaveTemplate(name.trim());
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold text-charcoal-600">Map Your Columns</h3>
+        <p className="mt-1 text-sm text-gray-600">
+          {templateName
+            ? `Applied your saved mapping "${templateName}". Adjust anything that changed.`
+            : "We suggested a field for each column. Columns included in AI context are shown to the model as-is."}
+        </p>
+      </div>
+
+      <div className="overflow-x-auto border border-gray-200 rounded-lg">
+        <Table>
+          <TableHeader className="bg-gray-50">
+            <TableRow>
+              <TableHead className="px-4">Column</TableHead>
+              <TableHead className="px-4 hidden sm:table-cell">Sample</TableHead>
+              <TableHead className="px-4">Maps To</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {table.headers.map((header, index) => (
+              <TableRow key={header} data-testid={`row-column-${index}`}>
+                <TableCell className="px-4 py-3 text-sm font-medium text-charcoal-600">{header}</TableCell>
+                <TableCell className="px-4 py-3 text-sm text-gray-500 hidden sm:table-cell max-w-[240px] truncate">
+                  {sampleValue(index)}
+                </TableCell>
+                <TableCell className="px-4 py-3">
+                  <Select value={mapping[header] ?? "context"} onValueChange={(target) => setTarget(header, target as ColumnTarget)}>
+                    <SelectTrigger className="w-full sm:w-[220px]" data-testid={`select-column-target-${index}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(targetLabels).map(([target, label]) => (
+                        <SelectItem key={target} value={target}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-end space-y-3 sm:space-y-0 sm:space-x-3">
+        <div className="flex-1">
+          <Label htmlFor="mapping-template-name" className="text-sm font-medium text-charcoal-600">
+            Save as Template
+          </Label>
+          <Input
+            id="mapping-template-name"
+            placeholder="e.g. CRM export"
+            className="mt-2"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            data-testid="input-mapping-template-name"
+          />
+        </div>
+        <UntitledButton
+          variant="secondary"
+          onClick={saveTemplate}
+          disabled={!name.trim()}
+          isLoading={isSaving}
+          data-testid="button-save-mapping-template"
+          iconLeading={<Save01 className="w-4 h-4" />}
+        >
+          Save Mapping
+        </UntitledButton>
+      </div>
+      <p className="text-xs sm:text-sm text-gray-500">
+        Files with the same columns will use this mapping automatically.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import type { CostEstimate, ProcessingStats } from "@shared/schema";
+import { CurrencyDollarCircle } from "@untitledui/icons";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+export function formatTokens(tokens: number): string {
+  return new Intl.NumberFormat("en-US", { notation: "compact", maximumFractionDigits: 1 }).format(tokens);
+}
+
+export function formatCost(cost: number): string {
+  if (cost > 0 && cost < 0.01) return "<$0.01";
+  return new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(cost);
+}
+
+interface CostEstimateNoticeProps {
+  estimate: CostEstimate | null;
+  isLoading: boolean;
+  // Budget the run is started with, as typed; empty for none
+  budget: string;
+  onBudgetChange: (budget: string) => void;
+}
+
+// The limits the server puts on spend, if any are set
+function limitHint(estimate: CostEstimate): string | undefined {
+  const hints: string[] = [];
+  if (estimate.runLimit !== null) {
+    hints.push(`Runs may spend up to ${formatCost(estimate.runLimit)} each.`);
+  }
+  if (estimate.dailyLimit !== null) {
+    hints.push(`${formatCost(estimate.spentToday)} of today's ${formatCost(estimate.dailyLimit)} limit is spent.`);
+  }
+  return hints.length > 0 ? hints.join(" ") : undefined;
+}
+
+// Shown before a run starts, so the spend is known before committing to it
+export function CostEstimateNotice({ estimate, isLoading, budget, onBudgetChange }: CostEstimateNoticeProps) {
+  if (!estimate) {
+    return isLoading ? <p className="text-xs sm:text-sm text-gray-500">Estimating cost...</p> : null;
+  }
+
+  const limits = limitHint(estimate);
+  let summary: string;
+  if (estimate.provider === "offline") {
+    summary = "No model cost: leads are scored by your rules.";
+  } else if (estimate.cost === null) {
+    summary = `No price is configured for ${estimate.model}, so the cost is unknown.`;
+  } else {
+    summary = `About ${formatCost(estimate.cost)} to score ${estimate.leads.toLocaleString()} ${estimate.leads === 1 ? "lead" : "leads"}.`;
+  }
+
+  return (
+    <div className="flex items-start bg-gray-50 border border-gray-200 rounded-lg p-4" data-testid="notice-cost-estimate">
+      <CurrencyDollarCircle className="w-5 h-5 text-navy-600 mr-3 mt-0.5 flex-shrink-0" />
+      <div className="text-sm">
+        <p className="text-charcoal-600 font-medium mb-1" data-testid="text-cost-estimate">{summary}</p>
+        {estimate.provider !== "offline" && (
+          <p className="text-gray-600 text-xs sm:text-sm">
+            {estimate.model} • ~{formatTokens(estimate.inputTokens)} prompt and ~{formatTokens(estimate.outputTokens)} answer tokens
+            in {estimate.requests.toLocaleString()} {estimate.requests === 1 ? "request" : "requests"}. Unchanged leads from earlier runs cost nothing.
+          </p>
+        )}
+        {estimate.provider !== "offline" && (
+          <div className="mt-3">
+            <Label htmlFor="input-run-budget" className="text-xs sm:text-sm font-medium text-charcoal-600">
+              Budget for this run (USD, optional)
+            </Label>
+            <Input
+              id="input-run-budget"
+              type="number"
+              min={0}
+              step="0.01"
+              placeholder={estimate.cost !== null ? estimate.cost.toFixed(2) : undefined}
+              className="mt-1 w-40 bg-white"
+              value={budget}
+              onChange={(e) => onBudgetChange(e.target.value)}
+              data-testid="input-run-budget"
+            />
+            <p className="mt-1 text-gray-500 text-xs sm:text-sm">
+              The run pauses before going over it, and asks whether to continue.
+              {limits && <> {limits}</>}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Spend of a finished or running analysis; nothing for runs that made no model calls or
+// ran before usage was recorded
+export function UsageSummary({ stats }: { stats: ProcessingStats }) {
+  if (!stats.inputTokens && !stats.outputTokens) {
+    return null;
+  }
+  const inputTokens = stats.inputTokens ?? 0;
+  const outputTokens = stats.outputTokens ?? 0;
+
+  return (
+    <p className="text-xs sm:text-sm text-gray-600" data-testid="text-usage-summary">
+      Model usage: {formatTokens(inputTokens + outputTokens)} tokens
+      ({formatTokens(inputTokens)} prompt, {formatTokens(outputTokens)} answer)
+      {" • "}Estimated cost {formatCost(stats.estimatedCost ?? 0)}
+    </p>
+  );
+}
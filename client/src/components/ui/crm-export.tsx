@@ -0,0 +1,250 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { UntitledButton } from "@/components/ui/untitled-button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { exportToCrm } from "@/lib/lead-processor";
+import { checkCrmMapping, crmProfiles, crmSourceLabels } from "@shared/crm-export";
+import {
+  crmProfileIds,
+  crmSources,
+  type CrmExportMapping,
+  type CrmExportMappingRecord,
+  type CrmProfileId,
+  type CrmSource,
+  type ProcessedLead
+} from "@shared/schema";
+import { Download01, Plus, Save01, Trash01 } from "@untitledui/icons";
+
+const CRM_MAPPINGS_KEY = ["/api/crm-mappings"];
+
+interface CrmExportProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  leads: ProcessedLead[];
+  filteredLeads: ProcessedLead[];
+  // Viewers can export with the saved mapping but not change it
+  canEdit: boolean;
+}
+
+// Exports results as a CRM's import file; the columns can be changed and saved for the workspace
+export function CrmExport({ open, onOpenChange, leads, filteredLeads, canEdit }: CrmExportProps) {
+  const { toast } = useToast();
+  const { data: saved = [] } = useQuery<CrmExportMappingRecord[]>({ queryKey: CRM_MAPPINGS_KEY, enabled: open });
+  const [crm, setCrm] = useState<CrmProfileId>("hubspot");
+  const [mapping, setMapping] = useState<CrmExportMapping>(crmProfiles.hubspot.defaultMapping);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const savedMapping = saved.find(record => record.crm === crm)?.mapping;
+
+  // Start from the workspace's mapping for the CRM, or its default columns
+  useEffect(() => {
+    setMapping(savedMapping ?? crmProfiles[crm].defaultMapping);
+  }, [crm, savedMapping]);
+
+  const issues = useMemo(() => checkCrmMapping(crm, mapping), [crm, mapping]);
+  const hasErrors = issues.some(issue => issue.level === "error");
+  const profile = crmProfiles[crm];
+
+  const updateColumn = (index: number, update: Partial<CrmExportMapping["columns"][number]>) => {
+    setMapping(current => ({
+      ...current,
+      columns: current.columns.map((column, i) => i === index ? { ...column, ...update } : column)
+    }));
+  };
+
+  const saveMapping = async () => {
+    setIsSaving(true);
+    try {
+      await apiRequest("PUT", `/api/crm-mappings/${crm}`, mapping);
+      queryClient.invalidateQueries({ queryKey: CRM_MAPPINGS_KEY });
+      toast({ title: "Mapping Saved", description: `${profile.name} exports in this workspace will use these columns.` });
+    } catch (error) {
+      toast({
+        title: "Could Not Save Mapping",
+        description: error instanceof Error ? error.message : "Failed to save the mapping.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const resetMapping = async () => {
+    if (!savedMapping) {
+      setMapping(profile.defaultMapping);
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await apiRequest("DELETE", `/api/crm-mappings/${crm}`);
+      queryClient.invalidateQueries({ queryKey: CRM_MAPPINGS_KEY });
+    } catch (error) {
+      toast({
+        title: "Could Not Reset Mapping",
+        description: error instanceof Error ? error.message : "Failed to reset the mapping.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const exportLeads = (toExport: ProcessedLead[]) => {
+    exportToCrm(toExport, crm, mapping);
+    toast({ title: "Export Complete", description: `Exported ${toExport.length} leads for ${profile.name}.` });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl bg-white max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Export for a CRM</DialogTitle>
+          <DialogDescription>
+            Files ready for the CRM's import wizard. Lead status comes from whether the lead qualified, and the AI reasoning goes into a notes column.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+          <div>
+            <Label className="text-xs text-gray-600">CRM</Label>
+            <Select value={crm} onValueChange={(value) => setCrm(value as CrmProfileId)}>
+              <SelectTrigger className="sm:w-48" data-testid="select-crm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {crmProfileIds.map(id => <SelectItem key={id} value={id}>{crmProfiles[id].name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <p className="text-sm text-gray-600 sm:pb-2">{profile.description}</p>
+        </div>
+
+        <div className="space-y-2" data-testid="list-crm-columns">
+          <div className="grid grid-cols-[1fr_1fr_auto] gap-2 text-xs font-medium text-gray-600">
+            <span>Column</span>
+            <span>Filled with</span>
+            <span className="w-9" />
+          </div>
+          {mapping.columns.map((column, index) => (
+            <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-center">
+              <Input
+                value={column.header}
+                onChange={(e) => updateColumn(index, { header: e.target.value })}
+                disabled={!canEdit}
+                data-testid={`input-crm-column-${index}`}
+              />
+              <Select value={column.source} onValueChange={(value) => updateColumn(index, { source: value as CrmSource })} disabled={!canEdit}>
+                <SelectTrigger data-testid={`select-crm-source-${index}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {crmSources.map(source => <SelectItem key={source} value={source}>{crmSourceLabels[source]}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <UntitledButton
+                variant="tertiary-destructive"
+                size="sm"
+                onClick={() => setMapping(current => ({ ...current, columns: current.columns.filter((_, i) => i !== index) }))}
+                disabled={!canEdit || mapping.columns.length === 1}
+                aria-label={`Remove ${column.header}`}
+                data-testid={`button-remove-crm-column-${index}`}
+                iconLeading={<Trash01 className="w-4 h-4" />}
+              />
+            </div>
+          ))}
+          {canEdit && (
+            <UntitledButton
+              variant="tertiary"
+              size="sm"
+              onClick={() => setMapping(current => ({ ...current, columns: [...current.columns, { header: `Column ${current.columns.length + 1}`, source: "none" }] }))}
+              data-testid="button-add-crm-column"
+              iconLeading={<Plus className="w-4 h-4" />}
+            >
+              Add Column
+            </UntitledButton>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="crm-status-qualified" className="text-xs text-gray-600">{profile.importSchema.statusColumn} when qualified</Label>
+            <Input
+              id="crm-status-qualified"
+              value={mapping.statusValues.qualified}
+              onChange={(e) => setMapping(current => ({ ...current, statusValues: { ...current.statusValues, qualified: e.target.value } }))}
+              disabled={!canEdit}
+              data-testid="input-crm-status-qualified"
+            />
+          </div>
+          <div>
+            <Label htmlFor="crm-status-not-qualified" className="text-xs text-gray-600">{profile.importSchema.statusColumn} when not qualified</Label>
+            <Input
+              id="crm-status-not-qualified"
+              value={mapping.statusValues.notQualified}
+              onChange={(e) => setMapping(current => ({ ...current, statusValues: { ...current.statusValues, notQualified: e.target.value } }))}
+              disabled={!canEdit}
+              data-testid="input-crm-status-not-qualified"
+            />
+          </div>
+        </div>
+
+        {issues.length > 0 && (
+          <ul className="space-y-1 text-xs" data-testid="list-crm-issues">
+            {issues.map(issue => (
+              <li key={issue.message} className={issue.level === "error" ? "text-red-600" : "text-amber-700"}>
+                {issue.level === "error" ? "Error: " : "Note: "}{issue.message}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex flex-col sm:flex-row sm:justify-between gap-3 pt-3 border-t border-gray-200">
+          {canEdit ? (
+            <div className="flex gap-2">
+              <UntitledButton
+                variant="secondary"
+                size="sm"
+                onClick={saveMapping}
+                disabled={isSaving || hasErrors}
+                data-testid="button-save-crm-mapping"
+                iconLeading={<Save01 className="w-4 h-4" />}
+              >
+                Save Mapping
+              </UntitledButton>
+              <UntitledButton variant="tertiary" size="sm" onClick={resetMapping} disabled={isSaving} data-testid="button-reset-crm-mapping">
+                Reset to Default
+              </UntitledButton>
+            </div>
+          ) : <span />}
+          <div className="flex gap-2">
+            <UntitledButton
+              variant="secondary"
+              size="sm"
+              onClick={() => exportLeads(filteredLeads)}
+              disabled={hasErrors || filteredLeads.length === 0}
+              data-testid="button-crm-export-filtered"
+            >
+              Export Filtered ({filteredLeads.length})
+            </UntitledButton>
+            <UntitledButton
+              variant="primary"
+              size="sm"
+              onClick={() => exportLeads(leads)}
+              disabled={hasErrors || leads.length === 0}
+              className="bg-navy-600 hover:bg-navy-700"
+              data-testid="button-crm-export-all"
+              iconLeading={<Download01 className="w-4 h-4" />}
+            >
+              Export All ({leads.length})
+            </UntitledButton>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,116 @@
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { UntitledButton } from "@/components/ui/untitled-button";
+import type { DuplicateCluster } from "@shared/dedup";
+import type { DuplicateMatchType } from "@shared/schema";
+
+interface DuplicateReviewProps {
+  clusters: DuplicateCluster[];
+  // Ids of clusters the user chose not to merge
+  keptSeparate: Set<string>;
+  onChange: (keptSeparate: Set<string>) => void;
+}
+
+// Rendering thousands of clusters would freeze the page; the rest still follow the bulk choice
+const MAX_VISIBLE_CLUSTERS = 50;
+
+const matchLabels: Record<DuplicateMatchType, string> = {
+  email: "Same email",
+  phone: "Same phone",
+  name: "Similar name at same company"
+};
+
+export function DuplicateReview({ clusters, keptSeparate, onChange }: DuplicateReviewProps) {
+  const mergedCount = clusters.filter(cluster => !keptSeparate.has(cluster.id)).length;
+  const removedLeads = clusters
+    .filter(cluster => !keptSeparate.has(cluster.id))
+    .reduce((sum, cluster) => sum + cluster.leads.length - 1, 0);
+
+  const toggle = (clusterId: string, merge: boolean) => {
+    const next = new Set(keptSeparate);
+    if (merge) next.delete(clusterId);
+    else next.add(clusterId);
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between space-y-3 sm:space-y-0">
+        <div>
+          <h3 className="text-lg font-semibold text-charcoal-600">Review Duplicates</h3>
+          <p className="mt-1 text-sm text-gray-600" data-testid="text-duplicate-summary">
+            Found {clusters.length} groups of leads that look like the same contact. Merging {mergedCount} of them
+            removes {removedLeads} duplicate {removedLeads === 1 ? "lead" : "leads"} before scoring.
+          </p>
+        </div>
+        <div className="flex space-x-3">
+          <UntitledButton variant="secondary" size="sm" onClick={() => onChange(new Set())} data-testid="button-merge-all">
+            Merge All
+          </UntitledButton>
+          <UntitledButton
+            variant="tertiary"
+            size="sm"
+            onClick={() => onChange(new Set(clusters.map(cluster => cluster.id)))}
+            data-testid="button-keep-all"
+          >
+            Keep All Separate
+          </UntitledButton>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        {clusters.slice(0, MAX_VISIBLE_CLUSTERS).map((cluster, index) => (
+          <div key={cluster.id} className="border border-gray-200 rounded-lg" data-testid={`cluster-duplicate-${index}`}>
+            <div className="flex flex-wrap items-center gap-3 px-4 py-3 border-b border-gray-200 bg-gray-50">
+              <label className="flex items-center space-x-2 text-sm font-medium text-charcoal-600 cursor-pointer">
+                <Checkbox
+                  checked={!keptSeparate.has(cluster.id)}
+                  onCheckedChange={(checked) => toggle(cluster.id, checked === true)}
+                  data-testid={`checkbox-merge-cluster-${index}`}
+                />
+                <span>Merge {cluster.leads.length} rows</span>
+              </label>
+              {cluster.matchedOn.map(match => (
+                <Badge key={match} variant="secondary">{matchLabels[match]}</Badge>
+              ))}
+            </div>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="px-4">Row</TableHead>
+                    <TableHead className="px-4">Contact</TableHead>
+                    <TableHead className="px-4">Company</TableHead>
+                    <TableHead className="px-4">Email</TableHead>
+                    <TableHead className="px-4">Phone</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {cluster.leads.map((lead, leadIndex) => (
+                    <TableRow key={lead.id}>
+                      <TableCell className="px-4 py-2 text-sm text-gray-500">{cluster.rows[leadIndex]}</TableCell>
+                      <TableCell className="px-4 py-2 text-sm text-charcoal-600">{lead.contactName ?? "—"}</TableCell>
+                      <TableCell className="px-4 py-2 text-sm text-charcoal-600">{lead.companyName ?? "—"}</TableCell>
+                      <TableCell className="px-4 py-2 text-sm text-charcoal-600">{lead.email ?? "—"}</TableCell>
+                      <TableCell className="px-4 py-2 text-sm text-charcoal-600">{lead.phone ?? "—"}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {clusters.length > MAX_VISIBLE_CLUSTERS && (
+        <p className="text-xs sm:text-sm text-gray-500">
+          {clusters.length - MAX_VISIBLE_CLUSTERS} more groups are not shown and follow the Merge All / Keep All Separate choice.
+        </p>
+      )}
+      <p className="text-xs sm:text-sm text-gray-500">
+        A merged lead takes each field from the earliest row that has it. The export lists which row each value came from.
+      </p>
+    </div>
+  );
+}
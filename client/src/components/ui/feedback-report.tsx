@@ -0,0 +1,108 @@
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { priceRangeOptions, timeSavedOptions, type Feedback, type FeedbackReport as FeedbackReportData } from "@shared/schema";
+
+interface FeedbackReportProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg">
+      <p className="text-xs font-medium text-gray-600">{label}</p>
+      <p className="text-xl font-semibold text-charcoal-600 mt-1">{value}</p>
+    </div>
+  );
+}
+
+// Answer counts as a row of "label: count" chips
+function Breakdown({ title, counts, unit }: { title: string; counts: [string, number][]; unit: string }) {
+  return (
+    <div>
+      <p className="text-xs font-medium text-gray-600 mb-1">{title}</p>
+      <div className="flex flex-wrap gap-2">
+        {counts.map(([label, count]) => (
+          <span key={label} className="px-2 py-1 text-xs bg-white border border-gray-200 rounded">
+            {label} {unit}: <span className="font-semibold">{count}</span>
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function relayLabel(entry: Feedback): string {
+  if (!entry.relayStatus) return "Not relayed";
+  if (entry.relayStatus === "pending") return `Retrying (${entry.relayAttempts} attempts)`;
+  return entry.relayStatus === "delivered" ? "Relayed" : `Failed: ${entry.relayError ?? "unknown error"}`;
+}
+
+// What the workspace's users said in the export survey, with totals
+export function FeedbackReport({ open, onOpenChange }: FeedbackReportProps) {
+  const { data: report } = useQuery<FeedbackReportData>({ queryKey: ["/api/feedback"], enabled: open, staleTime: 0 });
+  const summary = report?.summary;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl bg-white max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Export Feedback</DialogTitle>
+          <DialogDescription>
+            Answers to the survey shown before each user's first export in this workspace.
+          </DialogDescription>
+        </DialogHeader>
+
+        {summary && (
+          <div className="space-y-4" data-testid="panel-feedback-summary">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <Stat label="Responses" value={`${summary.responses - summary.skipped} (${summary.skipped} skipped)`} />
+              <Stat label="Avg. hours saved" value={summary.averageHoursSaved === null ? "–" : summary.averageHoursSaved.toFixed(1)} />
+              <Stat label="Total hours saved" value={summary.totalHoursSaved.toLocaleString()} />
+              <Stat label="Willing to pay" value={summary.willingToPayRate === null ? "–" : `${summary.willingToPayRate.toFixed(0)}% (${summary.willingToPay})`} />
+            </div>
+            <Breakdown title="Time saved" unit="h" counts={timeSavedOptions.map(option => [option, summary.timeSaved[option]])} />
+            <Breakdown title="Price per 100 leads" unit="USD" counts={priceRangeOptions.map(option => [`$${option}`, summary.priceRanges[option]])} />
+          </div>
+        )}
+
+        <Table data-testid="table-feedback">
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Time saved</TableHead>
+              <TableHead>Would pay</TableHead>
+              <TableHead>Email</TableHead>
+              <TableHead>Export</TableHead>
+              <TableHead>Relay</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {report?.responses.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} className="text-sm text-gray-500">No feedback yet.</TableCell>
+              </TableRow>
+            )}
+            {report?.responses.map(entry => (
+              <TableRow key={entry.id} className="text-xs" data-testid={`row-feedback-${entry.id}`}>
+                <TableCell>{new Date(entry.createdAt).toLocaleString()}</TableCell>
+                {entry.skipped ? (
+                  <TableCell colSpan={3} className="text-gray-500">Skipped</TableCell>
+                ) : (
+                  <>
+                    <TableCell>{entry.timeSaved ? `${entry.timeSaved} h` : "–"}</TableCell>
+                    <TableCell>{entry.willingToPay ? `Yes, $${entry.priceRange} per 100` : "No"}</TableCell>
+                    <TableCell>{entry.email ?? "–"}</TableCell>
+                  </>
+                )}
+                <TableCell>{entry.exportInfo ? `${entry.exportInfo.leadsCount} of ${entry.exportInfo.totalLeads} leads` : "–"}</TableCell>
+                <TableCell className="text-gray-500">{relayLabel(entry)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </DialogContent>
+    </Dialog>
+  );
+}
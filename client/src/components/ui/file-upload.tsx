@@ -1,5 +1,6 @@
 import { useCallback, useRef } from "react";
 import { UntitledButton } from "@/components/ui/untitled-button";
+import { LEAD_FILE_ACCEPT } from "@/lib/file-import";
 import { Upload01, X, File02, CheckCircle } from "@untitledui/icons";
 
 interface FileUploadProps {
@@ -63,12 +64,12 @@ export function FileUpload({ onFileSelect, onFileRemove, uploadedFile, leadCount
           data-testid="area-file-upload"
         >
           <Upload01 className="w-10 h-10 sm:w-12 sm:h-12 text-gray-400 mx-auto mb-4" />
-          <p className="text-base sm:text-lg font-medium text-charcoal-600 mb-2">Drop your CSV file here</p>
+          <p className="text-base sm:text-lg font-medium text-charcoal-600 mb-2">Drop your lead file here</p>
           <p className="text-sm sm:text-base text-gray-600 mb-6">or click to browse</p>
           <input
             ref={fileInputRef}
             type="file"
-            accept=".csv"
+            accept={LEAD_FILE_ACCEPT}
             onChange={handleFileChange}
             className="hidden"
             data-testid="input-file-upload"
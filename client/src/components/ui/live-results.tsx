@@ -0,0 +1,65 @@
+import { useMemo } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { ProcessedLead } from "@shared/schema";
+
+interface LiveResultsProps {
+  leads: ProcessedLead[];
+  limit?: number;
+}
+
+// The best leads scored so far, so reviewing can start before the run finishes
+export function LiveResults({ leads, limit = 10 }: LiveResultsProps) {
+  const topLeads = useMemo(
+    () => [...leads].sort((a, b) => b.score - a.score).slice(0, limit),
+    [leads, limit]
+  );
+
+  if (topLeads.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-8 text-left" data-testid="panel-live-results">
+      <h4 className="text-sm font-medium text-charcoal-600 mb-3 px-4 sm:px-0">
+        Top leads so far <span className="text-gray-500 font-normal">({leads.length.toLocaleString()} scored)</span>
+      </h4>
+      <div className="border border-gray-200 rounded-lg overflow-hidden">
+        <Table>
+          <TableHeader className="bg-gray-50">
+            <TableRow>
+              <TableHead className="px-4">Lead</TableHead>
+              <TableHead className="px-4">Score</TableHead>
+              <TableHead className="px-4">Status</TableHead>
+              <TableHead className="px-4 hidden lg:table-cell">AI Reasoning</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {topLeads.map(lead => (
+              <TableRow key={lead.id} data-testid={`row-live-lead-${lead.id}`}>
+                <TableCell className="px-4 py-3">
+                  <div className="text-sm font-medium text-charcoal-600 truncate">{lead.companyName || lead.contactName || lead.email}</div>
+                  {lead.companyName && lead.contactName && (
+                    <div className="text-xs text-gray-500 truncate">{lead.contactName}</div>
+                  )}
+                </TableCell>
+                <TableCell className="px-4 py-3 text-sm font-medium text-charcoal-600">{lead.score}</TableCell>
+                <TableCell className="px-4 py-3">
+                  <Badge
+                    variant={lead.qualified ? "default" : "destructive"}
+                    className={`text-xs ${lead.qualified ? "bg-green-100 text-green-800 hover:bg-green-100" : "bg-red-100 text-red-800 hover:bg-red-100"}`}
+                  >
+                    {lead.qualified ? "Qualified" : "Not Qualified"}
+                  </Badge>
+                </TableCell>
+                <TableCell className="px-4 py-3 hidden lg:table-cell">
+                  <div className="text-xs text-gray-600 max-w-xs line-clamp-2">{lead.reasoning}</div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
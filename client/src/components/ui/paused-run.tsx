@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { UntitledButton } from "@/components/ui/untitled-button";
+import { formatCost } from "@/components/ui/cost-estimate";
+import type { AnalysisJobView, PauseReason } from "@shared/schema";
+import { PauseCircle, PlayCircle, XCircle } from "@untitledui/icons";
+
+interface PausedRunProps {
+  job: AnalysisJobView;
+  onContinue: (budget: number | undefined) => void;
+  onViewResults: () => void;
+  onCancel: () => void;
+  isResuming: boolean;
+  // Viewers may look at the results so far but not continue or cancel the run
+  readOnly?: boolean;
+}
+
+const pauseTitles: Record<PauseReason, string> = {
+  budget: "Budget reached",
+  dailyLimit: "Daily spend limit reached",
+  user: "Analysis paused"
+};
+
+// What the rest of the run should cost at the rate spent so far, rounded up to the next dollar
+function suggestBudget(job: AnalysisJobView): number | undefined {
+  const spent = job.stats.estimatedCost ?? 0;
+  const processed = job.progress.processed;
+  if (!spent || !processed) return undefined;
+  const remaining = job.progress.total - processed;
+  return Math.ceil(spent + (spent / processed) * remaining);
+}
+
+// Asks whether a paused run should go on - with more budget if its own budget stopped it -
+// or end with what it has scored
+export function PausedRun({ job, onContinue, onViewResults, onCancel, isResuming, readOnly = false }: PausedRunProps) {
+  const reason = job.pauseReason ?? 'user';
+  const needsBudget = reason === 'budget';
+  const [budget, setBudget] = useState(() => {
+    const suggested = needsBudget ? suggestBudget(job) : undefined;
+    return suggested !== undefined ? String(suggested) : "";
+  });
+  const spent = job.stats.estimatedCost ?? 0;
+  const parsedBudget = parseFloat(budget);
+  const isBudgetValid = !needsBudget || parsedBudget > spent;
+
+  let nextStep = " Continue to score the rest.";
+  if (reason === 'budget') nextStep = " Raise the budget to score the rest.";
+  if (reason === 'dailyLimit') nextStep = " The rest can be scored after midnight UTC, when today's limit resets.";
+
+  return (
+    <div className="text-center py-8 sm:py-12" data-testid="panel-paused-run">
+      <div className="inline-flex items-center justify-center w-14 h-14 sm:w-16 sm:h-16 bg-amber-50 rounded-full mb-4 sm:mb-6">
+        <PauseCircle className="w-7 h-7 sm:w-8 sm:h-8 text-amber-600" />
+      </div>
+      <h3 className="text-lg sm:text-xl font-semibold text-charcoal-600 mb-3 sm:mb-2">{pauseTitles[reason]}</h3>
+      <p className="text-sm sm:text-base text-gray-600 mb-6 px-4" data-testid="text-paused-run">
+        {reason !== 'user' && <>{formatCost(spent)} spent{job.budget !== null && needsBudget ? ` of a ${formatCost(job.budget)} budget` : ""}. </>}
+        {job.progress.processed} of {job.progress.total} leads are scored.
+        {nextStep}
+      </p>
+
+      {needsBudget && (
+        <div className="max-w-xs mx-auto px-4 mb-6 text-left">
+          <Label htmlFor="input-resume-budget" className="text-sm font-medium text-charcoal-600">New budget (USD)</Label>
+          <Input
+            id="input-resume-budget"
+            type="number"
+            min={0}
+            step="0.01"
+            className="mt-2"
+            value={budget}
+            onChange={(e) => setBudget(e.target.value)}
+            data-testid="input-resume-budget"
+          />
+          {budget && !isBudgetValid && (
+            <p className="mt-1 text-xs sm:text-sm text-red-600">Enter more than the {formatCost(spent)} already spent.</p>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row justify-center gap-3 px-4">
+        <UntitledButton
+          variant="tertiary-destructive"
+          onClick={onCancel}
+          disabled={readOnly || isResuming}
+          data-testid="button-cancel-analysis"
+          iconLeading={<XCircle className="w-5 h-5" />}
+        >
+          Cancel Run
+        </UntitledButton>
+        <UntitledButton
+          variant="secondary"
+          onClick={onViewResults}
+          data-testid="button-view-partial-results"
+        >
+          View Results So Far
+        </UntitledButton>
+        <UntitledButton
+          variant="primary"
+          onClick={() => onContinue(needsBudget ? parsedBudget : undefined)}
+          disabled={readOnly || isResuming || !isBudgetValid}
+          className="bg-navy-600 hover:bg-navy-700"
+          data-testid="button-continue-analysis"
+          iconLeading={<PlayCircle className="w-5 h-5" />}
+        >
+          Continue Analysis
+        </UntitledButton>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { useQuery } from "@tanstack/react-query";
+import { UntitledCard, UntitledCardContent, UntitledCardHeader, UntitledCardTitle } from "@/components/ui/untitled-card";
+import { UntitledButton } from "@/components/ui/untitled-button";
+import { Badge } from "@/components/ui/badge";
+import type { AnalysisJobSummary } from "@shared/schema";
+import { ArrowRight, File02 } from "@untitledui/icons";
+
+interface RecentAnalysesProps {
+  onOpen: (job: AnalysisJobSummary) => void;
+  // Only show runs of this campaign
+  campaignId?: string;
+  limit?: number;
+}
+
+const statusStyles: Record<AnalysisJobSummary["status"], string> = {
+  queued: "bg-gray-100 text-gray-700",
+  running: "bg-blue-50 text-blue-700",
+  paused: "bg-amber-50 text-amber-700",
+  completed: "bg-green-100 text-green-800",
+  cancelled: "bg-gray-100 text-gray-500",
+  failed: "bg-red-100 text-red-800"
+};
+
+export function RecentAnalyses({ onOpen, campaignId, limit = 5 }: RecentAnalysesProps) {
+  const { data: jobs } = useQuery<AnalysisJobSummary[]>({
+    queryKey: [campaignId ? `/api/jobs?campaignId=${encodeURIComponent(campaignId)}` : "/api/jobs"],
+    staleTime: 0
+  });
+
+  if (!jobs || jobs.length === 0) {
+    return null;
+  }
+
+  return (
+    <UntitledCard className="overflow-hidden" data-testid="card-recent-analyses">
+      <UntitledCardHeader className="border-b border-gray-200 bg-white">
+        <UntitledCardTitle className="text-lg font-semibold text-charcoal-600">
+          {campaignId ? "Campaign Runs" : "Previous Analyses"}
+        </UntitledCardTitle>
+        <p className="mt-1 text-sm text-gray-600">Re-open the results of an earlier run.</p>
+      </UntitledCardHeader>
+      <UntitledCardContent className="p-0">
+        <ul className="divide-y divide-gray-200">
+          {jobs.slice(0, limit).map((job) => (
+            <li key={job.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 px-4 sm:px-6 py-4" data-testid={`row-job-${job.id}`}>
+              <div className="flex items-center min-w-0">
+                <File02 className="w-5 h-5 text-gray-400 mr-3 flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-charcoal-600 truncate">{job.fileName || "Untitled upload"}</p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(job.createdAt).toLocaleString()} • {job.stats.totalLeads.toLocaleString()} leads
+                    {job.status === "completed" && ` • ${job.stats.qualifiedLeads.toLocaleString()} qualified`}
+                    {job.status === "cancelled" && ` • ${job.stats.processedLeads.toLocaleString()} scored`}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center space-x-3">
+                <Badge variant="secondary" className={`text-xs capitalize ${statusStyles[job.status]}`}>
+                  {job.status}
+                </Badge>
+                <UntitledButton
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => onOpen(job)}
+                  disabled={job.status === "failed"}
+                  data-testid={`button-open-job-${job.id}`}
+                  iconTrailing={<ArrowRight className="w-4 h-4" />}
+                >
+                  {job.status === "completed" || job.status === "cancelled" ? "Open" : job.status === "paused" ? "Continue" : "View Progress"}
+                </UntitledButton>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </UntitledCardContent>
+    </UntitledCard>
+  );
+}
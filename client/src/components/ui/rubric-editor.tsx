@@ -0,0 +1,165 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { UntitledButton } from "@/components/ui/untitled-button";
+import type { Rubric, RubricCriterion } from "@shared/schema";
+import { Plus, Trash01 } from "@untitledui/icons";
+
+interface RubricEditorProps {
+  rubric: Rubric;
+  onChange: (rubric: Rubric) => void;
+}
+
+const MAX_CRITERIA = 10;
+const MAX_DISQUALIFIERS = 10;
+
+function clampScore(value: string) {
+  return Math.max(0, Math.min(100, Math.round(Number(value) || 0)));
+}
+
+export function RubricEditor({ rubric, onChange }: RubricEditorProps) {
+  const totalWeight = rubric.criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+
+  const updateCriterion = (index: number, updates: Partial<RubricCriterion>) => {
+    onChange({
+      ...rubric,
+      criteria: rubric.criteria.map((criterion, i) => i === index ? { ...criterion, ...updates } : criterion)
+    });
+  };
+
+  const addCriterion = () => {
+    onChange({
+      ...rubric,
+      criteria: [...rubric.criteria, { id: `criterion_${Date.now()}`, name: "", description: "", weight: 10 }]
+    });
+  };
+
+  const removeCriterion = (index: number) => {
+    onChange({ ...rubric, criteria: rubric.criteria.filter((_, i) => i !== index) });
+  };
+
+  const updateDisqualifier = (index: number, value: string) => {
+    onChange({ ...rubric, disqualifiers: rubric.disqualifiers.map((d, i) => i === index ? value : d) });
+  };
+
+  return (
+    <div className="space-y-6 sm:space-y-8">
+      <div>
+        <div className="flex items-center justify-between">
+          <Label className="text-sm font-medium text-charcoal-600">Criteria</Label>
+          <span className="text-xs sm:text-sm text-gray-500" data-testid="text-total-weight">
+            Total weight: {totalWeight}
+          </span>
+        </div>
+
+        <div className="mt-3 space-y-4">
+          {rubric.criteria.map((criterion, index) => (
+            <div key={criterion.id} className="border border-gray-200 rounded-lg p-4 space-y-3" data-testid={`row-criterion-${index}`}>
+              <div className="flex items-center gap-3">
+                <Input
+                  placeholder="Criterion name"
+                  value={criterion.name}
+                  onChange={(e) => updateCriterion(index, { name: e.target.value })}
+                  data-testid={`input-criterion-name-${index}`}
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  className="w-24 flex-shrink-0"
+                  aria-label="Weight"
+                  value={criterion.weight}
+                  onChange={(e) => updateCriterion(index, { weight: clampScore(e.target.value) })}
+                  data-testid={`input-criterion-weight-${index}`}
+                />
+                <UntitledButton
+                  variant="tertiary-destructive"
+                  size="sm"
+                  onClick={() => removeCriterion(index)}
+                  disabled={rubric.criteria.length <= 1}
+                  aria-label="Remove criterion"
+                  data-testid={`button-remove-criterion-${index}`}
+                  iconLeading={<Trash01 className="w-4 h-4" />}
+                />
+              </div>
+              <Input
+                placeholder="What does a lead that scores high on this look like?"
+                value={criterion.description}
+                onChange={(e) => updateCriterion(index, { description: e.target.value })}
+                data-testid={`input-criterion-description-${index}`}
+              />
+            </div>
+          ))}
+        </div>
+
+        <UntitledButton
+          variant="secondary"
+          size="sm"
+          className="mt-3"
+          onClick={addCriterion}
+          disabled={rubric.criteria.length >= MAX_CRITERIA}
+          data-testid="button-add-criterion"
+          iconLeading={<Plus className="w-4 h-4" />}
+        >
+          Add Criterion
+        </UntitledButton>
+        <p className="mt-2 text-xs sm:text-sm text-gray-500">
+          Weights are relative. A lead's score is the weighted average of its criterion scores.
+        </p>
+      </div>
+
+      <div>
+        <Label className="text-sm font-medium text-charcoal-600">Disqualifiers</Label>
+        <div className="mt-3 space-y-3">
+          {rubric.disqualifiers.map((disqualifier, index) => (
+            <div key={index} className="flex items-center gap-3">
+              <Input
+                placeholder="e.g. Student or job seeker"
+                value={disqualifier}
+                onChange={(e) => updateDisqualifier(index, e.target.value)}
+                data-testid={`input-disqualifier-${index}`}
+              />
+              <UntitledButton
+                variant="tertiary-destructive"
+                size="sm"
+                onClick={() => onChange({ ...rubric, disqualifiers: rubric.disqualifiers.filter((_, i) => i !== index) })}
+                aria-label="Remove disqualifier"
+                data-testid={`button-remove-disqualifier-${index}`}
+                iconLeading={<Trash01 className="w-4 h-4" />}
+              />
+            </div>
+          ))}
+        </div>
+        <UntitledButton
+          variant="secondary"
+          size="sm"
+          className="mt-3"
+          onClick={() => onChange({ ...rubric, disqualifiers: [...rubric.disqualifiers, ""] })}
+          disabled={rubric.disqualifiers.length >= MAX_DISQUALIFIERS}
+          data-testid="button-add-disqualifier"
+          iconLeading={<Plus className="w-4 h-4" />}
+        >
+          Add Disqualifier
+        </UntitledButton>
+        <p className="mt-2 text-xs sm:text-sm text-gray-500">
+          A lead matching any disqualifier is never qualified, whatever its score.
+        </p>
+      </div>
+
+      <div className="sm:w-1/3">
+        <Label htmlFor="rubric-threshold" className="text-sm font-medium text-charcoal-600">
+          Qualification Threshold
+        </Label>
+        <Input
+          id="rubric-threshold"
+          type="number"
+          min={0}
+          max={100}
+          className="mt-3"
+          value={rubric.threshold}
+          onChange={(e) => onChange({ ...rubric, threshold: clampScore(e.target.value) })}
+          data-testid="input-rubric-threshold"
+        />
+      </div>
+    </div>
+  );
+}
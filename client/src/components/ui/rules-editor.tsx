@@ -0,0 +1,164 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { UntitledButton } from "@/components/ui/untitled-button";
+import { DEFAULT_RULE_SET, ruleFields } from "@shared/rules-engine";
+import type { RuleOperator, RuleSet, ScoringRule } from "@shared/schema";
+import { Plus, RefreshCw05, Trash01 } from "@untitledui/icons";
+
+interface RulesEditorProps {
+  ruleSet: RuleSet;
+  onChange: (ruleSet: RuleSet) => void;
+}
+
+const MAX_RULES = 50;
+
+const operatorLabels: Record<RuleOperator, string> = {
+  contains: "contains",
+  containsAny: "contains any of",
+  notContains: "does not contain",
+  equals: "equals",
+  exists: "is present",
+  missing: "is empty",
+  atLeast: "is at least",
+  atMost: "is at most"
+};
+
+// Operators that only look at whether the field has a value
+const valuelessOperators: RuleOperator[] = ["exists", "missing"];
+
+export function RulesEditor({ ruleSet, onChange }: RulesEditorProps) {
+  const updateRule = (index: number, updates: Partial<ScoringRule>) => {
+    onChange({
+      ...ruleSet,
+      rules: ruleSet.rules.map((rule, i) => i === index ? { ...rule, ...updates } : rule)
+    });
+  };
+
+  const addRule = () => {
+    onChange({
+      ...ruleSet,
+      rules: [...ruleSet.rules, { field: "title", operator: "contains", value: "", weight: 10, label: "" }]
+    });
+  };
+
+  return (
+    <div className="space-y-6 sm:space-y-8">
+      <div className="sm:w-1/3">
+        <Label htmlFor="rules-base-score" className="text-sm font-medium text-charcoal-600">
+          Base Score
+        </Label>
+        <Input
+          id="rules-base-score"
+          type="number"
+          min={0}
+          max={100}
+          className="mt-3"
+          value={ruleSet.baseScore}
+          onChange={(e) => onChange({ ...ruleSet, baseScore: Math.max(0, Math.min(100, Math.round(Number(e.target.value) || 0))) })}
+          data-testid="input-rules-base-score"
+        />
+        <p className="mt-2 text-xs sm:text-sm text-gray-500">
+          Every lead starts here; each matching rule adds its weight.
+        </p>
+      </div>
+
+      <div>
+        <Label className="text-sm font-medium text-charcoal-600">Rules</Label>
+
+        {/* Suggestions for the field input; any other CSV column name works too */}
+        <datalist id="rule-fields">
+          {ruleFields.map((field) => <option key={field} value={field} />)}
+        </datalist>
+
+        <div className="mt-3 space-y-4">
+          {ruleSet.rules.map((rule, index) => (
+            <div key={index} className="border border-gray-200 rounded-lg p-4 space-y-3" data-testid={`row-rule-${index}`}>
+              <div className="grid grid-cols-1 sm:grid-cols-[1fr_180px_1fr_96px] gap-3">
+                <Input
+                  placeholder="Field or CSV column"
+                  list="rule-fields"
+                  value={rule.field}
+                  onChange={(e) => updateRule(index, { field: e.target.value })}
+                  data-testid={`input-rule-field-${index}`}
+                />
+                <Select
+                  value={rule.operator}
+                  onValueChange={(operator) => updateRule(index, { operator: operator as RuleOperator })}
+                >
+                  <SelectTrigger data-testid={`select-rule-operator-${index}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(operatorLabels).map(([operator, label]) => (
+                      <SelectItem key={operator} value={operator}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  placeholder={rule.operator === "containsAny" ? "Comma-separated values" : "Value"}
+                  value={rule.value}
+                  disabled={valuelessOperators.includes(rule.operator)}
+                  onChange={(e) => updateRule(index, { value: e.target.value })}
+                  data-testid={`input-rule-value-${index}`}
+                />
+                <Input
+                  type="number"
+                  min={-100}
+                  max={100}
+                  aria-label="Weight"
+                  value={rule.weight}
+                  onChange={(e) => updateRule(index, { weight: Math.max(-100, Math.min(100, Math.round(Number(e.target.value) || 0))) })}
+                  data-testid={`input-rule-weight-${index}`}
+                />
+              </div>
+              <div className="flex items-center gap-3">
+                <Input
+                  placeholder="Label shown to sales, e.g. Executive contact"
+                  value={rule.label}
+                  onChange={(e) => updateRule(index, { label: e.target.value })}
+                  data-testid={`input-rule-label-${index}`}
+                />
+                <UntitledButton
+                  variant="tertiary-destructive"
+                  size="sm"
+                  onClick={() => onChange({ ...ruleSet, rules: ruleSet.rules.filter((_, i) => i !== index) })}
+                  aria-label="Remove rule"
+                  data-testid={`button-remove-rule-${index}`}
+                  iconLeading={<Trash01 className="w-4 h-4" />}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-3 flex flex-col sm:flex-row space-y-3 sm:space-y-0 sm:space-x-3">
+          <UntitledButton
+            variant="secondary"
+            size="sm"
+            onClick={addRule}
+            disabled={ruleSet.rules.length >= MAX_RULES}
+            data-testid="button-add-rule"
+            iconLeading={<Plus className="w-4 h-4" />}
+          >
+            Add Rule
+          </UntitledButton>
+          <UntitledButton
+            variant="tertiary"
+            size="sm"
+            onClick={() => onChange(DEFAULT_RULE_SET)}
+            data-testid="button-reset-rules"
+            iconLeading={<RefreshCw05 className="w-4 h-4" />}
+          >
+            Reset to Defaults
+          </UntitledButton>
+        </div>
+        <p className="mt-2 text-xs sm:text-sm text-gray-500">
+          Use a negative weight to penalize a match. "contact" matches leads with a valid email or phone number.
+          "employees", "domain", "country" and "emailType" (free, corporate or disposable) use values cleaned up from the upload;
+          "emailIssues" and "phoneIssues" list problems such as invalidSyntax, disposable, roleAccount or invalidForRegion.
+        </p>
+      </div>
+    </div>
+  );
+}
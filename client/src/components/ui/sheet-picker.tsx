@@ -0,0 +1,59 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { SheetData } from "@/lib/file-import";
+import { detectHeaderRow } from "@shared/column-mapping";
+
+interface SheetPickerProps {
+  sheets: SheetData[];
+  sheetIndex: number;
+  // Zero-based index into the sheet's rows
+  headerRow: number;
+  onChange: (sheetIndex: number, headerRow: number) => void;
+}
+
+export function SheetPicker({ sheets, sheetIndex, headerRow, onChange }: SheetPickerProps) {
+  const rowCount = sheets[sheetIndex]?.rows.length ?? 0;
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-6">
+      <div>
+        <Label className="text-sm font-medium text-charcoal-600">Sheet</Label>
+        <Select
+          value={String(sheetIndex)}
+          onValueChange={(value) => onChange(Number(value), detectHeaderRow(sheets[Number(value)].rows))}
+        >
+          <SelectTrigger className="mt-3 w-full" data-testid="select-sheet">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {sheets.map((sheet, index) => (
+              <SelectItem key={sheet.name} value={String(index)} disabled={sheet.rows.length < 2}>
+                {sheet.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div>
+        <Label htmlFor="sheet-header-row" className="text-sm font-medium text-charcoal-600">
+          Header Row
+        </Label>
+        <Input
+          id="sheet-header-row"
+          type="number"
+          min={1}
+          max={Math.max(1, rowCount - 1)}
+          className="mt-3"
+          value={headerRow + 1}
+          onChange={(e) => onChange(sheetIndex, Math.max(0, Math.min(rowCount - 2, Math.round(Number(e.target.value) || 1) - 1)))}
+          data-testid="input-sheet-header-row"
+        />
+        <p className="mt-2 text-xs sm:text-sm text-gray-500">
+          We skipped any title rows above the column names. Change this if the columns look wrong.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -3,9 +3,13 @@ import { UntitledButton } from "@/components/ui/untitled-button";
 import { UntitledCard, UntitledCardContent, UntitledCardHeader, UntitledCardTitle } from "@/components/ui/untitled-card";
 import { UntitledTextarea } from "@/components/ui/untitled-textarea";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogOverlay } from "@/components/ui/dialog";
 import { cn } from "@/lib/utils";
+import { apiRequest } from "@/lib/queryClient";
+import { markSurveyed } from "@/hooks/use-auth";
+import type { FeedbackExportInfo, PriceRange, TimeSaved } from "@shared/schema";
 import { X, Download01 } from "@untitledui/icons";
 
 export interface SurveyData {
@@ -13,20 +17,38 @@ export interface SurveyData {
   willingToPay: string;
   priceRange: string;
   email: string;
+  contactConsent: boolean;
 }
 
 export interface SurveyModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onExport: (surveyData: SurveyData) => void;
+  // answered is false when the survey was skipped
+  onExport: (answered: boolean) => void;
   exportButtonText?: string;
-  exportInfo?: {
-    exportType: 'all' | 'filtered';
-    leadsCount: number;
-    totalLeads: number;
-    qualifiedLeads: number;
-    qualificationRate: number;
-  };
+  exportInfo?: FeedbackExportInfo;
+}
+
+const emptySurvey: SurveyData = {
+  timeSaved: "",
+  willingToPay: "",
+  priceRange: "",
+  email: "",
+  contactConsent: false
+};
+
+// Answers go to the server, which keeps them and passes them on; the export never waits on it
+function sendFeedback(surveyData: SurveyData | null, exportInfo?: FeedbackExportInfo) {
+  markSurveyed();
+  apiRequest("POST", "/api/feedback", {
+    skipped: surveyData === null,
+    timeSaved: (surveyData?.timeSaved || null) as TimeSaved | null,
+    willingToPay: surveyData?.willingToPay ? surveyData.willingToPay === "yes" : null,
+    priceRange: (surveyData?.priceRange || null) as PriceRange | null,
+    email: surveyData?.email.trim() || null,
+    contactConsent: surveyData?.contactConsent ?? false,
+    exportInfo: exportInfo ?? null
+  }).catch(error => console.warn('Failed to send feedback:', error));
 }
 
 export function SurveyModal({ 
@@ -36,34 +58,10 @@ export function SurveyModal({
   exportButtonText = "Export now",
   exportInfo
 }: SurveyModalProps) {
-  const [surveyData, setSurveyData] = useState<SurveyData>({
-    timeSaved: "",
-    willingToPay: "",
-    priceRange: "",
-    email: ""
-  });
+  const [surveyData, setSurveyData] = useState<SurveyData>(emptySurvey);
 
   const [isSubmitting, setIsSubmitting] = useState(false);
 
-  const sendToMakeWebhook = async (data: any) => {
-    try {
-      const response = await fetch('https://hook.eu2.make.com/vqreopcms9ghgbw6p0rqld46627722kb', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(data)
-      });
-      
-      if (!response.ok) {
-        console.warn('Webhook request failed:', response.status, response.statusText);
-      }
-    } catch (error) {
-      console.warn('Failed to send data to webhook:', error);
-      // Don't block the export if webhook fails
-    }
-  };
-
   const handleSubmit = async () => {
     setIsSubmitting(true);
     
@@ -79,41 +77,20 @@ export function SurveyModal({
       return;
     }
 
+    // An email is only sent on with permission to use it
+    if (surveyData.email.trim() && !surveyData.contactConsent) {
+      setIsSubmitting(false);
+      return;
+    }
+
     try {
-      // Send survey data to Make.com webhook
-      const webhookData = {
-        timestamp: new Date().toISOString(),
-        survey_data: {
-          time_saved: surveyData.timeSaved,
-          willing_to_pay: surveyData.willingToPay,
-          price_range: surveyData.priceRange || null,
-          email: surveyData.email || null
-        },
-        export_info: exportInfo ? {
-          export_type: exportInfo.exportType,
-          leads_count: exportInfo.leadsCount,
-          filename: `lead_qualification_results_${exportInfo.exportType === 'filtered' ? 'filtered_' : ''}${new Date().toISOString().split('T')[0]}.csv`
-        } : null,
-        user_session: exportInfo ? {
-          leads_processed: exportInfo.totalLeads,
-          qualified_leads: exportInfo.qualifiedLeads,
-          qualification_rate: exportInfo.qualificationRate
-        } : null
-      };
-      
-      // Send to webhook (don't await to avoid blocking export)
-      sendToMakeWebhook(webhookData);
+      sendFeedback(surveyData, exportInfo);
       
       // Continue with normal export
-      await onExport(surveyData);
+      await onExport(true);
       
       // Reset form
-      setSurveyData({
-        timeSaved: "",
-        willingToPay: "",
-        priceRange: "",
-        email: ""
-      });
+      setSurveyData(emptySurvey);
       
       onClose();
     } catch (error) {
@@ -236,6 +213,17 @@ export function SurveyModal({
                   onChange={(e) => setSurveyData(prev => ({ ...prev, email: e.target.value }))}
                   data-testid="input-survey-email"
                 />
+                {surveyData.email.trim() && (
+                  <label className="flex items-start space-x-2 text-sm text-gray-600 cursor-pointer">
+                    <Checkbox
+                      checked={surveyData.contactConsent}
+                      onCheckedChange={(checked) => setSurveyData(prev => ({ ...prev, contactConsent: checked === true }))}
+                      className="mt-0.5"
+                      data-testid="checkbox-survey-consent"
+                    />
+                    <span>You may email me about product updates</span>
+                  </label>
+                )}
               </div>
 
               {/* Export Button */}
@@ -246,6 +234,7 @@ export function SurveyModal({
                     !surveyData.timeSaved || 
                     !surveyData.willingToPay || 
                     (surveyData.willingToPay === "yes" && !surveyData.priceRange) ||
+                    (surveyData.email.trim() !== "" && !surveyData.contactConsent) ||
                     isSubmitting
                   }
                   variant="primary"
@@ -263,39 +252,10 @@ export function SurveyModal({
               {/* Skip option */}
               <div className="text-center">
                 <button
-                  onClick={async () => {
-                    // Send empty survey data to webhook for tracking
-                    const webhookData = {
-                      timestamp: new Date().toISOString(),
-                      survey_data: {
-                        time_saved: null,
-                        willing_to_pay: null,
-                        price_range: null,
-                        email: null,
-                        skipped: true
-                      },
-                      export_info: exportInfo ? {
-                        export_type: exportInfo.exportType,
-                        leads_count: exportInfo.leadsCount,
-                        filename: `lead_qualification_results_${exportInfo.exportType === 'filtered' ? 'filtered_' : ''}${new Date().toISOString().split('T')[0]}.csv`
-                      } : null,
-                      user_session: exportInfo ? {
-                        leads_processed: exportInfo.totalLeads,
-                        qualified_leads: exportInfo.qualifiedLeads,
-                        qualification_rate: exportInfo.qualificationRate
-                      } : null
-                    };
-                    
-                    // Send to webhook
-                    sendToMakeWebhook(webhookData);
-                    
-                    // Export without survey data
-                    onExport({
-                      timeSaved: "",
-                      willingToPay: "",
-                      priceRange: "",
-                      email: ""
-                    });
+                  onClick={() => {
+                    // Skips are recorded too, so the survey is not asked again
+                    sendFeedback(null, exportInfo);
+                    onExport(false);
                     onClose();
                   }}
                   className="text-sm text-gray-500 hover:text-gray-700 underline transition-colors"
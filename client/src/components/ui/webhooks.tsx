@@ -0,0 +1,271 @@
+import { useState, type FormEvent } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { UntitledButton } from "@/components/ui/untitled-button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { webhookEvents, type Webhook, type WebhookDelivery, type WebhookDeliveryStatus, type WebhookEvent } from "@shared/schema";
+import { Copy01, ReverseLeft, Send01, Trash01 } from "@untitledui/icons";
+
+const WEBHOOKS_KEY = ["/api/webhooks"];
+
+const eventLabels: Record<WebhookEvent, string> = {
+  "run.completed": "Run completed",
+  "lead.qualified": "Lead qualified",
+  "lead.score_changed": "Lead score changed"
+};
+
+const statusStyles: Record<WebhookDeliveryStatus, string> = {
+  pending: "bg-yellow-50 text-yellow-700 border-yellow-200",
+  delivered: "bg-green-50 text-green-700 border-green-200",
+  failed: "bg-red-50 text-red-700 border-red-200"
+};
+
+interface WebhooksProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// The delivery log of one webhook, newest first, with a way to send any event again
+function DeliveryLog({ webhook }: { webhook: Webhook }) {
+  const { toast } = useToast();
+  const deliveriesKey = [`/api/webhooks/${webhook.id}/deliveries`];
+  const { data: deliveries = [], isLoading } = useQuery<WebhookDelivery[]>({ queryKey: deliveriesKey, staleTime: 0, refetchInterval: 5000 });
+
+  const replay = async (delivery: WebhookDelivery) => {
+    try {
+      await apiRequest("POST", `/api/webhooks/${webhook.id}/deliveries/${delivery.id}/replay`);
+      queryClient.invalidateQueries({ queryKey: deliveriesKey });
+    } catch (error) {
+      toast({
+        title: "Could Not Replay Delivery",
+        description: error instanceof Error ? error.message : "Failed to replay delivery.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (isLoading) {
+    return <p className="py-2 text-xs text-gray-500">Loading deliveries…</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-gray-100 max-h-56 overflow-y-auto border border-gray-200 rounded-lg" data-testid={`list-webhook-deliveries-${webhook.id}`}>
+      {deliveries.length === 0 && <li className="px-3 py-2 text-xs text-gray-500">Nothing sent yet.</li>}
+      {deliveries.map(delivery => (
+        <li key={delivery.id} className="flex items-center justify-between gap-3 px-3 py-2" data-testid={`row-webhook-delivery-${delivery.id}`}>
+          <div className="min-w-0 text-xs">
+            <p className="flex items-center gap-2">
+              <Badge variant="outline" className={statusStyles[delivery.status]}>{delivery.status}</Badge>
+              <span className="font-mono text-charcoal-600">{delivery.event}</span>
+              <span className="text-gray-500">{new Date(delivery.createdAt).toLocaleString()}</span>
+            </p>
+            <p className="text-gray-500 truncate mt-1">
+              {delivery.attempts} attempt{delivery.attempts === 1 ? "" : "s"}
+              {delivery.responseStatus !== null && ` • HTTP ${delivery.responseStatus}`}
+              {delivery.error && ` • ${delivery.error}`}
+              {delivery.status === "pending" && delivery.nextAttemptAt && ` • next try ${new Date(delivery.nextAttemptAt).toLocaleTimeString()}`}
+            </p>
+          </div>
+          {delivery.status !== "pending" && (
+            <UntitledButton
+              variant="tertiary"
+              size="sm"
+              onClick={() => replay(delivery)}
+              data-testid={`button-replay-delivery-${delivery.id}`}
+              iconLeading={<ReverseLeft className="w-4 h-4" />}
+            >
+              Replay
+            </UntitledButton>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Workspace webhooks that push run and lead events to other systems as signed JSON POSTs
+export function Webhooks({ open, onOpenChange }: WebhooksProps) {
+  const { toast } = useToast();
+  const { data: webhooks = [] } = useQuery<Webhook[]>({ queryKey: WEBHOOKS_KEY, enabled: open, staleTime: 0 });
+  const [url, setUrl] = useState("");
+  const [description, setDescription] = useState("");
+  const [events, setEvents] = useState<WebhookEvent[]>(["run.completed"]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [logOpenFor, setLogOpenFor] = useState<string | null>(null);
+  const [testingId, setTestingId] = useState<string | null>(null);
+
+  const change = async (request: () => Promise<Response>, failure: string) => {
+    try {
+      await request();
+      queryClient.invalidateQueries({ queryKey: WEBHOOKS_KEY });
+      return true;
+    } catch (error) {
+      toast({
+        title: failure,
+        description: error instanceof Error ? error.message : failure,
+        variant: "destructive"
+      });
+      return false;
+    }
+  };
+
+  const createWebhook = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    const created = await change(
+      () => apiRequest("POST", "/api/webhooks", { url, description: description || null, events }),
+      "Could Not Add Webhook"
+    );
+    setIsSaving(false);
+    if (created) {
+      setUrl("");
+      setDescription("");
+    }
+  };
+
+  const testWebhook = async (webhook: Webhook) => {
+    setTestingId(webhook.id);
+    try {
+      const response = await apiRequest("POST", `/api/webhooks/${webhook.id}/test`);
+      const delivery: WebhookDelivery = await response.json();
+      queryClient.invalidateQueries({ queryKey: [`/api/webhooks/${webhook.id}/deliveries`] });
+      toast(delivery.status === "delivered"
+        ? { title: "Test Delivered", description: `The receiver answered HTTP ${delivery.responseStatus}.` }
+        : { title: "Test Failed", description: delivery.error ?? "The receiver did not accept the delivery.", variant: "destructive" });
+    } catch (error) {
+      toast({
+        title: "Could Not Send Test",
+        description: error instanceof Error ? error.message : "Failed to send test delivery.",
+        variant: "destructive"
+      });
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+    setEvents(current => checked ? [...current, event] : current.filter(e => e !== event));
+  };
+
+  const copySecret = async (secret: string) => {
+    await navigator.clipboard.writeText(secret);
+    toast({ title: "Secret Copied", description: "Use it to check the X-Webhook-Signature header." });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl bg-white max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Webhooks</DialogTitle>
+          <DialogDescription>
+            Events are POSTed as JSON and signed: X-Webhook-Signature is "sha256=" and the HMAC-SHA256, keyed with the
+            webhook's secret, of the X-Webhook-Timestamp header, a "." and the body. Failed deliveries are retried with backoff.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ul className="divide-y divide-gray-200" data-testid="list-webhooks">
+          {webhooks.length === 0 && <li className="py-3 text-sm text-gray-500">No webhooks yet.</li>}
+          {webhooks.map(webhook => (
+            <li key={webhook.id} className="py-3 space-y-2" data-testid={`row-webhook-${webhook.id}`}>
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <p className={`text-sm font-medium truncate ${webhook.active ? "text-charcoal-600" : "text-gray-400"}`}>{webhook.url}</p>
+                  <p className="text-xs text-gray-500">
+                    {webhook.description && `${webhook.description} • `}
+                    {webhook.events.map(event => eventLabels[event]).join(", ")}
+                  </p>
+                  <button
+                    type="button"
+                    className="mt-1 inline-flex items-center gap-1 text-xs font-mono text-gray-500 hover:text-charcoal-600"
+                    onClick={() => copySecret(webhook.secret)}
+                    data-testid={`button-copy-webhook-secret-${webhook.id}`}
+                  >
+                    {webhook.secret.slice(0, 12)}… <Copy01 className="w-3 h-3" />
+                  </button>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Switch
+                    checked={webhook.active}
+                    onCheckedChange={(active) => change(
+                      () => apiRequest("PATCH", `/api/webhooks/${webhook.id}`, { active }),
+                      "Could Not Update Webhook"
+                    )}
+                    aria-label={webhook.active ? "Turn webhook off" : "Turn webhook on"}
+                    data-testid={`switch-webhook-active-${webhook.id}`}
+                  />
+                  <UntitledButton
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => testWebhook(webhook)}
+                    disabled={testingId === webhook.id}
+                    data-testid={`button-test-webhook-${webhook.id}`}
+                    iconLeading={<Send01 className="w-4 h-4" />}
+                  >
+                    Test
+                  </UntitledButton>
+                  <UntitledButton
+                    variant="tertiary"
+                    size="sm"
+                    onClick={() => setLogOpenFor(logOpenFor === webhook.id ? null : webhook.id)}
+                    data-testid={`button-webhook-log-${webhook.id}`}
+                  >
+                    {logOpenFor === webhook.id ? "Hide Log" : "Log"}
+                  </UntitledButton>
+                  <UntitledButton
+                    variant="tertiary-destructive"
+                    size="sm"
+                    onClick={() => change(() => apiRequest("DELETE", `/api/webhooks/${webhook.id}`), "Could Not Delete Webhook")}
+                    aria-label={`Delete ${webhook.url}`}
+                    data-testid={`button-delete-webhook-${webhook.id}`}
+                    iconLeading={<Trash01 className="w-4 h-4" />}
+                  />
+                </div>
+              </div>
+              {logOpenFor === webhook.id && <DeliveryLog webhook={webhook} />}
+            </li>
+          ))}
+        </ul>
+
+        <form onSubmit={createWebhook} className="space-y-3 pt-3 border-t border-gray-200">
+          <div className="grid grid-cols-1 sm:grid-cols-[2fr_1fr] gap-2">
+            <div>
+              <Label htmlFor="webhook-url" className="text-xs text-gray-600">URL</Label>
+              <Input id="webhook-url" type="url" required placeholder="https://example.com/hooks/leads" value={url} onChange={(e) => setUrl(e.target.value)} data-testid="input-webhook-url" />
+            </div>
+            <div>
+              <Label htmlFor="webhook-description" className="text-xs text-gray-600">Description</Label>
+              <Input id="webhook-description" placeholder="Optional" value={description} onChange={(e) => setDescription(e.target.value)} data-testid="input-webhook-description" />
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-4">
+            {webhookEvents.map(event => (
+              <label key={event} className="flex items-center space-x-2 text-sm text-charcoal-600 cursor-pointer">
+                <Checkbox
+                  checked={events.includes(event)}
+                  onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                  data-testid={`checkbox-webhook-event-${event}`}
+                />
+                <span>{eventLabels[event]}</span>
+              </label>
+            ))}
+            <UntitledButton
+              type="submit"
+              variant="primary"
+              disabled={isSaving || events.length === 0}
+              className="ml-auto bg-navy-600 hover:bg-navy-700"
+              data-testid="button-add-webhook"
+            >
+              Add Webhook
+            </UntitledButton>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,149 @@
+import { useState, type FormEvent } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { UntitledButton } from "@/components/ui/untitled-button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { workspaceRoles, type WorkspaceMemberView, type WorkspaceRole } from "@shared/schema";
+import { Trash01 } from "@untitledui/icons";
+
+const MEMBERS_KEY = ["/api/workspace/members"];
+
+const roleLabels: Record<WorkspaceRole, string> = {
+  admin: "Admin",
+  analyst: "Analyst",
+  viewer: "Viewer"
+};
+
+interface WorkspaceMembersProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  workspaceName: string;
+  currentUserId: string;
+  // Only admins may add, remove or change members
+  canManage: boolean;
+}
+
+// The people in the workspace and what each may do: viewers read, analysts also run
+// analyses, admins also manage the members
+export function WorkspaceMembers({ open, onOpenChange, workspaceName, currentUserId, canManage }: WorkspaceMembersProps) {
+  const { toast } = useToast();
+  const { data: members = [] } = useQuery<WorkspaceMemberView[]>({ queryKey: MEMBERS_KEY, enabled: open, staleTime: 0 });
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<WorkspaceRole>("analyst");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const change = async (request: () => Promise<Response>, failure: string) => {
+    setIsSaving(true);
+    try {
+      const response = await request();
+      if (response.status === 204) {
+        queryClient.invalidateQueries({ queryKey: MEMBERS_KEY });
+      } else {
+        queryClient.setQueryData(MEMBERS_KEY, await response.json());
+      }
+      return true;
+    } catch (error) {
+      toast({
+        title: failure,
+        description: error instanceof Error ? error.message : failure,
+        variant: "destructive"
+      });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const addMember = async (e: FormEvent) => {
+    e.preventDefault();
+    if (await change(() => apiRequest("POST", "/api/workspace/members", { email, role }), "Could Not Add Member")) {
+      setEmail("");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg bg-white">
+        <DialogHeader>
+          <DialogTitle>Members of {workspaceName}</DialogTitle>
+          <DialogDescription>
+            Viewers can open analyses, analysts can also run them, and admins can also manage members.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ul className="divide-y divide-gray-200" data-testid="list-workspace-members">
+          {members.map(member => (
+            <li key={member.userId} className="flex items-center justify-between gap-3 py-3" data-testid={`row-member-${member.userId}`}>
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-charcoal-600 truncate">
+                  {member.name || member.email}{member.userId === currentUserId && " (you)"}
+                </p>
+                {member.name && <p className="text-xs text-gray-500 truncate">{member.email}</p>}
+              </div>
+              {canManage ? (
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={member.role}
+                    onValueChange={(value) => change(
+                      () => apiRequest("PATCH", `/api/workspace/members/${member.userId}`, { role: value }),
+                      "Could Not Change Role"
+                    )}
+                    disabled={isSaving}
+                  >
+                    <SelectTrigger className="w-28" data-testid={`select-member-role-${member.userId}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {workspaceRoles.map(value => <SelectItem key={value} value={value}>{roleLabels[value]}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                  <UntitledButton
+                    variant="tertiary-destructive"
+                    size="sm"
+                    onClick={() => change(
+                      () => apiRequest("DELETE", `/api/workspace/members/${member.userId}`),
+                      "Could Not Remove Member"
+                    )}
+                    disabled={isSaving}
+                    aria-label={`Remove ${member.email}`}
+                    data-testid={`button-remove-member-${member.userId}`}
+                    iconLeading={<Trash01 className="w-4 h-4" />}
+                  />
+                </div>
+              ) : (
+                <span className="text-sm text-gray-600">{roleLabels[member.role]}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        {canManage && (
+          <form onSubmit={addMember} className="flex flex-col sm:flex-row gap-2 pt-2 border-t border-gray-200">
+            <Input
+              type="email"
+              required
+              placeholder="Email of an existing account"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              data-testid="input-member-email"
+            />
+            <Select value={role} onValueChange={(value) => setRole(value as WorkspaceRole)}>
+              <SelectTrigger className="sm:w-32" data-testid="select-new-member-role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {workspaceRoles.map(value => <SelectItem key={value} value={value}>{roleLabels[value]}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <UntitledButton type="submit" variant="primary" disabled={isSaving} className="bg-navy-600 hover:bg-navy-700" data-testid="button-add-member">
+              Add
+            </UntitledButton>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,80 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { clearActiveJobId } from "@/lib/lead-processor";
+import type { AuthSession, WorkspaceRole } from "@shared/schema";
+
+const SESSION_KEY = ["/api/auth/me"];
+
+export interface LoginData {
+  email: string;
+  password: string;
+}
+
+export interface RegisterData extends LoginData {
+  name?: string;
+  workspaceName?: string;
+}
+
+// Everything cached belongs to the previous user or workspace, so it is dropped before the new session is shown
+function startSession(session: AuthSession | null) {
+  queryClient.clear();
+  queryClient.setQueryData(SESSION_KEY, session);
+}
+
+// The survey is asked once per user; this keeps it from coming back before the session is next loaded
+export function markSurveyed() {
+  queryClient.setQueryData<AuthSession | null>(SESSION_KEY, session => session && {
+    ...session,
+    user: { ...session.user, surveyedAt: new Date() }
+  });
+}
+
+export function useAuth() {
+  const { data: session, isLoading } = useQuery<AuthSession | null>({
+    queryKey: SESSION_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" })
+  });
+
+  const login = useMutation({
+    mutationFn: async (data: LoginData) => (await apiRequest("POST", "/api/auth/login", data)).json() as Promise<AuthSession>,
+    onSuccess: startSession
+  });
+
+  const register = useMutation({
+    mutationFn: async (data: RegisterData) => (await apiRequest("POST", "/api/auth/register", data)).json() as Promise<AuthSession>,
+    onSuccess: startSession
+  });
+
+  const logout = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout");
+    },
+    onSuccess: () => {
+      // A run followed in this browser belongs to the user signing out
+      clearActiveJobId();
+      startSession(null);
+    }
+  });
+
+  const switchWorkspace = useMutation({
+    mutationFn: async (workspaceId: string) => (await apiRequest("POST", "/api/auth/workspace", { workspaceId })).json() as Promise<AuthSession>,
+    onSuccess: (next) => {
+      clearActiveJobId();
+      startSession(next);
+    }
+  });
+
+  const role: WorkspaceRole | undefined = session?.workspaces.find(workspace => workspace.id === session.workspaceId)?.role;
+
+  return {
+    session: session ?? null,
+    isLoading,
+    role,
+    // Viewers can look at the workspace's analyses but not start or change them
+    canEdit: role === "admin" || role === "analyst",
+    login,
+    register,
+    logout,
+    switchWorkspace
+  };
+}
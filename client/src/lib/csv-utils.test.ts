@@ -0,0 +1,32 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { mapRowsToLeads, rowErrorsCsv } from "./csv-utils";
+import { tableFromRows } from "./file-import";
+
+describe('mapRowsToLeads', () => {
+  test('numbers leads by their record in the file, past skipped and rejected rows', () => {
+    const table = {
+      headers: ['Company', 'Email'],
+      rows: [['Acme', 'ada@acme.com'], ['Globex', 'hank@globex.com']],
+      rowNumbers: [2, 5],
+      errors: [{ row: 3, message: 'Has 3 values but the header has 2', content: 'a,b,c' }]
+    };
+    const leads = mapRowsToLeads(table, { Company: 'companyName', Email: 'email' }, 'US');
+    assert.deepEqual(leads.map(lead => lead.sourceRow), [2, 5]);
+  });
+
+  test('numbers spreadsheet leads by their sheet row', () => {
+    const table = tableFromRows([['Exported 2026-10-01'], [], ['Company'], ['Acme'], [''], ['Globex']], 2);
+    const leads = mapRowsToLeads(table, { Company: 'companyName' }, 'US');
+    assert.deepEqual(leads.map(lead => lead.sourceRow), [4, 6]);
+  });
+});
+
+describe('rowErrorsCsv', () => {
+  test('neutralizes formula content from rejected rows', () => {
+    assert.equal(
+      rowErrorsCsv([{ row: 3, message: 'Too many fields', content: '=cmd|calc,extra' }]),
+      `Row,Error,Content\r\n3,Too many fields,"'=cmd|calc,extra"`
+    );
+  });
+});
@@ -0,0 +1,150 @@
+import Papa from "papaparse";
+import { uniqueHeaders } from "@shared/column-mapping";
+import type { CsvRowError, CsvTable, FileWorkerMessage } from "./csv-utils";
+
+const PROGRESS_INTERVAL_ROWS = 1000;
+const MAX_ERROR_CONTENT_LENGTH = 500;
+// The encoding is judged from this much of the start of the file
+const SNIFF_BYTES = 64 * 1024;
+
+function detectEncoding(bytes: Uint8Array): string {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+  // Without a BOM, UTF-16 text that is mostly ASCII has a zero in every other byte
+  const sample = bytes.subarray(0, 1024);
+  let evenZeros = 0;
+  let oddZeros = 0;
+  sample.forEach((byte, i) => {
+    if (byte === 0) i % 2 === 0 ? evenZeros++ : oddZeros++;
+  });
+  if (oddZeros > sample.length / 4) return 'utf-16le';
+  if (evenZeros > sample.length / 4) return 'utf-16be';
+
+  // Excel on Windows still saves "CSV" as Windows-1252. The sample may end mid-character,
+  // which a streaming decode leaves pending instead of rejecting.
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+}
+
+function post(message: FileWorkerMessage<CsvTable>) {
+  self.postMessage(message);
+}
+
+type StreamListener = (value?: unknown) => void;
+
+// Papa streams Node-style readables: it listens for data, end and error and may pause and
+// resume. This gives it those over a web stream, so it parses one decoded chunk at a time.
+function nodeStyleReadable(stream: ReadableStream<string>) {
+  const reader = stream.getReader();
+  const listeners = new Map<string, StreamListener>();
+  let paused = false;
+  let pumping = false;
+
+  const pump = async () => {
+    if (pumping) return;
+    pumping = true;
+    try {
+      while (!paused) {
+        const { done, value } = await reader.read();
+        if (done) {
+          listeners.get('end')?.();
+          return;
+        }
+        listeners.get('data')?.(value);
+      }
+    } catch (error) {
+      listeners.get('error')?.(error);
+    } finally {
+      pumping = false;
+    }
+  };
+
+  return {
+    readable: true,
+    read() {},
+    on(event: string, listener: StreamListener) {
+      listeners.set(event, listener);
+      // Papa registers all its listeners at once, so reading starts right after
+      if (event === 'data') queueMicrotask(pump);
+    },
+    removeListener(event: string) {
+      listeners.delete(event);
+    },
+    pause() {
+      paused = true;
+    },
+    resume() {
+      paused = false;
+      void pump();
+    }
+  };
+}
+
+async function parse(file: File) {
+  const encoding = detectEncoding(new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer()));
+
+  // The decoder stream keeps multi-byte characters intact across chunk boundaries
+  let bytesRead = 0;
+  const text = file.stream()
+    .pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        bytesRead += chunk.length;
+        controller.enqueue(chunk);
+      }
+    }))
+    .pipeThrough(new TextDecoderStream(encoding));
+
+  let headers: string[] | null = null;
+  const rows: string[][] = [];
+  const rowNumbers: number[] = [];
+  const errors: CsvRowError[] = [];
+  let rowNumber = 0;
+  let delimiter = ',';
+
+  Papa.parse<string[]>(nodeStyleReadable(text) as unknown as NodeJS.ReadableStream, {
+    skipEmptyLines: 'greedy',
+    delimitersToGuess: [',', ';', '\t', '|'],
+    step(results) {
+      rowNumber++;
+      delimiter = results.meta.delimiter;
+      const values = results.data.map(value => value.trim());
+
+      if (!headers) {
+        headers = uniqueHeaders(values);
+        return;
+      }
+
+      const problem = results.errors[0]?.message
+        ?? (values.length !== headers.length ? `Has ${values.length} values but the header has ${headers.length}` : undefined);
+      if (problem) {
+        errors.push({ row: rowNumber, message: problem, content: results.data.join(delimiter).trim().substring(0, MAX_ERROR_CONTENT_LENGTH) });
+      } else {
+        rows.push(values);
+        rowNumbers.push(rowNumber);
+      }
+
+      if (rowNumber % PROGRESS_INTERVAL_ROWS === 0) {
+        post({ type: 'progress', progress: (bytesRead / file.size) * 100 });
+      }
+    },
+    complete() {
+      const table: CsvTable = { headers: headers ?? [], rows, rowNumbers, errors, delimiter, encoding };
+      post({ type: 'done', result: table });
+    },
+    error(error) {
+      post({ type: 'error', message: error.message });
+    }
+  });
+}
+
+self.onmessage = (event: MessageEvent<File>) => {
+  parse(event.data).catch(error => {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+  });
+};
@@ -0,0 +1,178 @@
+import { detectHeaderRow, uniqueHeaders } from "@shared/column-mapping";
+import { parseCsvTable, runFileWorker, type CsvRowError, type CsvTable } from "@/lib/csv-utils";
+
+export interface SheetData {
+  name: string;
+  rows: string[][];
+}
+
+// The sheet and header row the table was read from
+export interface Workbook {
+  sheets: SheetData[];
+  sheetIndex: number;
+  // Zero-based index into the sheet's rows
+  headerRow: number;
+}
+
+export interface ImportedFile {
+  table: CsvTable;
+  // Set for spreadsheets, so the user can pick another sheet or header row
+  workbook?: Workbook;
+}
+
+const MAX_FILE_SIZE = 50 * 1024 * 1024;
+const MAX_ERROR_CONTENT_LENGTH = 500;
+
+const CSV_EXTENSIONS = ['.csv', '.tsv', '.txt'];
+const SPREADSHEET_EXTENSIONS = ['.xlsx', '.xlsm', '.xls', '.ods'];
+const JSON_EXTENSIONS = ['.json'];
+const NDJSON_EXTENSIONS = ['.ndjson', '.jsonl'];
+
+export const LEAD_FILE_ACCEPT = [...CSV_EXTENSIONS, ...SPREADSHEET_EXTENSIONS, ...JSON_EXTENSIONS, ...NDJSON_EXTENSIONS].join(',');
+
+// Reads any supported lead file into the same table the column mapper works on
+export async function importLeadFile(file: File, onProgress?: (progress: number) => void): Promise<ImportedFile> {
+  const name = file.name.toLowerCase();
+  const hasExtension = (extensions: string[]) => extensions.some(extension => name.endsWith(extension));
+
+  // Increased file size limit for production (50MB)
+  if (file.size > MAX_FILE_SIZE) {
+    throw new Error('File size must be less than 50MB. For larger files, please split into smaller chunks.');
+  }
+
+  let imported: ImportedFile;
+  if (hasExtension(CSV_EXTENSIONS)) {
+    imported = { table: await parseCsvTable(file, onProgress) };
+  } else if (hasExtension(SPREADSHEET_EXTENSIONS)) {
+    const sheets = await runFileWorker<SheetData[]>(
+      new Worker(new URL('./spreadsheet-worker.ts', import.meta.url), { type: 'module' }),
+      file,
+      onProgress
+    );
+    const sheetIndex = Math.max(0, sheets.findIndex(sheet => sheet.rows.length > 1));
+    if (!sheets[sheetIndex]) {
+      throw new Error('The workbook does not contain any sheets.');
+    }
+    const headerRow = detectHeaderRow(sheets[sheetIndex].rows);
+    imported = { table: tableFromRows(sheets[sheetIndex].rows, headerRow), workbook: { sheets, sheetIndex, headerRow } };
+  } else if (hasExtension(JSON_EXTENSIONS)) {
+    imported = { table: parseJsonLeads(await file.text()) };
+  } else if (hasExtension(NDJSON_EXTENSIONS)) {
+    imported = { table: parseNdjsonLeads(await file.text()) };
+  } else {
+    throw new Error('Please select a CSV, Excel, ODS or JSON file.');
+  }
+
+  const { table } = imported;
+  if (table.headers.length === 0 || table.rows.length === 0) {
+    throw new Error(table.errors.length > 0
+      ? `None of the ${table.errors.length} rows in the file could be read. Row ${table.errors[0].row}: ${table.errors[0].message}`
+      : 'The file must contain a header row and at least one row of leads.');
+  }
+
+  onProgress?.(100);
+  return imported;
+}
+
+// Builds a table from a sheet's rows, taking the given row as the header and everything below as data.
+// Rows keep their sheet row numbers, as the spreadsheet app shows them.
+export function tableFromRows(rows: string[][], headerRow: number): CsvTable {
+  const dataRows = rows
+    .map((row, index) => ({ row, rowNumber: index + 1 }))
+    .slice(headerRow + 1)
+    .filter(({ row }) => row.some(cell => cell));
+  const width = dataRows.reduce((max, { row }) => Math.max(max, row.length), rows[headerRow]?.length ?? 0);
+  const pad = (row: string[]) => Array.from({ length: width }, (_, i) => row[i] ?? '');
+
+  return {
+    headers: width > 0 ? uniqueHeaders(pad(rows[headerRow] ?? [])) : [],
+    rows: dataRows.map(({ row }) => pad(row)),
+    rowNumbers: dataRows.map(({ rowNumber }) => rowNumber),
+    errors: []
+  };
+}
+
+// A lead object and its item or line number in the file
+interface FileRecord {
+  record: Record<string, unknown>;
+  row: number;
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value).trim();
+}
+
+// One column per key across all records, in the order keys first appear.
+// Our own lead exports nest extra columns under additionalData, so those are lifted out.
+function tableFromRecords(records: FileRecord[], errors: CsvRowError[]): CsvTable {
+  const flattened = records.map(({ record }) => {
+    const { additionalData, ...fields } = record;
+    return additionalData && typeof additionalData === 'object' && !Array.isArray(additionalData)
+      ? { ...fields, ...additionalData as Record<string, unknown> }
+      : record;
+  });
+
+  const headers = Array.from(new Set(flattened.flatMap(record => Object.keys(record))));
+  return {
+    headers,
+    rows: flattened.map(record => headers.map(header => formatValue(record[header]))),
+    rowNumbers: records.map(({ row }) => row),
+    errors
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Accepts an array of lead objects, or an object holding one under "leads"
+function parseJsonLeads(text: string): CsvTable {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`The file is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}`);
+  }
+
+  const items = Array.isArray(data) ? data : isRecord(data) && Array.isArray(data.leads) ? data.leads : null;
+  if (!items) {
+    throw new Error('The JSON file must contain an array of leads.');
+  }
+
+  const records: FileRecord[] = [];
+  const errors: CsvRowError[] = [];
+  items.forEach((item: unknown, index: number) => {
+    if (isRecord(item)) {
+      records.push({ record: item, row: index + 1 });
+    } else {
+      errors.push({ row: index + 1, message: 'Item is not an object', content: formatValue(item).substring(0, MAX_ERROR_CONTENT_LENGTH) });
+    }
+  });
+
+  return tableFromRecords(records, errors);
+}
+
+// One lead object per line; blank lines are skipped and unreadable ones reported
+function parseNdjsonLeads(text: string): CsvTable {
+  const records: FileRecord[] = [];
+  const errors: CsvRowError[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+
+    try {
+      const item: unknown = JSON.parse(line);
+      if (isRecord(item)) {
+        records.push({ record: item, row: index + 1 });
+      } else {
+        errors.push({ row: index + 1, message: 'Line is not a JSON object', content: line.substring(0, MAX_ERROR_CONTENT_LENGTH) });
+      }
+    } catch (error) {
+      errors.push({ row: index + 1, message: error instanceof Error ? error.message : 'Invalid JSON', content: line.substring(0, MAX_ERROR_CONTENT_LENGTH) });
+    }
+  });
+
+  return tableFromRecords(records, errors);
+}
@@ -0,0 +1,30 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { toCsv } from "@shared/crm-export";
+import type { ProcessedLead, Rubric } from "@shared/schema";
+import { resultRows } from "./lead-processor";
+
+const lead = (fields: Partial<ProcessedLead>): ProcessedLead => ({ id: 'lead', score: 50, qualified: false, reasoning: 'Fit unclear', ...fields });
+
+describe('resultRows', () => {
+  test('neutralizes formula cells and quotes what needs quoting', () => {
+    const [, row] = resultRows([lead({ companyName: '=HYPERLINK("http://x", "y")', contactName: '@SUM(A1:A9)', reasoning: 'Good fit, "enterprise"' })]);
+    const line = toCsv([row]);
+    assert.ok(line.startsWith(`"'=HYPERLINK(""http://x"", ""y"")",`));
+    assert.ok(line.includes(`,'@SUM(A1:A9),`));
+    assert.ok(line.includes(`,"Good fit, ""enterprise""",`));
+  });
+
+  test('leaves phone numbers as they are', () => {
+    const [, row] = resultRows([lead({ phone: '+1 (415) 555-0134' })]);
+    assert.equal(row[2], '+1 (415) 555-0134');
+    assert.ok(toCsv([row]).includes(',+1 (415) 555-0134,'));
+  });
+
+  test('adds a column per rubric criterion', () => {
+    const rubric: Rubric = { criteria: [{ id: 'fit', name: 'Fit, overall', description: '', weight: 1 }], disqualifiers: [], threshold: 60 };
+    const [headers, row] = resultRows([lead({ criterionScores: [{ criterionId: 'fit', score: 8 }] })], rubric);
+    assert.equal(headers.at(-1), 'Fit, overall');
+    assert.equal(row.at(-1), '8');
+  });
+});
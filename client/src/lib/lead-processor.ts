@@ -1,260 +1,161 @@
-import type { BusinessSetup, Lead, ProcessedLead, ProcessingStats } from "@shared/schema";
+import { stoppedJobStatuses, type AnalysisJobView, type BusinessSetup, type CostEstimate, type CrmExportMapping, type CrmProfileId, type JobStreamEvent, type Lead, type ProcessedLead, type ProcessingProgress, type ProcessingStats, type Rubric, type RubricGeneration, type RuleSet } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { downloadCsv } from "@/lib/csv-utils";
+import { buildCrmRows, crmExportFileName, toCsv } from "@shared/crm-export";
 
-interface ProcessingResult {
-  leads: ProcessedLead[];
-  stats: ProcessingStats;
+// Remembers the running job so the page can pick it back up after a reload
+const ACTIVE_JOB_KEY = 'leadQualifier.activeJobId';
+// Long lists are estimated from an even spread of their leads rather than sent whole
+const ESTIMATE_SAMPLE_SIZE = 200;
+
+export function getActiveJobId(): string | null {
+  return localStorage.getItem(ACTIVE_JOB_KEY);
+}
+
+export function clearActiveJobId() {
+  localStorage.removeItem(ACTIVE_JOB_KEY);
+}
+
+export interface AnalysisJobOptions {
+  fileName?: string;
+  campaignId?: string;
+  rubric?: Rubric;
+  ruleSet?: RuleSet;
+  scoringThreshold?: number;
+  // USD the run may spend before it pauses
+  budget?: number;
 }
 
-interface ProcessingProgress {
-  processed: number;
-  total: number;
-  currentBatch: number;
-  totalBatches: number;
-  averageTimePerLead: number;
-  estimatedTimeRemaining: number;
-  errors: number;
-  retries: number;
+// Asks the server to draft a weighted rubric from the business brief
+export async function generateRubric(businessSetup: BusinessSetup): Promise<RubricGeneration> {
+  const response = await apiRequest('POST', '/api/rubric', { businessSetup });
+  return response.json();
 }
 
-export async function processLeads(
+// Expected tokens and cost of analyzing the list with the deployment's model
+export async function estimateAnalysisCost(leads: Lead[], businessSetup: BusinessSetup, rubric?: Rubric): Promise<CostEstimate> {
+  const step = Math.max(1, leads.length / ESTIMATE_SAMPLE_SIZE);
+  const sample = Array.from({ length: Math.min(leads.length, ESTIMATE_SAMPLE_SIZE) }, (_, i) => leads[Math.floor(i * step)]);
+  const response = await apiRequest('POST', '/api/jobs/estimate', { leads: sample, leadCount: leads.length, businessSetup, rubric });
+  return response.json();
+}
+
+// Hands the whole lead list to the server, which qualifies it in the background
+export async function startAnalysisJob(
   leads: Lead[],
   businessSetup: BusinessSetup,
-  onProgress?: (progress: ProcessingProgress | number) => void
-): Promise<ProcessingResult> {
-  const processedLeads: ProcessedLead[] = [];
-  let qualifiedCount = 0;
-  let totalScore = 0;
-  let totalErrors = 0;
-  let totalRetries = 0;
-  const processingTimes: number[] = [];
-  const startTime = Date.now();
-
-  // Process leads in conservative batches to avoid rate limits
-  const batchSize = 2; // Process 2 leads at a time to stay within API limits
-  const totalBatches = Math.ceil(leads.length / batchSize);
-  
-  for (let i = 0; i < leads.length; i += batchSize) {
-    const batch = leads.slice(i, i + batchSize);
-    
-    // Add delay between batches to respect rate limits
-    if (i > 0) {
-      await new Promise(resolve => setTimeout(resolve, 1500)); // 1.5 second delay between batches
-    }
-    
-    // Process batch in parallel with timing
-    const batchStartTime = Date.now();
-    const batchPromises = batch.map(async (lead, batchIndex) => {
-      const leadStartTime = Date.now();
-      try {
-        // Add small delay between individual requests within batch
-        if (batchIndex > 0) {
-          await new Promise(resolve => setTimeout(resolve, 200)); // 200ms delay between requests in batch
-        }
-        
-        const processedLead = await processLead(lead, businessSetup);
-        const processingTime = Date.now() - leadStartTime;
-        processingTimes.push(processingTime);
-        return { success: true, lead: processedLead, index: i + batchIndex, processingTime };
-      } catch (error) {
-        totalErrors++;
-        console.error(`Failed to process lead ${i + batchIndex + 1}:`, error);
-        
-        // Enhanced fallback with better error context
-        const processingTime = Date.now() - leadStartTime;
-        const fallbackLead: ProcessedLead = {
-          ...lead,
-          score: 35,
-          qualified: false,
-          reasoning: `Processing error: ${error instanceof Error ? error.message : 'Unknown error'}. Using fallback scoring.`,
-          qualificationCriteria: ['Requires manual review']
-        };
-        
-        processingTimes.push(processingTime);
-        return { success: false, lead: fallbackLead, index: i + batchIndex, processingTime };
-      }
-    });
-    
-    // Wait for batch to complete
-    const batchResults = await Promise.all(batchPromises);
-    
-    // Add results and update stats
-    for (const result of batchResults) {
-      processedLeads.push(result.lead);
-      
-      if (result.lead.qualified) {
-        qualifiedCount++;
-      }
-      totalScore += result.lead.score;
-    }
-    
-    // Calculate detailed progress metrics
-    const processed = processedLeads.length;
-    const currentBatch = Math.floor(i / batchSize) + 1;
-    const averageTimePerLead = processingTimes.length > 0 
-      ? processingTimes.reduce((a, b) => a + b, 0) / processingTimes.length
-      : 0;
-    const estimatedTimeRemaining = averageTimePerLead * (leads.length - processed);
-    
-    // Update progress with comprehensive information
-    if (onProgress) {
-      const progressData = {
-        processed,
-        total: leads.length,
-        currentBatch,
-        totalBatches,
-        averageTimePerLead,
-        estimatedTimeRemaining,
-        errors: totalErrors,
-        retries: totalRetries
-      };
-      onProgress(progressData);
-    }
-  }
+  options: AnalysisJobOptions = {}
+): Promise<AnalysisJobView> {
+  const response = await apiRequest('POST', '/api/jobs', { leads, businessSetup, ...options });
+  const job: AnalysisJobView = await response.json();
+  localStorage.setItem(ACTIVE_JOB_KEY, job.id);
+  return job;
+}
 
-  const stats: ProcessingStats = {
-    totalLeads: leads.length,
-    processedLeads: processedLeads.length,
-    qualifiedLeads: qualifiedCount,
-    notQualifiedLeads: processedLeads.length - qualifiedCount,
-    averageScore: totalScore / processedLeads.length,
-    qualificationRate: (qualifiedCount / processedLeads.length) * 100
-  };
+// Asks a running job to stop after its current step; it can be resumed later
+export async function pauseAnalysisJob(jobId: string): Promise<AnalysisJobView> {
+  const response = await apiRequest('POST', `/api/jobs/${jobId}/pause`);
+  return response.json();
+}
 
-  return { leads: processedLeads, stats };
+// Stops a job for good, keeping the leads it has scored
+export async function cancelAnalysisJob(jobId: string): Promise<AnalysisJobView> {
+  const response = await apiRequest('POST', `/api/jobs/${jobId}/cancel`);
+  return response.json();
 }
 
-async function processLead(lead: Lead, businessSetup: BusinessSetup): Promise<ProcessedLead> {
-  try {
-    // Validate input data
-    if (!lead.id) {
-      throw new Error('Lead ID is required');
-    }
-    
-    // Call backend API for AI analysis with timeout
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 12000); // 12 second timeout for stability
-    
-    const response = await fetch('/api/analyze-lead', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ lead, businessSetup }),
-      signal: controller.signal
-    });
-    
-    clearTimeout(timeoutId);
+// Continues a paused run; null removes its budget
+export async function resumeAnalysisJob(jobId: string, budget?: number | null): Promise<AnalysisJobView> {
+  const response = await apiRequest('POST', `/api/jobs/${jobId}/resume`, { budget });
+  const job: AnalysisJobView = await response.json();
+  localStorage.setItem(ACTIVE_JOB_KEY, job.id);
+  return job;
+}
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      
-      // Handle rate limiting specifically
-      if (response.status === 429) {
-        throw new Error('Rate limit reached. Processing will retry automatically...');
-      }
-      
-      throw new Error(`API request failed: ${response.status} - ${errorText}`);
-    }
+export async function getAnalysisJob(jobId: string): Promise<AnalysisJobView> {
+  const response = await apiRequest('GET', `/api/jobs/${jobId}`);
+  return response.json();
+}
 
-    const analysis = await response.json();
-    
-    // Validate analysis response
-    if (typeof analysis.score !== 'number' || typeof analysis.qualified !== 'boolean') {
-      throw new Error('Invalid response format from AI analysis');
-    }
-    
-    return {
-      ...lead,
-      score: Math.max(0, Math.min(100, Math.round(analysis.score))),
-      qualified: analysis.qualified,
-      reasoning: analysis.reasoning || 'AI analysis completed successfully.',
-      qualificationCriteria: Array.isArray(analysis.qualificationCriteria) ? analysis.qualificationCriteria : []
-    };
+// Follows a job's event stream until it finishes, pauses or is cancelled, reporting progress,
+// running stats and every lead scored so far on each update. The browser reconnects on its
+// own after a dropped connection and the server resumes from the last event it received.
+// A paused job stays the active one, so a reload asks again whether to continue it.
+export function waitForAnalysisJob(
+  jobId: string,
+  onProgress?: (progress: ProcessingProgress, stats: ProcessingStats, results: ProcessedLead[]) => void
+): Promise<AnalysisJobView> {
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(`/api/jobs/${jobId}/events`);
+    // By id, as a snapshot after a reconnect may repeat leads already received
+    const results = new Map<string, ProcessedLead>();
 
-  } catch (error) {
-    console.error('Error processing lead with AI:', error);
-    
-    // Enhanced fallback with retry logic for production
-    if (error instanceof Error && error.name === 'AbortError') {
-      // Timeout error - try once more with fallback
+    const finish = async () => {
+      source.close();
       try {
-        const quickResponse = await fetch('/api/analyze-lead', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ lead, businessSetup }),
-        });
-        
-        if (quickResponse.ok) {
-          const analysis = await quickResponse.json();
-          return {
-            ...lead,
-            score: Math.max(0, Math.min(100, Math.round(analysis.score || 50))),
-            qualified: analysis.qualified || false,
-            reasoning: analysis.reasoning || 'AI analysis completed on retry.',
-            qualificationCriteria: Array.isArray(analysis.qualificationCriteria) ? analysis.qualificationCriteria : []
-          };
+        const job = await getAnalysisJob(jobId);
+        if (job.status === 'failed') {
+          clearActiveJobId();
+          reject(new Error(job.error || 'Lead analysis failed on the server.'));
+          return;
         }
-      } catch (retryError) {
-        console.warn('Retry failed, using fallback scoring:', retryError);
-      }
-    }
-    
-    // Enhanced fallback to basic rule-based scoring if API fails
-    let fallbackScore = 45;
-    const fallbackCriteria: string[] = [];
-    
-    try {
-      // Safe scoring with proper null checks
-      if (lead.industry && lead.industry.toLowerCase().includes('tech')) {
-        fallbackScore += 10;
-        fallbackCriteria.push('Tech industry');
+        if (!stoppedJobStatuses.includes(job.status)) {
+          reject(new Error('Lost the connection to the running analysis. Open it from Previous Analyses to follow it again.'));
+          return;
+        }
+        if (job.status === 'completed' || job.status === 'cancelled') {
+          clearActiveJobId();
+        }
+        resolve(job);
+      } catch (error) {
+        reject(error);
       }
-      if (lead.companySize && lead.companySize.toLowerCase().includes('enterprise')) {
-        fallbackScore += 15;
-        fallbackCriteria.push('Enterprise company');
+    };
+
+    const handle = (message: MessageEvent<string>) => {
+      const event: JobStreamEvent = JSON.parse(message.data);
+      if (event.type === 'snapshot') {
+        results.clear();
       }
-      if (lead.title && (lead.title.toLowerCase().includes('ceo') || lead.title.toLowerCase().includes('founder') || lead.title.toLowerCase().includes('director'))) {
-        fallbackScore += 20;
-        fallbackCriteria.push('Senior executive');
+      if (event.type !== 'status') {
+        event.results.forEach(lead => results.set(lead.id, lead));
+        onProgress?.(event.progress, event.stats, Array.from(results.values()));
       }
-      if (lead.phone || lead.email) {
-        fallbackScore += 10;
-        fallbackCriteria.push('Contact details available');
+      if (event.type !== 'results' && stoppedJobStatuses.includes(event.status)) {
+        finish();
       }
-      if (lead.contactName) {
-        fallbackScore += 5;
-        fallbackCriteria.push('Named contact');
+    };
+
+    source.addEventListener('snapshot', handle);
+    source.addEventListener('results', handle);
+    source.addEventListener('status', handle);
+    // Closed rather than reconnecting means the server turned the stream down, e.g. for an unknown job
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        finish();
       }
-      
-      const qualified = fallbackScore >= 60;
-      
-      return {
-        ...lead,
-        score: Math.max(0, Math.min(100, fallbackScore)),
-        qualified,
-        reasoning: `Lead scored based on available data: ${fallbackCriteria.length > 0 ? fallbackCriteria.join(', ') : 'Basic contact information available'}.`,
-        qualificationCriteria: fallbackCriteria
-      };
-      
-    } catch (fallbackError) {
-      console.error('Error in fallback processing:', fallbackError);
-      
-      // Ultimate fallback with better user experience
-      return {
-        ...lead,
-        score: 35,
-        qualified: false,
-        reasoning: "Technical issue occurred during processing. Lead has been preserved for manual review.",
-        qualificationCriteria: ['Manual review recommended', 'System fallback applied']
-      };
-    }
-  }
+    };
+  });
 }
 
-export function exportToCSV(leads: ProcessedLead[], filename: string) {
+// Blank when the lead had no email or phone to check
+const validityLabel = (valid: boolean | undefined) => valid === undefined ? '' : valid ? 'Yes' : 'No';
+
+export function exportFileName(exportType: 'all' | 'filtered'): string {
+  return `lead_qualification_results_${exportType === 'filtered' ? 'filtered_' : ''}${new Date().toISOString().split('T')[0]}.csv`;
+}
+
+// Header row then one row per lead, with columns for the rubric's sub-scores, duplicate
+// decisions and token usage when the run has them
+export function resultRows(leads: ProcessedLead[], rubric?: Rubric | null): string[][] {
+  // One sub-score column per rubric criterion
+  const criteria = rubric?.criteria ?? [];
+  // Duplicate decisions are only exported when the upload had duplicates
+  const hasDedup = leads.some(lead => lead.dedup);
+  const hasUsage = leads.some(lead => lead.usage);
   const headers = [
     'Company Name',
-    'Email', 
+    'Email',
     'Phone',
     'Industry',
     'Company Size',
@@ -264,44 +165,62 @@ export function exportToCSV(leads: ProcessedLead[], filename: string) {
     'Revenue',
     'Score',
     'Qualified',
-    'AI Reasoning'
+    'AI Reasoning',
+    'Scoring Method',
+    'Email Valid',
+    'Phone Valid',
+    'Contact Issues',
+    ...criteria.map(criterion => criterion.name),
+    ...(hasDedup ? ['Source Rows', 'Duplicate Decision', 'Duplicate Match', 'Field Sources'] : []),
+    ...(hasUsage ? ['Input Tokens', 'Output Tokens', 'Cost (USD)'] : [])
   ];
 
-  const csvData = [
-    headers.join(','),
+  return [
+    headers,
     ...leads.map(lead => [
-      `"${lead.companyName || ''}"`,
-      `"${lead.email || ''}"`,
-      `"${lead.phone || ''}"`,
-      `"${lead.industry || ''}"`,
-      `"${lead.companySize || ''}"`,
-      `"${lead.title || ''}"`,
-      `"${lead.contactName || ''}"`,
-      `"${lead.website || ''}"`,
-      `"${lead.revenue || ''}"`,
-      lead.score,
+      lead.companyName || '',
+      lead.email || '',
+      lead.phone || '',
+      lead.industry || '',
+      lead.companySize || '',
+      lead.title || '',
+      lead.contactName || '',
+      lead.website || '',
+      lead.revenue || '',
+      String(lead.score),
       lead.qualified ? 'Yes' : 'No',
-      `"${lead.reasoning.replace(/"/g, '""')}"`
-    ].join(','))
-  ].join('\n');
+      lead.reasoning,
+      lead.scoringMethod || '',
+      validityLabel(lead.contactChecks?.emailValid),
+      validityLabel(lead.contactChecks?.phoneValid),
+      [...(lead.contactChecks?.emailIssues ?? []), ...(lead.contactChecks?.phoneIssues ?? [])].join('; '),
+      ...criteria.map(criterion => String(lead.criterionScores?.find(s => s.criterionId === criterion.id)?.score ?? '')),
+      ...(hasDedup ? [
+        (lead.dedup?.rows ?? [lead.sourceRow]).join('; '),
+        lead.dedup?.decision ?? '',
+        lead.dedup?.matchedOn.join('; ') ?? '',
+        Object.entries(lead.dedup?.fields ?? {}).map(([field, row]) => `${field}: row ${row}`).join('; ')
+      ] : []),
+      ...(hasUsage ? [
+        String(lead.usage?.inputTokens ?? ''),
+        String(lead.usage?.outputTokens ?? ''),
+        lead.usage?.cost?.toFixed(6) ?? ''
+      ] : [])
+    ])
+  ];
+}
 
-  // Enhanced download with better file handling
-  const blob = new Blob([csvData], { type: 'text/csv;charset=utf-8;' });
-  const link = document.createElement('a');
-  
-  if (link.download !== undefined) {
-    const url = URL.createObjectURL(blob);
-    link.setAttribute('href', url);
-    link.setAttribute('download', filename);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    
-    // Cleanup to prevent memory leaks
-    setTimeout(() => URL.revokeObjectURL(url), 1000);
-    console.log(`Export completed: ${filename} with ${leads.length} leads`);
-  }
+// Quoted and with formula cells neutralized by the same writer as the CRM exports
+export function exportToCSV(leads: ProcessedLead[], filename: string, rubric?: Rubric | null) {
+  downloadCsv(toCsv(resultRows(leads, rubric)), filename);
+  console.log(`Export completed: ${filename} with ${leads.length} leads`);
+}
+
+// A file for the CRM's import wizard, with the columns of the workspace's mapping
+export function exportToCrm(leads: ProcessedLead[], profileId: CrmProfileId, mapping: CrmExportMapping) {
+  const filename = crmExportFileName(profileId);
+  downloadCsv(toCsv(buildCrmRows(leads, profileId, mapping)), filename);
+  console.log(`CRM export completed: ${filename} with ${leads.length} leads`);
 }
 
 // Export qualified leads only for production use
@@ -3,7 +3,17 @@ import { QueryClient, QueryFunction } from "@tanstack/react-query";
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    throw new Error(`${res.status}: ${errorMessage(text)}`);
+  }
+}
+
+// The API answers errors with {"error": "..."}; show just that message when it does
+function errorMessage(text: string): string {
+  try {
+    const body = JSON.parse(text);
+    return typeof body?.error === "string" ? body.error : text;
+  } catch {
+    return text;
   }
 }
 
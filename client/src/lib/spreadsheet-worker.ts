@@ -0,0 +1,27 @@
+import * as XLSX from "xlsx";
+import type { FileWorkerMessage } from "./csv-utils";
+import type { SheetData } from "./file-import";
+
+function post(message: FileWorkerMessage<SheetData[]>) {
+  self.postMessage(message);
+}
+
+async function read(file: File) {
+  const workbook = XLSX.read(new Uint8Array(await file.arrayBuffer()), { type: 'array', dense: true });
+
+  // Cells come back as the text shown in the sheet, so dates and currencies read as the user sees them.
+  // Blank rows are kept so row numbers match the sheet when picking the header row.
+  const sheets: SheetData[] = workbook.SheetNames.map(name => ({
+    name,
+    rows: XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], { header: 1, raw: false, defval: '', blankrows: true })
+      .map(row => row.map(cell => String(cell ?? '').trim()))
+  }));
+
+  post({ type: 'done', result: sheets });
+}
+
+self.onmessage = (event: MessageEvent<File>) => {
+  read(event.data).catch(error => {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+  });
+};
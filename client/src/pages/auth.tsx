@@ -0,0 +1,129 @@
+import { useState, type FormEvent } from "react";
+import { UntitledCard, UntitledCardContent, UntitledCardDescription, UntitledCardHeader, UntitledCardTitle } from "@/components/ui/untitled-card";
+import { UntitledButton } from "@/components/ui/untitled-button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useAuth } from "@/hooks/use-auth";
+import { BarChart03 } from "@untitledui/icons";
+
+type Mode = "login" | "register";
+
+// Sign-in and sign-up, shown instead of the app until there is a session
+export default function AuthPage() {
+  const { login, register } = useAuth();
+  const [mode, setMode] = useState<Mode>("login");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [name, setName] = useState("");
+  const [workspaceName, setWorkspaceName] = useState("");
+
+  const mutation = mode === "login" ? login : register;
+  // Errors read "401: message"; the status means nothing to the user
+  const error = mutation.error?.message.replace(/^\d+: /, "");
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (mode === "login") {
+      login.mutate({ email, password });
+    } else {
+      register.mutate({
+        email,
+        password,
+        name: name.trim() || undefined,
+        workspaceName: workspaceName.trim() || undefined
+      });
+    }
+  };
+
+  const switchMode = () => {
+    login.reset();
+    register.reset();
+    setMode(mode === "login" ? "register" : "login");
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 font-inter flex items-center justify-center px-4">
+      <div className="w-full max-w-md">
+        <div className="flex items-center justify-center space-x-3 mb-8">
+          <div className="w-10 h-10 bg-navy-600 rounded-lg flex items-center justify-center">
+            <BarChart03 className="w-6 h-6 text-white" />
+          </div>
+          <h1 className="text-xl font-semibold text-charcoal-600">Lead Qualifier AI</h1>
+        </div>
+
+        <UntitledCard>
+          <UntitledCardHeader className="border-b border-gray-200 bg-white">
+            <UntitledCardTitle>{mode === "login" ? "Sign in" : "Create an account"}</UntitledCardTitle>
+            <UntitledCardDescription>
+              {mode === "login"
+                ? "Sign in to your team's workspace."
+                : "You get a workspace of your own, and can add your team to it."}
+            </UntitledCardDescription>
+          </UntitledCardHeader>
+          <UntitledCardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {mode === "register" && (
+                <div>
+                  <Label htmlFor="auth-name" className="text-sm font-medium text-charcoal-600">Name (optional)</Label>
+                  <Input id="auth-name" className="mt-2" value={name} onChange={(e) => setName(e.target.value)} autoComplete="name" data-testid="input-auth-name" />
+                </div>
+              )}
+              <div>
+                <Label htmlFor="auth-email" className="text-sm font-medium text-charcoal-600">Email</Label>
+                <Input id="auth-email" type="email" required className="mt-2" value={email} onChange={(e) => setEmail(e.target.value)} autoComplete="email" data-testid="input-auth-email" />
+              </div>
+              <div>
+                <Label htmlFor="auth-password" className="text-sm font-medium text-charcoal-600">Password</Label>
+                <Input
+                  id="auth-password"
+                  type="password"
+                  required
+                  minLength={mode === "register" ? 8 : undefined}
+                  className="mt-2"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  autoComplete={mode === "login" ? "current-password" : "new-password"}
+                  data-testid="input-auth-password"
+                />
+                {mode === "register" && <p className="mt-1 text-xs text-gray-500">At least 8 characters.</p>}
+              </div>
+              {mode === "register" && (
+                <div>
+                  <Label htmlFor="auth-workspace" className="text-sm font-medium text-charcoal-600">Workspace name (optional)</Label>
+                  <Input
+                    id="auth-workspace"
+                    placeholder="Your team or company"
+                    className="mt-2"
+                    value={workspaceName}
+                    onChange={(e) => setWorkspaceName(e.target.value)}
+                    data-testid="input-auth-workspace"
+                  />
+                </div>
+              )}
+
+              {error && <p className="text-sm text-red-600" data-testid="text-auth-error">{error}</p>}
+
+              <UntitledButton
+                type="submit"
+                variant="primary"
+                className="w-full bg-navy-600 hover:bg-navy-700"
+                isLoading={mutation.isPending}
+                showTextWhileLoading
+                data-testid="button-auth-submit"
+              >
+                {mode === "login" ? "Sign In" : "Create Account"}
+              </UntitledButton>
+            </form>
+
+            <p className="mt-6 text-center text-sm text-gray-600">
+              {mode === "login" ? "New here? " : "Already have an account? "}
+              <UntitledButton variant="link-color" size="sm" onClick={switchMode} data-testid="button-auth-switch-mode">
+                {mode === "login" ? "Create an account" : "Sign in"}
+              </UntitledButton>
+            </p>
+          </UntitledCardContent>
+        </UntitledCard>
+      </div>
+    </div>
+  );
+}
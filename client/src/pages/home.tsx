@@ -1,4 +1,4 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect, useMemo } from "react";
 import { UntitledCard, UntitledCardContent, UntitledCardHeader, UntitledCardTitle } from "@/components/ui/untitled-card";
 import { UntitledButton } from "@/components/ui/untitled-button";
 import { Badge } from "@/components/ui/badge";
@@ -9,12 +9,31 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
 import { FileUpload } from "@/components/ui/file-upload";
+import { SheetPicker } from "@/components/ui/sheet-picker";
+import { DuplicateReview } from "@/components/ui/duplicate-review";
 import { ProgressStepper } from "@/components/ui/progress-stepper";
 import { MultiSelect } from "@/components/ui/multi-select";
-import { SurveyModal, type SurveyData } from "@/components/ui/survey-modal";
-import { parseCsvFile } from "@/lib/csv-utils";
-import { processLeads, exportToCSV } from "@/lib/lead-processor";
-import type { BusinessSetup, Lead, ProcessedLead, ProcessingStats } from "@shared/schema";
+import { SurveyModal } from "@/components/ui/survey-modal";
+import { CrmExport } from "@/components/ui/crm-export";
+import { RecentAnalyses } from "@/components/ui/recent-analyses";
+import { CampaignPicker } from "@/components/ui/campaign-picker";
+import { RubricEditor } from "@/components/ui/rubric-editor";
+import { RulesEditor } from "@/components/ui/rules-editor";
+import { ColumnMapper } from "@/components/ui/column-mapper";
+import { CostEstimateNotice, UsageSummary } from "@/components/ui/cost-estimate";
+import { PausedRun } from "@/components/ui/paused-run";
+import { LiveResults } from "@/components/ui/live-results";
+import { AccountMenu } from "@/components/ui/account-menu";
+import { useAuth } from "@/hooks/use-auth";
+import { mapRowsToLeads, exportRowErrors, type CsvTable } from "@/lib/csv-utils";
+import { importLeadFile, tableFromRows, type Workbook } from "@/lib/file-import";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { generateRubric, estimateAnalysisCost, startAnalysisJob, pauseAnalysisJob, resumeAnalysisJob, cancelAnalysisJob, waitForAnalysisJob, getAnalysisJob, getActiveJobId, clearActiveJobId, exportFileName, exportToCSV } from "@/lib/lead-processor";
+import { DEFAULT_RULE_SET } from "@shared/rules-engine";
+import { applyColumnMapping, headerSignature, suggestColumnMapping } from "@shared/column-mapping";
+import { applyDuplicateDecisions, findDuplicates } from "@shared/dedup";
+import { DEFAULT_PHONE_REGION, formatEmployeeRange, formatRevenue } from "@shared/normalize";
+import { rubricSchema, ruleSetSchema, type AnalysisJobSummary, type AnalysisJobView, type BusinessSetup, type Campaign, type ColumnMapping, type CostEstimate, type EmailIssue, type MappingTemplate, type NormalizedLeadFields, type PhoneIssue, type ProcessedLead, type ProcessingProgress, type ProcessingStats, type Rubric, type RuleSet, type ScoringMethod } from "@shared/schema";
 import { 
   BarChart03, 
   Users01, 
@@ -28,10 +47,51 @@ import {
   FilterLines,
   RefreshCw05,
   Upload01,
-  Settings01
+  Settings01,
+  ClipboardCheck,
+  RefreshCw01,
+  AlertTriangle,
+  PauseCircle,
+  XCircle,
+  Database01
 } from "@untitledui/icons";
 
-type Step = 1 | 2 | 3 | 4;
+type Step = 1 | 2 | 3 | 4 | 5;
+
+function formatTimeRemaining(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.ceil(seconds / 60)} min`;
+}
+
+// One line summarizing the values cleaned up from a lead's raw fields
+function describeNormalizedFields(normalized: NormalizedLeadFields): string {
+  return [
+    normalized.employees && `${formatEmployeeRange(normalized.employees)} employees`,
+    normalized.revenue && formatRevenue(normalized.revenue),
+    normalized.domain,
+    normalized.country,
+    normalized.emailType && `${normalized.emailType} email`
+  ].filter(Boolean).join(" • ");
+}
+
+// Free providers are left out since the email type already shows them
+const contactIssueLabels: Partial<Record<EmailIssue | PhoneIssue, string>> = {
+  invalidSyntax: "Invalid email",
+  disposable: "Disposable email",
+  roleAccount: "Role account",
+  noMailServer: "No mail server",
+  unparseable: "Unreadable phone",
+  tooShort: "Phone too short",
+  tooLong: "Phone too long",
+  invalidForRegion: "Invalid phone"
+};
+
+const scoringMethodLabels: Record<ScoringMethod, string> = {
+  ai: "AI scored",
+  repaired: "AI (repaired)",
+  rules: "Rule-based",
+  fallback: "Rule fallback"
+};
 
 export default function Home() {
   const [currentStep, setCurrentStep] = useState<Step>(1);
@@ -46,18 +106,24 @@ export default function Home() {
     },
     {
       id: 2,
+      title: "Rubric",
+      description: "Scoring criteria",
+      icon: <ClipboardCheck className="w-5 h-5 sm:w-6 sm:h-6" />
+    },
+    {
+      id: 3,
       title: "Upload",
-      description: "CSV file",
+      description: "Lead file",
       icon: <Upload01 className="w-5 h-5 sm:w-6 sm:h-6" />
     },
     {
-      id: 3,
+      id: 4,
       title: "Process",
       description: "AI analysis",
       icon: <Zap className="w-5 h-5 sm:w-6 sm:h-6" />
     },
     {
-      id: 4,
+      id: 5,
       title: "Results",
       description: "Qualified leads",
       icon: <BarChart03 className="w-5 h-5 sm:w-6 sm:h-6" />
@@ -67,20 +133,77 @@ export default function Home() {
     businessDescription: "",
     campaignGoals: ""
   });
+  const [selectedCampaignId, setSelectedCampaignId] = useState<string | null>(null);
+  const [campaignName, setCampaignName] = useState("");
+  const [rubric, setRubric] = useState<Rubric | null>(null);
+  const [isGeneratingRubric, setIsGeneratingRubric] = useState(false);
+  const [ruleSet, setRuleSet] = useState<RuleSet>(DEFAULT_RULE_SET);
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
-  const [rawLeads, setRawLeads] = useState<Lead[]>([]);
+  const [csvTable, setCsvTable] = useState<CsvTable | null>(null);
+  const [workbook, setWorkbook] = useState<Workbook | null>(null);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>({});
+  const [mappingTemplateName, setMappingTemplateName] = useState<string | undefined>();
+  const [keptSeparate, setKeptSeparate] = useState<Set<string>>(new Set());
+  const [costEstimate, setCostEstimate] = useState<CostEstimate | null>(null);
+  const [isEstimatingCost, setIsEstimatingCost] = useState(false);
+  const [runBudget, setRunBudget] = useState("");
+  const [runningJobId, setRunningJobId] = useState<string | null>(null);
+  // Set while a pause or cancel waits for the requests in flight to finish
+  const [stopRequested, setStopRequested] = useState<'pause' | 'cancel' | null>(null);
+  const [pausedJob, setPausedJob] = useState<AnalysisJobView | null>(null);
+  const [isResuming, setIsResuming] = useState(false);
   const [processedLeads, setProcessedLeads] = useState<ProcessedLead[]>([]);
   const [processingStats, setProcessingStats] = useState<ProcessingStats | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [processingProgress, setProcessingProgress] = useState(0);
+  const [processingDetails, setProcessingDetails] = useState<ProcessingProgress | null>(null);
+  // Leads of the running job scored so far, streamed in as they are stored
+  const [liveLeads, setLiveLeads] = useState<ProcessedLead[]>([]);
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [scoreFilter, setScoreFilter] = useState<string[]>([]);
   const [surveyModalOpen, setSurveyModalOpen] = useState(false);
   const [exportType, setExportType] = useState<'all' | 'filtered'>('all');
+  const [crmExportOpen, setCrmExportOpen] = useState(false);
   
   const { toast } = useToast();
+  const { session, canEdit } = useAuth();
+
+  const selectCampaign = useCallback((campaign: Campaign | null) => {
+    setSelectedCampaignId(campaign?.id ?? null);
+    setCampaignName(campaign?.name ?? "");
+    setRubric(campaign?.rubric ?? null);
+    setRuleSet(campaign?.ruleSet ?? DEFAULT_RULE_SET);
+    setBusinessSetup({
+      businessDescription: campaign?.businessDescription ?? "",
+      campaignGoals: campaign?.campaignGoals ?? ""
+    });
+  }, []);
+
+  const draftRubric = useCallback(async () => {
+    setIsGeneratingRubric(true);
+    try {
+      const generation = await generateRubric(businessSetup);
+      setRubric(generation.rubric);
+      if (generation.usedFallback) {
+        toast({
+          title: "AI Rubric Unavailable",
+          description: "Started from the default rubric instead. Adjust it to match your campaign."
+        });
+      }
+      return true;
+    } catch (error) {
+      toast({
+        title: "Could Not Draft Rubric",
+        description: error instanceof Error ? error.message : "Failed to generate a rubric.",
+        variant: "destructive"
+      });
+      return false;
+    } finally {
+      setIsGeneratingRubric(false);
+    }
+  }, [businessSetup, toast]);
 
-  const proceedToStep2 = useCallback(() => {
+  const proceedToStep2 = useCallback(async () => {
     if (!businessSetup.businessDescription.trim() || !businessSetup.campaignGoals.trim()) {
       toast({
         title: "Missing Information",
@@ -89,41 +212,268 @@ export default function Home() {
       });
       return;
     }
+
+    // A saved campaign brings its own rubric; otherwise draft one from the brief
+    if (!rubric && !(await draftRubric())) {
+      return;
+    }
+
     setCurrentStep(2);
-  }, [businessSetup, toast]);
+  }, [businessSetup, rubric, draftRubric, toast]);
+
+  const proceedToStep3 = useCallback(async () => {
+    if (!rubric) return;
+
+    const validation = rubricSchema.safeParse({
+      ...rubric,
+      disqualifiers: rubric.disqualifiers.map(d => d.trim()).filter(Boolean)
+    });
+    if (!validation.success) {
+      toast({
+        title: "Rubric Incomplete",
+        description: validation.error.issues[0].message,
+        variant: "destructive"
+      });
+      return;
+    }
+    setRubric(validation.data);
+
+    const rulesValidation = ruleSetSchema.safeParse(ruleSet);
+    if (!rulesValidation.success) {
+      toast({
+        title: "Scoring Rules Incomplete",
+        description: rulesValidation.error.issues[0].message,
+        variant: "destructive"
+      });
+      return;
+    }
+    setRuleSet(rulesValidation.data);
+
+    // Named campaigns are saved so the brief and rubric can be reused for the next upload
+    if (campaignName.trim()) {
+      const campaign = {
+        name: campaignName.trim(),
+        ...businessSetup,
+        scoringThreshold: validation.data.threshold,
+        rubric: validation.data,
+        ruleSet: rulesValidation.data
+      };
+      try {
+        const response = selectedCampaignId
+          ? await apiRequest('PATCH', `/api/campaigns/${selectedCampaignId}`, campaign)
+          : await apiRequest('POST', '/api/campaigns', campaign);
+        const saved: Campaign = await response.json();
+        setSelectedCampaignId(saved.id);
+        queryClient.invalidateQueries({ queryKey: ['/api/campaigns'] });
+      } catch (error) {
+        toast({
+          title: "Could Not Save Campaign",
+          description: error instanceof Error ? error.message : "Failed to save campaign.",
+          variant: "destructive"
+        });
+        return;
+      }
+    }
+
+    setCurrentStep(3);
+  }, [businessSetup, campaignName, rubric, ruleSet, selectedCampaignId, toast]);
+
+  // Leads follow the column mapping as the user adjusts it. Phone numbers are read in the
+  // server's region, so ids and duplicates match what the server works out.
+  const phoneRegion = session?.phoneRegion ?? DEFAULT_PHONE_REGION;
+  const rawLeads = useMemo(
+    () => csvTable ? mapRowsToLeads(csvTable, columnMapping, phoneRegion) : [],
+    [csvTable, columnMapping, phoneRegion]
+  );
+  const duplicateClusters = useMemo(() => findDuplicates(rawLeads, phoneRegion), [rawLeads, phoneRegion]);
+  // What gets scored: duplicates merged unless the user kept them apart
+  const leadsToProcess = useMemo(
+    () => applyDuplicateDecisions(rawLeads, duplicateClusters, keptSeparate),
+    [rawLeads, duplicateClusters, keptSeparate]
+  );
+
+  // Re-estimated as the mapping and duplicate choices change what will be scored
+  useEffect(() => {
+    if (currentStep !== 3 || leadsToProcess.length === 0) {
+      setCostEstimate(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsEstimatingCost(true);
+    const timer = setTimeout(() => {
+      estimateAnalysisCost(leadsToProcess, businessSetup, rubric ?? undefined)
+        .then(estimate => { if (!cancelled) setCostEstimate(estimate); })
+        .catch(error => {
+          console.warn('Could not estimate analysis cost:', error);
+          if (!cancelled) setCostEstimate(null);
+        })
+        .finally(() => { if (!cancelled) setIsEstimatingCost(false); });
+    }, 500);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [currentStep, leadsToProcess, businessSetup, rubric]);
+
+  // Reuses the mapping saved for files with the same columns, if there is one
+  const loadTable = useCallback(async (table: CsvTable) => {
+    let mapping = suggestColumnMapping(table.headers);
+    let templateName: string | undefined;
+    try {
+      const response = await apiRequest('GET', `/api/mapping-templates?signature=${encodeURIComponent(headerSignature(table.headers))}`);
+      const [template]: MappingTemplate[] = await response.json();
+      if (template) {
+        mapping = applyColumnMapping(table.headers, template.mapping);
+        templateName = template.name;
+      }
+    } catch (error) {
+      console.warn('Could not load saved column mappings:', error);
+    }
+
+    setCsvTable(table);
+    setColumnMapping(mapping);
+    setMappingTemplateName(templateName);
+    setKeptSeparate(new Set());
+  }, []);
 
   const handleFileSelect = useCallback(async (file: File) => {
     try {
-      const leads = await parseCsvFile(file);
+      const { table, workbook } = await importLeadFile(file);
+
+      await loadTable(table);
       setUploadedFile(file);
-      setRawLeads(leads);
+      setWorkbook(workbook ?? null);
       toast({
         title: "File Uploaded Successfully",
-        description: `Processed ${leads.length} leads from your CSV file.`
+        description: table.errors.length > 0
+          ? `Found ${table.rows.length} rows and ${table.headers.length} columns. ${table.errors.length} rows could not be read.`
+          : `Found ${table.rows.length} rows and ${table.headers.length} columns in your file.`
       });
     } catch (error) {
       toast({
         title: "File Upload Error",
-        description: error instanceof Error ? error.message : "Failed to process CSV file.",
+        description: error instanceof Error ? error.message : "Failed to process the file.",
         variant: "destructive"
       });
     }
-  }, [toast]);
+  }, [loadTable, toast]);
+
+  const selectSheet = useCallback((sheetIndex: number, headerRow: number) => {
+    if (!workbook) return;
+
+    setWorkbook({ ...workbook, sheetIndex, headerRow });
+    loadTable(tableFromRows(workbook.sheets[sheetIndex].rows, headerRow));
+  }, [workbook, loadTable]);
 
   const handleFileRemove = useCallback(() => {
     setUploadedFile(null);
-    setRawLeads([]);
+    setCsvTable(null);
+    setWorkbook(null);
+    setColumnMapping({});
+    setMappingTemplateName(undefined);
+    setKeptSeparate(new Set());
     toast({
       title: "File Removed",
-      description: "You can now upload a different CSV file."
+      description: "You can now upload a different file."
     });
   }, [toast]);
 
+  const saveMappingTemplate = useCallback(async (name: string) => {
+    if (!csvTable) return;
+
+    try {
+      const response = await apiRequest('POST', '/api/mapping-templates', {
+        name,
+        headers: csvTable.headers,
+        mapping: columnMapping
+      });
+      const template: MappingTemplate = await response.json();
+      setMappingTemplateName(template.name);
+      toast({
+        title: "Mapping Saved",
+        description: `Files with these columns will use "${template.name}" automatically.`
+      });
+    } catch (error) {
+      toast({
+        title: "Could Not Save Mapping",
+        description: error instanceof Error ? error.message : "Failed to save the column mapping.",
+        variant: "destructive"
+      });
+    }
+  }, [csvTable, columnMapping, toast]);
+
+  // Follows a server-side job to completion and moves on to the results step, or stops to
+  // ask what to do when it is paused
+  const followJob = useCallback(async (jobId: string) => {
+    setCurrentStep(4);
+    setIsProcessing(true);
+    setRunningJobId(jobId);
+    setStopRequested(null);
+    setPausedJob(null);
+    setLiveLeads([]);
+
+    try {
+      const job = await waitForAnalysisJob(jobId, (progress, stats, results) => {
+        setProcessingDetails(progress);
+        setProcessingProgress(progress.total > 0 ? (progress.processed / progress.total) * 100 : 0);
+        setProcessingStats(stats);
+        setLiveLeads(results);
+      });
+
+      setStopRequested(null);
+      if (job.status === 'paused') {
+        setPausedJob(job);
+        setIsProcessing(false);
+        return;
+      }
+
+      // A cancelled run shows what it scored before it stopped, if anything
+      if (job.status === 'cancelled') {
+        toast({
+          title: "Analysis Cancelled",
+          description: `${job.results.length} of ${job.progress.total} leads were scored before the run stopped.`
+        });
+        if (job.results.length === 0) {
+          setCurrentStep(3);
+          setIsProcessing(false);
+          return;
+        }
+      }
+      
+      setProcessedLeads(job.results);
+      setProcessingStats(job.stats);
+      
+      setTimeout(() => {
+        setCurrentStep(5);
+        setIsProcessing(false);
+      }, 1000);
+      
+    } catch (error) {
+      clearActiveJobId();
+      toast({
+        title: "Processing Error", 
+        description: error instanceof Error ? error.message : "Failed to process leads.",
+        variant: "destructive"
+      });
+      setIsProcessing(false);
+    }
+  }, [toast]);
+
+  // Resume a job that was still running when the page was closed
+  useEffect(() => {
+    const activeJobId = getActiveJobId();
+    if (!activeJobId) return;
+
+    followJob(activeJobId);
+  }, [followJob]);
+
   const startProcessing = useCallback(async () => {
-    if (!uploadedFile || rawLeads.length === 0) {
+    if (!uploadedFile || leadsToProcess.length === 0) {
       toast({
         title: "No Data to Process",
-        description: "Please upload a valid CSV file first.",
+        description: "Please upload a valid lead file first.",
         variant: "destructive"
       });
       return;
@@ -139,53 +489,150 @@ export default function Home() {
       return;
     }
 
-    setCurrentStep(3);
-    setIsProcessing(true);
+    const budget = runBudget.trim() ? parseFloat(runBudget) : undefined;
+    if (budget !== undefined && !(budget > 0)) {
+      toast({
+        title: "Invalid Budget",
+        description: "Enter a budget above $0, or leave it empty to run without one.",
+        variant: "destructive"
+      });
+      return;
+    }
+
     setProcessingProgress(0);
+    setProcessingDetails(null);
+    setProcessingStats(null);
 
     try {
-      const results = await processLeads(
-        rawLeads, 
-        businessSetup, 
-(progress) => {
-          if (typeof progress === 'number') {
-            setProcessingProgress(progress);
-          } else {
-            setProcessingProgress((progress.processed / progress.total) * 100);
-          }
-        }
-      );
-      
-      setProcessedLeads(results.leads);
-      setProcessingStats(results.stats);
-      
-      setTimeout(() => {
-        setCurrentStep(4);
-        setIsProcessing(false);
-      }, 1000);
-      
+      const job = await startAnalysisJob(leadsToProcess, businessSetup, {
+        fileName: uploadedFile.name,
+        campaignId: selectedCampaignId ?? undefined,
+        rubric: rubric ?? undefined,
+        ruleSet,
+        budget
+      });
+      await followJob(job.id);
     } catch (error) {
       toast({
         title: "Processing Error", 
-        description: error instanceof Error ? error.message : "Failed to process leads.",
+        description: error instanceof Error ? error.message : "Failed to start lead analysis.",
+        variant: "destructive"
+      });
+    }
+  }, [uploadedFile, leadsToProcess, businessSetup, selectedCampaignId, rubric, ruleSet, runBudget, followJob, toast]);
+
+  const requestStop = useCallback(async (request: 'pause' | 'cancel') => {
+    if (!runningJobId) return;
+
+    setStopRequested(request);
+    try {
+      await (request === 'pause' ? pauseAnalysisJob(runningJobId) : cancelAnalysisJob(runningJobId));
+    } catch (error) {
+      setStopRequested(null);
+      toast({
+        title: request === 'pause' ? "Could Not Pause Analysis" : "Could Not Cancel Analysis",
+        description: error instanceof Error ? error.message : "The analysis could not be stopped.",
+        variant: "destructive"
+      });
+    }
+  }, [runningJobId, toast]);
+
+  // Ends a paused run for good, showing what it scored
+  const cancelPausedJob = useCallback(async () => {
+    if (!pausedJob) return;
+
+    try {
+      await cancelAnalysisJob(pausedJob.id);
+      await followJob(pausedJob.id);
+    } catch (error) {
+      toast({
+        title: "Could Not Cancel Analysis",
+        description: error instanceof Error ? error.message : "The analysis could not be cancelled.",
+        variant: "destructive"
+      });
+    }
+  }, [pausedJob, followJob, toast]);
+
+  const continuePausedJob = useCallback(async (budget: number | undefined) => {
+    if (!pausedJob) return;
+
+    setIsResuming(true);
+    try {
+      const job = await resumeAnalysisJob(pausedJob.id, budget);
+      setIsResuming(false);
+      await followJob(job.id);
+    } catch (error) {
+      setIsResuming(false);
+      toast({
+        title: "Could Not Continue Analysis",
+        description: error instanceof Error ? error.message : "Failed to resume the analysis.",
+        variant: "destructive"
+      });
+    }
+  }, [pausedJob, followJob, toast]);
+
+  // Shows what a paused run has scored; it can still be continued from Recent Analyses
+  const viewPausedResults = useCallback(() => {
+    if (!pausedJob) return;
+
+    clearActiveJobId();
+    setProcessedLeads(pausedJob.results);
+    setProcessingStats(pausedJob.stats);
+    setPausedJob(null);
+    setCurrentStep(5);
+  }, [pausedJob]);
+
+  // Re-open a saved analysis, or follow it if it is still running
+  const openSavedAnalysis = useCallback(async (job: AnalysisJobSummary) => {
+    if (job.status !== 'completed' && job.status !== 'cancelled') {
+      await followJob(job.id);
+      return;
+    }
+
+    try {
+      const saved = await getAnalysisJob(job.id);
+      setBusinessSetup(saved.businessSetup);
+      setRubric(saved.rubric);
+      setRuleSet(saved.ruleSet ?? DEFAULT_RULE_SET);
+      setProcessedLeads(saved.results);
+      setProcessingStats(saved.stats);
+      setCurrentStep(5);
+    } catch (error) {
+      toast({
+        title: "Could Not Open Analysis",
+        description: error instanceof Error ? error.message : "Failed to load saved results.",
         variant: "destructive"
       });
-      setIsProcessing(false);
     }
-  }, [uploadedFile, rawLeads, businessSetup, toast]);
+  }, [followJob, toast]);
 
   const startNewAnalysis = useCallback(() => {
     setCurrentStep(1);
-    setBusinessSetup({ businessDescription: "", campaignGoals: "" });
+    // A saved campaign keeps its brief and rubric so the next CSV can be run against it directly
+    if (!selectedCampaignId) {
+      setBusinessSetup({ businessDescription: "", campaignGoals: "" });
+      setRubric(null);
+      setRuleSet(DEFAULT_RULE_SET);
+    }
     setUploadedFile(null);
-    setRawLeads([]);
+    setCsvTable(null);
+    setWorkbook(null);
+    setColumnMapping({});
+    setMappingTemplateName(undefined);
+    setKeptSeparate(new Set());
+    setRunBudget("");
+    setRunningJobId(null);
+    setStopRequested(null);
+    setPausedJob(null);
+    setLiveLeads([]);
     setProcessedLeads([]);
     setProcessingStats(null);
     setIsProcessing(false);
     setProcessingProgress(0);
+    setProcessingDetails(null);
     setStatusFilter("all");
     setScoreFilter([]);
-  }, []);
+  }, [selectedCampaignId]);
 
   const getFilteredLeads = useCallback(() => {
     return processedLeads.filter(lead => {
@@ -206,25 +653,30 @@ export default function Home() {
     });
   }, [processedLeads, statusFilter, scoreFilter]);
 
-  const openSurveyModal = useCallback((filtered: boolean = false) => {
-    setExportType(filtered ? 'filtered' : 'all');
-    setSurveyModalOpen(true);
-  }, []);
-
-  const handleExportWithSurvey = useCallback((surveyData: SurveyData) => {
-    const leadsToExport = exportType === 'filtered' ? getFilteredLeads() : processedLeads;
-    const filename = `lead_qualification_results_${exportType === 'filtered' ? 'filtered_' : ''}${new Date().toISOString().split('T')[0]}.csv`;
-    
-    // Log survey data for analytics (in a real app, you'd send this to your analytics service)
-    console.log('Survey feedback:', surveyData);
-    
-    exportToCSV(leadsToExport, filename);
+  const exportResults = useCallback((type: 'all' | 'filtered', surveyed: boolean) => {
+    const leadsToExport = type === 'filtered' ? getFilteredLeads() : processedLeads;
+    exportToCSV(leadsToExport, exportFileName(type), rubric);
     
     toast({
       title: "Export Complete",
-      description: `Exported ${leadsToExport.length} leads to CSV file. Thank you for your feedback!`
+      description: `Exported ${leadsToExport.length} leads to CSV file.${surveyed ? " Thank you for your feedback!" : ""}`
     });
-  }, [exportType, processedLeads, getFilteredLeads, toast]);
+  }, [processedLeads, getFilteredLeads, rubric, toast]);
+
+  // The survey is only asked before a user's first export
+  const openSurveyModal = useCallback((filtered: boolean = false) => {
+    const type = filtered ? 'filtered' : 'all';
+    if (session?.user.surveyedAt) {
+      exportResults(type, false);
+      return;
+    }
+    setExportType(type);
+    setSurveyModalOpen(true);
+  }, [session, exportResults]);
+
+  const handleExportWithSurvey = useCallback((answered: boolean) => {
+    exportResults(exportType, answered);
+  }, [exportType, exportResults]);
 
   const filteredLeads = getFilteredLeads();
   
@@ -234,12 +686,15 @@ export default function Home() {
     if (businessSetup.businessDescription && businessSetup.campaignGoals) {
       completed.push(1);
     }
-    if (uploadedFile && rawLeads.length > 0) {
+    if (rubric) {
       completed.push(2);
     }
-    if (processedLeads.length > 0) {
+    if (uploadedFile && rawLeads.length > 0) {
       completed.push(3);
     }
+    if (processedLeads.length > 0) {
+      completed.push(4);
+    }
     return completed;
   };
 
@@ -258,11 +713,12 @@ export default function Home() {
                 <p className="text-xs sm:text-sm text-gray-600 hidden sm:block">Intelligent Lead Qualification for Growing Businesses</p>
               </div>
             </div>
-            <div className="flex items-center">
+            <div className="flex flex-wrap items-center gap-3">
               <Badge variant="secondary" className="flex items-center bg-green-50 text-green-800 text-xs sm:text-sm">
                 <Shield01 className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
-                No Data Stored
+                Private & Secure
               </Badge>
+              <AccountMenu />
             </div>
           </div>
         </div>
@@ -270,7 +726,17 @@ export default function Home() {
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 sm:py-6 lg:py-8">
-        
+        {session && !session.workspaceId && (
+          <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800" data-testid="text-no-workspace">
+            You are not a member of any workspace. Ask a workspace admin to add you.
+          </div>
+        )}
+        {session?.workspaceId && !canEdit && (
+          <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-800" data-testid="text-viewer-role">
+            You have view-only access to this workspace. Ask an admin for the analyst role to run analyses.
+          </div>
+        )}
+
         {/* Progress Stepper */}
         <div className="mb-8">
           <ProgressStepper
@@ -292,6 +758,13 @@ export default function Home() {
             <UntitledCardContent className="p-4 sm:p-6 lg:p-8">
               
               <div className="space-y-6 sm:space-y-8">
+                <CampaignPicker
+                  selectedCampaignId={selectedCampaignId}
+                  onSelect={selectCampaign}
+                  name={campaignName}
+                  onNameChange={setCampaignName}
+                />
+
                 <div>
                   <Label htmlFor="business-description" className="text-sm font-medium text-charcoal-600">
                     Business Description
@@ -329,27 +802,94 @@ export default function Home() {
                 <div className="flex justify-center sm:justify-end pt-6 sm:pt-4">
                   <UntitledButton 
                     onClick={proceedToStep2}
+                    isLoading={isGeneratingRubric}
                     variant="primary"
                     size="lg"
                     className="bg-navy-600 hover:bg-navy-700 focus:ring-4 focus:ring-navy-200 w-full sm:w-auto"
-                    data-testid="button-continue-to-upload"
+                    data-testid="button-continue-to-rubric"
                     iconTrailing={<ArrowRight className="w-5 h-5" />}
                   >
-                    Continue to Upload
+                    Continue to Rubric
+                  </UntitledButton>
+                </div>
+              </div>
+            </UntitledCardContent>
+          </UntitledCard>
+        )}
+
+        {currentStep === 1 && (
+          <div className="mt-6 sm:mt-8">
+            <RecentAnalyses onOpen={openSavedAnalysis} campaignId={selectedCampaignId ?? undefined} />
+          </div>
+        )}
+
+        {/* Step 2: Qualification Rubric */}
+        {currentStep === 2 && rubric && (
+          <UntitledCard className="overflow-hidden">
+            <UntitledCardHeader className="border-b border-gray-200 bg-white">
+              <UntitledCardTitle className="text-2xl font-semibold text-charcoal-600">Review Your Qualification Rubric</UntitledCardTitle>
+              <p className="mt-2 text-gray-600">
+                Every lead is scored against these criteria, so scores are comparable across the whole list. Adjust them before uploading.
+              </p>
+            </UntitledCardHeader>
+            <UntitledCardContent className="p-4 sm:p-6 lg:p-8">
+
+              <RubricEditor rubric={rubric} onChange={setRubric} />
+
+              <div className="mt-8 pt-8 border-t border-gray-200">
+                <h3 className="text-lg font-semibold text-charcoal-600">Rule-Based Scoring</h3>
+                <p className="mt-1 mb-6 text-sm text-gray-600">
+                  These rules score leads when AI analysis is unavailable or offline scoring is selected.
+                </p>
+                <RulesEditor ruleSet={ruleSet} onChange={setRuleSet} />
+              </div>
+
+              <div className="flex flex-col sm:flex-row justify-between pt-8 sm:pt-6 space-y-4 sm:space-y-0">
+                <div className="flex flex-col sm:flex-row space-y-4 sm:space-y-0 sm:space-x-3">
+                  <UntitledButton
+                    variant="secondary"
+                    onClick={() => setCurrentStep(1)}
+                    size="lg"
+                    className="w-full sm:w-auto"
+                    data-testid="button-back-to-step1"
+                    iconLeading={<ArrowLeft className="w-5 h-5" />}
+                  >
+                    Back
+                  </UntitledButton>
+                  <UntitledButton
+                    variant="secondary"
+                    onClick={draftRubric}
+                    isLoading={isGeneratingRubric}
+                    size="lg"
+                    className="w-full sm:w-auto"
+                    data-testid="button-regenerate-rubric"
+                    iconLeading={<RefreshCw01 className="w-5 h-5" />}
+                  >
+                    Regenerate
                   </UntitledButton>
                 </div>
+                <UntitledButton
+                  onClick={proceedToStep3}
+                  variant="primary"
+                  size="lg"
+                  className="bg-navy-600 hover:bg-navy-700 focus:ring-4 focus:ring-navy-200 w-full sm:w-auto"
+                  data-testid="button-continue-to-upload"
+                  iconTrailing={<ArrowRight className="w-5 h-5" />}
+                >
+                  Continue to Upload
+                </UntitledButton>
               </div>
             </UntitledCardContent>
           </UntitledCard>
         )}
 
-        {/* Step 2: File Upload */}
-        {currentStep === 2 && (
+        {/* Step 3: File Upload */}
+        {currentStep === 3 && (
           <UntitledCard className="overflow-hidden">
             <UntitledCardHeader className="border-b border-gray-200 bg-white">
               <UntitledCardTitle className="text-2xl font-semibold text-charcoal-600">Upload Your Lead Data</UntitledCardTitle>
               <p className="mt-2 text-gray-600">
-                Upload your CSV file containing lead information. Our AI will analyze each lead based on your qualification criteria.
+                Upload a CSV, Excel or JSON file containing lead information. Our AI will analyze each lead based on your qualification criteria.
               </p>
             </UntitledCardHeader>
             <UntitledCardContent className="p-4 sm:p-6 lg:p-8">
@@ -359,7 +899,7 @@ export default function Home() {
                   <CheckCircle className="w-5 h-5 text-blue-600 mr-3 mt-0.5 sm:mt-0 flex-shrink-0" />
                   <div className="text-sm">
                     <p className="text-blue-800 font-medium mb-1">File Requirements</p>
-                    <p className="text-blue-700 text-xs sm:text-sm">CSV format • Max 10MB • Include headers</p>
+                    <p className="text-blue-700 text-xs sm:text-sm">CSV, Excel, ODS or JSON • Max 10MB • Include headers</p>
                   </div>
                 </div>
               </div>
@@ -371,20 +911,90 @@ export default function Home() {
                 leadCount={rawLeads.length}
               />
 
+              {workbook && uploadedFile && (
+                <div className="mt-6">
+                  <SheetPicker
+                    sheets={workbook.sheets}
+                    sheetIndex={workbook.sheetIndex}
+                    headerRow={workbook.headerRow}
+                    onChange={selectSheet}
+                  />
+                </div>
+              )}
+
+              {csvTable && uploadedFile && csvTable.errors.length > 0 && (
+                <div className="mt-6 flex flex-col sm:flex-row sm:items-center justify-between bg-amber-50 border border-amber-200 rounded-lg p-4 space-y-3 sm:space-y-0 sm:space-x-4" data-testid="notice-row-errors">
+                  <div className="flex items-start">
+                    <AlertTriangle className="w-5 h-5 text-amber-600 mr-3 mt-0.5 flex-shrink-0" />
+                    <div className="text-sm">
+                      <p className="text-amber-800 font-medium mb-1">
+                        {csvTable.errors.length} {csvTable.errors.length === 1 ? "row was" : "rows were"} skipped
+                      </p>
+                      <p className="text-amber-700 text-xs sm:text-sm">
+                        Fix them in the file and upload it again to include them.
+                      </p>
+                    </div>
+                  </div>
+                  <UntitledButton
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => exportRowErrors(csvTable.errors, `${uploadedFile.name.replace(/\.[^.]+$/, '')}_errors.csv`)}
+                    data-testid="button-download-row-errors"
+                    iconLeading={<Download01 className="w-4 h-4" />}
+                  >
+                    Download Error Report
+                  </UntitledButton>
+                </div>
+              )}
+
+              {csvTable && uploadedFile && (
+                <div className="mt-8">
+                  <ColumnMapper
+                    key={`${uploadedFile.name}-${workbook?.sheetIndex}-${workbook?.headerRow}`}
+                    table={csvTable}
+                    mapping={columnMapping}
+                    onChange={setColumnMapping}
+                    templateName={mappingTemplateName}
+                    onSaveTemplate={saveMappingTemplate}
+                  />
+                </div>
+              )}
+
+              {duplicateClusters.length > 0 && (
+                <div className="mt-8">
+                  <DuplicateReview
+                    clusters={duplicateClusters}
+                    keptSeparate={keptSeparate}
+                    onChange={setKeptSeparate}
+                  />
+                </div>
+              )}
+
+              {uploadedFile && leadsToProcess.length > 0 && (
+                <div className="mt-8">
+                  <CostEstimateNotice
+                    estimate={costEstimate}
+                    isLoading={isEstimatingCost}
+                    budget={runBudget}
+                    onBudgetChange={setRunBudget}
+                  />
+                </div>
+              )}
+
               <div className="flex flex-col sm:flex-row justify-between pt-8 sm:pt-6 space-y-4 sm:space-y-0">
                 <UntitledButton
                   variant="secondary"
-                  onClick={() => setCurrentStep(1)}
+                  onClick={() => setCurrentStep(2)}
                   size="lg"
                   className="w-full sm:w-auto"
-                  data-testid="button-back-to-step1"
+                  data-testid="button-back-to-step2"
                   iconLeading={<ArrowLeft className="w-5 h-5" />}
                 >
                   Back
                 </UntitledButton>
                 <UntitledButton
                   onClick={startProcessing}
-                  disabled={!uploadedFile || rawLeads.length === 0}
+                  disabled={!canEdit || !uploadedFile || leadsToProcess.length === 0}
                   variant="primary"
                   size="lg"
                   className="bg-navy-600 hover:bg-navy-700 focus:ring-4 focus:ring-navy-200 w-full sm:w-auto"
@@ -398,60 +1008,121 @@ export default function Home() {
           </UntitledCard>
         )}
 
-        {/* Step 3: Processing */}
-        {currentStep === 3 && (
+        {/* Step 4: Processing */}
+        {currentStep === 4 && (
           <UntitledCard className="overflow-hidden">
             <UntitledCardHeader className="border-b border-gray-200 bg-white">
               <UntitledCardTitle className="text-2xl font-semibold text-charcoal-600">AI Processing Your Leads</UntitledCardTitle>
               <p className="mt-2 text-gray-600">
-                Our AI is analyzing each lead against your qualification criteria. This usually takes 30-60 seconds.
+                Our AI is analyzing each lead against your qualification criteria. Analysis runs on our servers, so you can close this tab and come back to your results.
               </p>
             </UntitledCardHeader>
             <UntitledCardContent className="p-4 sm:p-6 lg:p-8">
 
-              <div className="text-center py-8 sm:py-12">
-                <div className="inline-flex items-center justify-center w-14 h-14 sm:w-16 sm:h-16 bg-blue-100 rounded-full mb-4 sm:mb-6">
-                  <Zap className="w-7 h-7 sm:w-8 sm:h-8 text-navy-600 animate-spin" />
-                </div>
-                <h3 className="text-lg sm:text-xl font-semibold text-charcoal-600 mb-3 sm:mb-2">Analyzing Leads...</h3>
-                <p className="text-sm sm:text-base text-gray-600 mb-6 sm:mb-8 px-4">AI is evaluating each lead based on your criteria</p>
-                
-                <div className="max-w-md mx-auto px-4">
-                  <Progress value={processingProgress} className="h-2 sm:h-3 mb-3 sm:mb-4 bg-navy-100 [&>div]:bg-navy-600" />
-                  <p className="text-xs sm:text-sm text-gray-600">
-                    Processing {Math.floor((processingProgress / 100) * rawLeads.length)} of {rawLeads.length} leads
-                  </p>
-                </div>
-
-                {processingStats && (
-                  <div className="grid grid-cols-3 gap-3 sm:gap-4 mt-6 sm:mt-8 max-w-lg mx-auto px-4">
-                    <div className="bg-gray-50 rounded-lg p-3 sm:p-4">
-                      <p className="text-xs sm:text-sm text-gray-600 mb-1">Qualified</p>
-                      <p className="text-lg sm:text-2xl font-bold text-forest-600" data-testid="text-qualified-count">
-                        {processingStats.qualifiedLeads}
+              {pausedJob ? (
+                <PausedRun
+                  key={pausedJob.id}
+                  job={pausedJob}
+                  onContinue={continuePausedJob}
+                  onViewResults={viewPausedResults}
+                  onCancel={cancelPausedJob}
+                  isResuming={isResuming}
+                  readOnly={!canEdit}
+                />
+              ) : (
+                <div className="text-center py-8 sm:py-12">
+                  <div className="inline-flex items-center justify-center w-14 h-14 sm:w-16 sm:h-16 bg-blue-100 rounded-full mb-4 sm:mb-6">
+                    <Zap className="w-7 h-7 sm:w-8 sm:h-8 text-navy-600 animate-spin" />
+                  </div>
+                  <h3 className="text-lg sm:text-xl font-semibold text-charcoal-600 mb-3 sm:mb-2">Analyzing Leads...</h3>
+                  <p className="text-sm sm:text-base text-gray-600 mb-6 sm:mb-8 px-4">AI is evaluating each lead based on your criteria</p>
+                  
+                  <div className="max-w-md mx-auto px-4">
+                    <Progress value={processingProgress} className="h-2 sm:h-3 mb-3 sm:mb-4 bg-navy-100 [&>div]:bg-navy-600" />
+                    <p className="text-xs sm:text-sm text-gray-600">
+                      Processing {processingDetails?.processed ?? 0} of {processingDetails?.total ?? leadsToProcess.length} leads
+                      {!!processingDetails?.estimatedTimeRemaining && ` • about ${formatTimeRemaining(processingDetails.estimatedTimeRemaining)} left`}
+                    </p>
+                    {!!processingDetails?.errors && (
+                      <p className="mt-1 text-xs sm:text-sm text-amber-600" data-testid="text-error-count">
+                        {processingDetails.errors} {processingDetails.errors === 1 ? "lead was" : "leads were"} scored by rules after the AI could not answer
                       </p>
-                    </div>
-                    <div className="bg-gray-50 rounded-lg p-3 sm:p-4">
-                      <p className="text-xs sm:text-sm text-gray-600 mb-1">Not Qualified</p>
-                      <p className="text-lg sm:text-2xl font-bold text-gray-600" data-testid="text-not-qualified-count">
-                        {processingStats.notQualifiedLeads}
+                    )}
+                    {!!processingDetails?.cached && (
+                      <p className="mt-1 text-xs sm:text-sm text-gray-500" data-testid="text-cached-count">
+                        {processingDetails.cached} unchanged {processingDetails.cached === 1 ? "lead" : "leads"} reused from earlier runs
                       </p>
-                    </div>
-                    <div className="bg-gray-50 rounded-lg p-3 sm:p-4">
-                      <p className="text-xs sm:text-sm text-gray-600 mb-1">Remaining</p>
-                      <p className="text-lg sm:text-2xl font-bold text-amber-500" data-testid="text-remaining-count">
-                        {processingStats.totalLeads - processingStats.processedLeads}
+                    )}
+                    {!!processingDetails?.rateLimited && (
+                      <p className="mt-1 text-xs sm:text-sm text-amber-600" data-testid="text-rate-limited">
+                        The model's rate limit was reached {processingDetails.rateLimited} {processingDetails.rateLimited === 1 ? "time" : "times"}.
+                        {" "}Requests are retried after a pause{processingDetails.concurrency ? `, ${processingDetails.concurrency} at a time` : ""}.
                       </p>
+                    )}
+                  </div>
+
+                  <div className="flex flex-col sm:flex-row justify-center gap-3 mt-6 px-4">
+                    <UntitledButton
+                      variant="secondary"
+                      size="sm"
+                      onClick={() => requestStop('pause')}
+                      disabled={!canEdit || !runningJobId || stopRequested !== null}
+                      data-testid="button-pause-analysis"
+                      iconLeading={<PauseCircle className="w-4 h-4" />}
+                    >
+                      Pause
+                    </UntitledButton>
+                    <UntitledButton
+                      variant="tertiary-destructive"
+                      size="sm"
+                      onClick={() => requestStop('cancel')}
+                      disabled={!canEdit || !runningJobId || stopRequested !== null}
+                      data-testid="button-cancel-analysis"
+                      iconLeading={<XCircle className="w-4 h-4" />}
+                    >
+                      Cancel
+                    </UntitledButton>
+                  </div>
+                  {stopRequested && (
+                    <p className="mt-2 text-xs sm:text-sm text-gray-500" data-testid="text-stop-requested">
+                      {stopRequested === 'pause' ? "Pausing" : "Cancelling"} once the leads being scored now are saved...
+                    </p>
+                  )}
+
+                  {processingStats && (
+                    <div className="grid grid-cols-3 gap-3 sm:gap-4 mt-6 sm:mt-8 max-w-lg mx-auto px-4">
+                      <div className="bg-gray-50 rounded-lg p-3 sm:p-4">
+                        <p className="text-xs sm:text-sm text-gray-600 mb-1">Qualified</p>
+                        <p className="text-lg sm:text-2xl font-bold text-forest-600" data-testid="text-qualified-count">
+                          {processingStats.qualifiedLeads}
+                        </p>
+                      </div>
+                      <div className="bg-gray-50 rounded-lg p-3 sm:p-4">
+                        <p className="text-xs sm:text-sm text-gray-600 mb-1">Not Qualified</p>
+                        <p className="text-lg sm:text-2xl font-bold text-gray-600" data-testid="text-not-qualified-count">
+                          {processingStats.notQualifiedLeads}
+                        </p>
+                      </div>
+                      <div className="bg-gray-50 rounded-lg p-3 sm:p-4">
+                        <p className="text-xs sm:text-sm text-gray-600 mb-1">Remaining</p>
+                        <p className="text-lg sm:text-2xl font-bold text-amber-500" data-testid="text-remaining-count">
+                          {processingStats.totalLeads - processingStats.processedLeads}
+                        </p>
+                      </div>
                     </div>
+                  )}
+
+                  <div className="max-w-4xl mx-auto">
+                    <LiveResults leads={liveLeads} />
                   </div>
-                )}
-              </div>
+                </div>
+              )}
             </UntitledCardContent>
           </UntitledCard>
         )}
 
-        {/* Step 4: Results */}
-        {currentStep === 4 && processingStats && (
+        {/* Step 5: Results */}
+        {currentStep === 5 && processingStats && (
           <div className="space-y-6 sm:space-y-8">
             {/* KPI UntitledCards */}
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 sm:gap-6 px-2 sm:px-0">
@@ -520,6 +1191,10 @@ export default function Home() {
               </UntitledCard>
             </div>
 
+            <div className="px-2 sm:px-0">
+              <UsageSummary stats={processingStats} />
+            </div>
+
             {/* Results Dashboard */}
             <UntitledCard className="overflow-hidden">
               <UntitledCardHeader className="border-b border-gray-200 bg-white">
@@ -551,6 +1226,16 @@ export default function Home() {
                       <span className="hidden sm:inline">Export Filtered ({filteredLeads.length})</span>
                       <span className="sm:hidden">Filtered ({filteredLeads.length})</span>
                     </UntitledButton>
+                    <UntitledButton
+                      variant="secondary"
+                      onClick={() => setCrmExportOpen(true)}
+                      size="md"
+                      className="w-full sm:w-auto"
+                      data-testid="button-export-crm"
+                      iconLeading={<Database01 className="w-4 h-4" />}
+                    >
+                      Export for CRM
+                    </UntitledButton>
                   </div>
                 </div>
               </UntitledCardHeader>
@@ -619,11 +1304,27 @@ export default function Home() {
                           <div className="space-y-1 sm:space-y-0.5">
                             <div className="text-sm font-medium text-charcoal-600 truncate">{lead.companyName}</div>
                             <div className="text-xs sm:text-sm text-gray-600 truncate">{lead.email}</div>
+                            {lead.contactChecks && (lead.contactChecks.emailValid === false || lead.contactChecks.phoneValid === false || lead.contactChecks.emailIssues.includes("roleAccount")) && (
+                              <div
+                                className={`text-xs ${lead.contactChecks.emailValid === false || lead.contactChecks.phoneValid === false ? "text-red-600" : "text-amber-600"}`}
+                                data-testid={`text-contact-issues-${lead.id}`}
+                              >
+                                {[...lead.contactChecks.emailIssues, ...lead.contactChecks.phoneIssues]
+                                  .map(issue => contactIssueLabels[issue])
+                                  .filter(Boolean)
+                                  .join(" • ")}
+                              </div>
+                            )}
                             {(lead.industry || lead.companySize) && (
                               <div className="text-xs text-gray-500 hidden sm:block">
                                 {[lead.industry, lead.companySize].filter(Boolean).join(" • ")}
                               </div>
                             )}
+                            {lead.normalized && Object.keys(lead.normalized).length > 0 && (
+                              <div className="text-xs text-gray-400 hidden sm:block" data-testid={`text-normalized-${lead.id}`}>
+                                {describeNormalizedFields(lead.normalized)}
+                              </div>
+                            )}
                             {/* Show AI reasoning on mobile */}
                             <div className="text-xs text-gray-500 mt-2 lg:hidden line-clamp-2 leading-relaxed">
                               {lead.reasoning}
@@ -646,6 +1347,14 @@ export default function Home() {
                               {lead.score}
                             </span>
                           </div>
+                          {lead.scoringMethod && lead.scoringMethod !== 'ai' && (
+                            <div
+                              className={`text-xs mt-1 ${lead.scoringMethod === 'fallback' ? 'text-amber-600' : 'text-gray-500'}`}
+                              data-testid={`text-scoring-method-${lead.id}`}
+                            >
+                              {scoringMethodLabels[lead.scoringMethod]}
+                            </div>
+                          )}
                         </TableCell>
                         <TableCell className="py-4 sm:py-4 px-3 sm:px-4">
                           <div className="flex justify-center sm:justify-start">
@@ -667,6 +1376,15 @@ export default function Home() {
                           <div className="text-sm text-gray-600 max-w-xs" data-testid={`text-reasoning-${lead.id}`}>
                             {lead.reasoning}
                           </div>
+                          {rubric && lead.criterionScores && (
+                            <ul className="mt-2 space-y-0.5 text-xs text-gray-500 max-w-xs" data-testid={`list-criterion-scores-${lead.id}`}>
+                              {lead.criterionScores.map((criterionScore) => (
+                                <li key={criterionScore.criterionId} title={criterionScore.reasoning}>
+                                  {rubric.criteria.find(c => c.id === criterionScore.criterionId)?.name ?? criterionScore.criterionId}: {criterionScore.score}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
                         </TableCell>
                       </TableRow>
                     ))}
@@ -719,12 +1437,21 @@ export default function Home() {
         exportButtonText={exportType === 'filtered' ? `Export Filtered (${filteredLeads.length})` : "Export All Results"}
         exportInfo={processingStats ? {
           exportType,
+          fileName: exportFileName(exportType),
           leadsCount: exportType === 'filtered' ? filteredLeads.length : processedLeads.length,
           totalLeads: processingStats.totalLeads,
           qualifiedLeads: processingStats.qualifiedLeads,
           qualificationRate: processingStats.qualificationRate
         } : undefined}
       />
+
+      <CrmExport
+        open={crmExportOpen}
+        onOpenChange={setCrmExportOpen}
+        leads={processedLeads}
+        filteredLeads={filteredLeads}
+        canEdit={canEdit}
+      />
     </div>
   );
 }
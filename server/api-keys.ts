@@ -0,0 +1,85 @@
+import type { NextFunction, Request, Response } from "express";
+import rateLimit from "express-rate-limit";
+import { createHash, randomBytes } from "crypto";
+import type { ApiKey, ApiKeyView } from "@shared/schema";
+import { storage } from "./storage";
+import { Logger } from "./index";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // The key a /api/v1 request was made with
+      apiKey?: ApiKey;
+    }
+  }
+}
+
+// Requests per minute for keys created without their own limit
+export const DEFAULT_API_KEY_RATE_LIMIT = parseInt(process.env.API_KEY_RATE_LIMIT || '120', 10);
+
+const KEY_PREFIX = 'lq_';
+// Enough of the key to tell keys apart in a list
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 8;
+// Last-used times only need to be roughly right, so a busy key is not written on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+// A new secret key, with the parts of it that are stored
+export function generateApiKey(): { key: string; prefix: string; keyHash: string } {
+  const key = KEY_PREFIX + randomBytes(32).toString('base64url');
+  return { key, prefix: key.slice(0, DISPLAY_PREFIX_LENGTH), keyHash: hashApiKey(key) };
+}
+
+export function toApiKeyView({ keyHash: _keyHash, ...key }: ApiKey): ApiKeyView {
+  return key;
+}
+
+// Authenticates /api/v1 requests by their "Authorization: Bearer <key>" header and acts for
+// the key's workspace with the key's role
+export async function authenticateApiKey(req: Request, res: Response, next: NextFunction) {
+  const [scheme, key] = (req.header('Authorization') ?? '').split(' ');
+
+  if (scheme !== 'Bearer' || !key) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    return res.status(401).json({ error: 'Send an API key as "Authorization: Bearer <key>"' });
+  }
+
+  try {
+    const apiKey = await storage.getApiKeyByHash(hashApiKey(key));
+
+    if (!apiKey || apiKey.revokedAt) {
+      res.setHeader('WWW-Authenticate', 'Bearer error="invalid_token"');
+      return res.status(401).json({ error: 'Invalid or revoked API key' });
+    }
+
+    req.apiKey = apiKey;
+    req.workspace = { id: apiKey.workspaceId, role: apiKey.role };
+
+    const now = new Date();
+    if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS) {
+      storage.updateApiKey(apiKey.id, { lastUsedAt: now })
+        .catch(error => Logger.error(`Failed to record use of API key ${apiKey.id}`, error));
+    }
+
+    next();
+  } catch (error) {
+    Logger.error('Failed to authenticate API key', error);
+    res.status(500).json({ error: 'Failed to authenticate API key' });
+  }
+}
+
+// Every key gets its own budget of requests per minute, set when the key is created
+export const apiKeyLimiter = rateLimit({
+  windowMs: 1 * 60 * 1000, // 1 minute
+  limit: (req) => req.apiKey?.rateLimit ?? DEFAULT_API_KEY_RATE_LIMIT,
+  keyGenerator: (req) => req.apiKey!.id,
+  message: {
+    error: 'Too many requests for this API key. Please try again in a moment.',
+    retryAfter: 60
+  },
+  standardHeaders: true,
+  legacyHeaders: false
+});
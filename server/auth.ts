@@ -0,0 +1,450 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import rateLimit from "express-rate-limit";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { z } from "zod";
+import {
+  loginSchema,
+  registerSchema,
+  workspaceRoles,
+  type AuthSession,
+  type PublicUser,
+  type User as StoredUser,
+  type WorkspaceMembership,
+  type WorkspaceRole
+} from "@shared/schema";
+import { storage } from "./storage";
+import { PHONE_REGION } from "./lead-analyzer";
+import { pool } from "./db";
+import { Logger } from "./index";
+
+declare global {
+  namespace Express {
+    interface User extends PublicUser {}
+
+    interface Request {
+      // The workspace the caller acts on and their role in it, set for every /api route but /api/auth
+      workspace?: { id: string; role: WorkspaceRole };
+    }
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    workspaceId?: string;
+  }
+}
+
+const SESSION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+// Set to "true" to stop new accounts being created from the sign-up form
+const SIGNUP_DISABLED = process.env.SIGNUP_DISABLED === 'true';
+
+const roleRank: Record<WorkspaceRole, number> = { viewer: 0, analyst: 1, admin: 2 };
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+// Slows down password guessing; successful sign-ins do not count
+const loginLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 20,
+  message: {
+    error: 'Too many sign-in attempts. Please try again later.',
+    retryAfter: 900
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+  skipSuccessfulRequests: true
+});
+
+const switchWorkspaceSchema = z.object({
+  workspaceId: z.string().min(1)
+});
+
+const addMemberSchema = z.object({
+  email: z.string().trim().toLowerCase().email().max(255),
+  role: z.enum(workspaceRoles)
+});
+
+const updateMemberSchema = z.object({
+  role: z.enum(workspaceRoles)
+});
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString('hex');
+  const hash = await scryptAsync(password, salt, 64);
+  return `${hash.toString('hex')}.${salt}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hash, salt] = stored.split('.');
+  if (!hash || !salt) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scryptAsync(password, salt, expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+function toPublicUser({ passwordHash: _passwordHash, ...user }: StoredUser): PublicUser {
+  return user;
+}
+
+function validationError(res: Response, error: z.ZodError, message = 'Invalid request data') {
+  return res.status(400).json({
+    error: message,
+    details: error.issues.map(issue => ({
+      field: issue.path.join('.'),
+      message: issue.message
+    }))
+  });
+}
+
+// The workspace the session has chosen, falling back to the user's first one when it has
+// none or they have since been removed from it
+async function sessionMembership(req: Request): Promise<WorkspaceMembership | undefined> {
+  const memberships = await storage.listMemberships(req.user!.id);
+  const membership = memberships.find(m => m.id === req.session.workspaceId) ?? memberships[0];
+  req.session.workspaceId = membership?.id;
+  return membership;
+}
+
+async function authSession(req: Request): Promise<AuthSession> {
+  const membership = await sessionMembership(req);
+  return {
+    user: req.user!,
+    workspaces: await storage.listMemberships(req.user!.id),
+    workspaceId: membership?.id ?? null,
+    phoneRegion: PHONE_REGION
+  };
+}
+
+function login(req: Request, user: Express.User): Promise<void> {
+  return new Promise((resolve, reject) => req.login(user, error => error ? reject(error) : resolve()));
+}
+
+// The caller's workspace id; only for routes behind the /api guard set up by setupAuth
+export function workspaceId(req: Request): string {
+  if (!req.workspace) {
+    throw new Error(`${req.method} ${req.path} has no workspace - is it registered before setupAuth?`);
+  }
+  return req.workspace.id;
+}
+
+export function requireRole(role: WorkspaceRole) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.workspace || roleRank[req.workspace.role] < roleRank[role]) {
+      return res.status(403).json({ error: `This needs the ${role} role in the workspace` });
+    }
+    next();
+  };
+}
+
+// Viewers may only read; anything else needs the analyst role
+export function requireWriteAccess(req: Request, res: Response, next: NextFunction) {
+  if (req.method === 'GET' || req.method === 'HEAD') {
+    return next();
+  }
+  requireRole('analyst')(req, res, next);
+}
+
+// /api/v1 authenticates with API keys rather than sessions
+function isSessionFree(path: string): boolean {
+  return path.startsWith('/auth/') || path.startsWith('/v1/');
+}
+
+// Posts any member may make, since they change nothing the workspace shares
+function isOpenToViewers(path: string): boolean {
+  return path === '/feedback';
+}
+
+// Sessions, the /api/auth routes and the guard that scopes every other /api route to the
+// signed-in user's workspace. Viewers may only read; changes need the analyst role.
+export function setupAuth(app: Express) {
+  let secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('SESSION_SECRET must be set in production');
+    }
+    Logger.warn('SESSION_SECRET is not set - using a random secret, so sessions end on restart');
+    secret = randomBytes(32).toString('hex');
+  }
+
+  // Sessions live next to the data when there is a database, so they survive restarts
+  let store: session.Store;
+  if (pool) {
+    const PgStore = connectPg(session);
+    store = new PgStore({ pool, tableName: 'session' });
+  } else {
+    const MemoryStore = createMemoryStore(session);
+    store = new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    // Secure cookies behind the deployment's TLS-terminating proxy
+    app.set('trust proxy', 1);
+  }
+
+  app.use(session({
+    secret,
+    store,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      maxAge: SESSION_MAX_AGE_MS
+    }
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy({ usernameField: 'email' }, async (email, password, done) => {
+    try {
+      const user = await storage.getUserByEmail(email);
+      if (!user || !(await verifyPassword(password, user.passwordHash))) {
+        return done(null, false);
+      }
+      done(null, toPublicUser(user));
+    } catch (error) {
+      done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      // A deleted account ends its sessions
+      done(null, user ? toPublicUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  // A new account gets a workspace of its own, which it administers
+  app.post('/api/auth/register', loginLimiter, async (req, res) => {
+    if (SIGNUP_DISABLED) {
+      return res.status(403).json({ error: 'Sign-up is disabled. Ask a workspace admin to add you.' });
+    }
+
+    const validationResult = registerSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return validationError(res, validationResult.error);
+    }
+
+    try {
+      const { email, password, name, workspaceName } = validationResult.data;
+
+      if (await storage.getUserByEmail(email)) {
+        return res.status(409).json({ error: 'An account with this email already exists' });
+      }
+
+      const user = await storage.createUser({ email, name: name || null, passwordHash: await hashPassword(password) });
+      const workspace = await storage.createWorkspace(workspaceName || `${name || email}'s workspace`);
+      await storage.addWorkspaceMember({ workspaceId: workspace.id, userId: user.id, role: 'admin' });
+
+      await login(req, toPublicUser(user));
+      req.session.workspaceId = workspace.id;
+      Logger.info(`User ${user.id} registered`, { workspace: workspace.id });
+      res.status(201).json(await authSession(req));
+    } catch (error) {
+      Logger.error('Failed to register user', error);
+      res.status(500).json({ error: 'Failed to create account' });
+    }
+  });
+
+  app.post('/api/auth/login', loginLimiter, (req, res, next) => {
+    const validationResult = loginSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return validationError(res, validationResult.error);
+    }
+
+    req.body = validationResult.data;
+    passport.authenticate('local', async (error: unknown, user: Express.User | false) => {
+      if (error) {
+        Logger.error('Failed to sign in', error);
+        return res.status(500).json({ error: 'Failed to sign in' });
+      }
+      if (!user) {
+        return res.status(401).json({ error: 'Invalid email or password' });
+      }
+
+      try {
+        await login(req, user);
+        res.json(await authSession(req));
+      } catch (loginError) {
+        Logger.error('Failed to sign in', loginError);
+        res.status(500).json({ error: 'Failed to sign in' });
+      }
+    })(req, res, next);
+  });
+
+  app.post('/api/auth/logout', (req, res) => {
+    req.logout(error => {
+      if (error) {
+        Logger.error('Failed to sign out', error);
+        return res.status(500).json({ error: 'Failed to sign out' });
+      }
+      res.status(204).end();
+    });
+  });
+
+  app.get('/api/auth/me', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not signed in' });
+    }
+
+    try {
+      res.json(await authSession(req));
+    } catch (error) {
+      Logger.error('Failed to load session', error);
+      res.status(500).json({ error: 'Failed to load session' });
+    }
+  });
+
+  // Chooses which of the user's workspaces the /api routes act on
+  app.post('/api/auth/workspace', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not signed in' });
+    }
+
+    const validationResult = switchWorkspaceSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return validationError(res, validationResult.error);
+    }
+
+    try {
+      const member = await storage.getWorkspaceMember(validationResult.data.workspaceId, req.user.id);
+
+      if (!member) {
+        return res.status(404).json({ error: 'Workspace not found' });
+      }
+
+      req.session.workspaceId = member.workspaceId;
+      res.json(await authSession(req));
+    } catch (error) {
+      Logger.error('Failed to switch workspace', error);
+      res.status(500).json({ error: 'Failed to switch workspace' });
+    }
+  });
+
+  // Every other /api route needs a signed-in member of the session's workspace
+  app.use('/api', async (req, res, next) => {
+    if (isSessionFree(req.path)) {
+      return next();
+    }
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not signed in' });
+    }
+
+    try {
+      const membership = await sessionMembership(req);
+
+      if (!membership) {
+        return res.status(403).json({ error: 'You are not a member of any workspace. Ask a workspace admin to add you.' });
+      }
+
+      req.workspace = { id: membership.id, role: membership.role };
+      next();
+    } catch (error) {
+      Logger.error('Failed to load workspace', error);
+      res.status(500).json({ error: 'Failed to load workspace' });
+    }
+  });
+
+  app.use('/api', (req, res, next) => isSessionFree(req.path) || isOpenToViewers(req.path) ? next() : requireWriteAccess(req, res, next));
+
+  // The workspace's members; any member may see them, only admins change them
+  app.get('/api/workspace/members', async (req, res) => {
+    try {
+      res.json(await storage.listWorkspaceMembers(workspaceId(req)));
+    } catch (error) {
+      Logger.error('Failed to list workspace members', error);
+      res.status(500).json({ error: 'Failed to load members' });
+    }
+  });
+
+  // Adds an existing account to the workspace, or changes its role if it is already a member
+  app.post('/api/workspace/members', requireRole('admin'), async (req, res) => {
+    const validationResult = addMemberSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return validationError(res, validationResult.error);
+    }
+
+    try {
+      const { email, role } = validationResult.data;
+      const user = await storage.getUserByEmail(email);
+
+      if (!user) {
+        return res.status(404).json({ error: 'No account uses this email. Ask them to sign up first.' });
+      }
+
+      if (await isLastAdmin(workspaceId(req), user.id, role)) {
+        return res.status(409).json({ error: 'A workspace needs at least one admin' });
+      }
+
+      await storage.addWorkspaceMember({ workspaceId: workspaceId(req), userId: user.id, role });
+      res.status(201).json(await storage.listWorkspaceMembers(workspaceId(req)));
+    } catch (error) {
+      Logger.error('Failed to add workspace member', error);
+      res.status(500).json({ error: 'Failed to add member' });
+    }
+  });
+
+  app.patch('/api/workspace/members/:userId', requireRole('admin'), async (req, res) => {
+    const validationResult = updateMemberSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return validationError(res, validationResult.error);
+    }
+
+    try {
+      const { role } = validationResult.data;
+
+      if (await isLastAdmin(workspaceId(req), req.params.userId, role)) {
+        return res.status(409).json({ error: 'A workspace needs at least one admin' });
+      }
+
+      if (!(await storage.updateWorkspaceMember(workspaceId(req), req.params.userId, role))) {
+        return res.status(404).json({ error: 'Member not found' });
+      }
+
+      res.json(await storage.listWorkspaceMembers(workspaceId(req)));
+    } catch (error) {
+      Logger.error(`Failed to update workspace member ${req.params.userId}`, error);
+      res.status(500).json({ error: 'Failed to update member' });
+    }
+  });
+
+  app.delete('/api/workspace/members/:userId', requireRole('admin'), async (req, res) => {
+    try {
+      if (await isLastAdmin(workspaceId(req), req.params.userId)) {
+        return res.status(409).json({ error: 'A workspace needs at least one admin' });
+      }
+
+      if (!(await storage.removeWorkspaceMember(workspaceId(req), req.params.userId))) {
+        return res.status(404).json({ error: 'Member not found' });
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      Logger.error(`Failed to remove workspace member ${req.params.userId}`, error);
+      res.status(500).json({ error: 'Failed to remove member' });
+    }
+  });
+}
+
+// Whether giving the user the new role (or removing them, without one) would leave no admin
+async function isLastAdmin(workspace: string, userId: string, role?: WorkspaceRole): Promise<boolean> {
+  if (role === 'admin') return false;
+  const admins = (await storage.listWorkspaceMembers(workspace)).filter(member => member.role === 'admin');
+  return admins.length === 1 && admins[0].userId === userId;
+}
@@ -0,0 +1,15 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+// Without DATABASE_URL the app runs on in-memory storage and nothing survives a restart
+export const pool = process.env.DATABASE_URL
+  ? new Pool({ connectionString: process.env.DATABASE_URL })
+  : undefined;
+
+export const db = pool ? drizzle({ client: pool, schema }) : undefined;
+
+export type Database = NonNullable<typeof db>;
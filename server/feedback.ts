@@ -0,0 +1,136 @@
+import {
+  priceRangeOptions,
+  timeSavedOptions,
+  type Feedback,
+  type FeedbackSummary,
+  type PriceRange,
+  type TimeSaved
+} from "@shared/schema";
+import { storage } from "./storage";
+import { postSignedJson, retryDelay } from "./webhooks";
+import { Logger } from "./index";
+
+// Where survey answers are forwarded, e.g. an automation platform's webhook; answers are only
+// stored while it is unset
+const RELAY_URL = process.env.FEEDBACK_RELAY_URL || undefined;
+// Signs relayed answers the same way as workspace webhooks when set
+const RELAY_SECRET = process.env.FEEDBACK_RELAY_SECRET || undefined;
+const MAX_RELAY_ATTEMPTS = parseInt(process.env.FEEDBACK_RELAY_MAX_ATTEMPTS || '8', 10);
+
+// Hours each time-saved answer stands for
+const HOURS_SAVED: Record<TimeSaved, number> = {
+  "1-5": 3,
+  "6-10": 8,
+  "11-20": 15.5,
+  "20+": 20
+};
+
+export function feedbackRelayEnabled(): boolean {
+  return RELAY_URL !== undefined;
+}
+
+// The body the browser used to send straight to the relay, so receivers keep working unchanged
+function relayBody(entry: Feedback) {
+  const { exportInfo } = entry;
+  return {
+    id: entry.id,
+    timestamp: entry.createdAt.toISOString(),
+    survey_data: {
+      time_saved: entry.timeSaved,
+      willing_to_pay: entry.willingToPay === null ? null : entry.willingToPay ? 'yes' : 'no',
+      price_range: entry.priceRange,
+      email: entry.email,
+      ...(entry.skipped && { skipped: true })
+    },
+    export_info: exportInfo ? {
+      export_type: exportInfo.exportType,
+      leads_count: exportInfo.leadsCount,
+      filename: exportInfo.fileName
+    } : null,
+    user_session: exportInfo ? {
+      leads_processed: exportInfo.totalLeads,
+      qualified_leads: exportInfo.qualifiedLeads,
+      qualification_rate: exportInfo.qualificationRate
+    } : null
+  };
+}
+
+function scheduleRelay(entry: Feedback, delayMs: number) {
+  setTimeout(() => {
+    relayFeedback(entry).catch(error => Logger.error(`Failed to relay feedback ${entry.id}`, error));
+  }, Math.max(0, delayMs)).unref();
+}
+
+// Sends the answers to the relay, retrying with backoff until MAX_RELAY_ATTEMPTS
+export async function relayFeedback(entry: Feedback): Promise<void> {
+  if (!RELAY_URL) {
+    return;
+  }
+
+  const { error } = await postSignedJson(RELAY_URL, RELAY_SECRET, JSON.stringify(relayBody(entry)), { 'X-Webhook-Id': entry.id });
+  const relayAttempts = entry.relayAttempts + 1;
+  const now = new Date();
+
+  if (!error) {
+    await storage.updateFeedbackRelay(entry.id, { relayStatus: 'delivered', relayAttempts, relayedAt: now, nextRelayAt: null, relayError: null });
+    return;
+  }
+
+  const retry = relayAttempts < MAX_RELAY_ATTEMPTS;
+  Logger.warn(`Feedback relay for ${entry.id} failed`, { relayAttempts, error, willRetry: retry });
+  const nextRelayAt = retry ? new Date(now.getTime() + retryDelay(relayAttempts)) : null;
+  const updated = await storage.updateFeedbackRelay(entry.id, {
+    relayStatus: retry ? 'pending' : 'failed',
+    relayAttempts,
+    nextRelayAt,
+    relayError: error
+  });
+  if (updated && nextRelayAt) {
+    scheduleRelay(updated, nextRelayAt.getTime() - now.getTime());
+  }
+}
+
+// Picks up relays still waiting from before a restart
+export async function resumeFeedbackRelays() {
+  if (!RELAY_URL) {
+    return;
+  }
+  const pending = await storage.listPendingFeedbackRelays();
+  const now = Date.now();
+  pending.forEach(entry => scheduleRelay(entry, (entry.nextRelayAt?.getTime() ?? now) - now));
+  if (pending.length > 0) {
+    Logger.info(`Resuming ${pending.length} pending feedback relay(s)`);
+  }
+}
+
+export function summarizeFeedback(responses: Feedback[]): FeedbackSummary {
+  const answered = responses.filter(entry => !entry.skipped);
+  const timeSaved = Object.fromEntries(timeSavedOptions.map(option => [option, 0])) as Record<TimeSaved, number>;
+  const priceRanges = Object.fromEntries(priceRangeOptions.map(option => [option, 0])) as Record<PriceRange, number>;
+  let totalHoursSaved = 0;
+  let timeSavedAnswers = 0;
+
+  for (const entry of answered) {
+    if (entry.timeSaved) {
+      timeSaved[entry.timeSaved]++;
+      totalHoursSaved += HOURS_SAVED[entry.timeSaved];
+      timeSavedAnswers++;
+    }
+    if (entry.priceRange) priceRanges[entry.priceRange]++;
+  }
+
+  const willingToPay = answered.filter(entry => entry.willingToPay === true).length;
+  const notWillingToPay = answered.filter(entry => entry.willingToPay === false).length;
+
+  return {
+    responses: responses.length,
+    skipped: responses.length - answered.length,
+    timeSaved,
+    averageHoursSaved: timeSavedAnswers > 0 ? totalHoursSaved / timeSavedAnswers : null,
+    totalHoursSaved,
+    willingToPay,
+    notWillingToPay,
+    willingToPayRate: willingToPay + notWillingToPay > 0 ? (willingToPay / (willingToPay + notWillingToPay)) * 100 : null,
+    priceRanges
+  };
+}
@@ -1,34 +1,12 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
-
-// Production logging utility
-class Logger {
-  static info(message: string, data?: any) {
-    const timestamp = new Date().toISOString();
-    console.log(`[${timestamp}] INFO: ${message}`, data || '');
-  }
-  
-  static warn(message: string, data?: any) {
-    const timestamp = new Date().toISOString();
-    console.warn(`[${timestamp}] WARN: ${message}`, data || '');
-  }
-  
-  static error(message: string, error?: any) {
-    const timestamp = new Date().toISOString();
-    console.error(`[${timestamp}] ERROR: ${message}`, error || '');
-  }
-  
-  static performance(operation: string, duration: number, data?: any) {
-    const timestamp = new Date().toISOString();
-    console.log(`[${timestamp}] PERF: ${operation} completed in ${duration}ms`, data || '');
-  }
-}
+import { Logger } from "./logger";
 
 export { Logger };
 
 const app = express();
-app.use(express.json());
+app.use(express.json({ limit: "20mb" })); // whole lead lists are submitted to /api/jobs
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -0,0 +1,67 @@
+import { EventEmitter } from "events";
+import { stoppedJobStatuses, type JobStreamEvent } from "@shared/schema";
+
+export interface JobEvent {
+  // "<process epoch>-<sequence>", sent as the SSE event id
+  id: string;
+  seq: number;
+  event: JobStreamEvent;
+}
+
+// Ids from before a restart belong to another process and are never resumed from
+const EPOCH = Date.now().toString(36);
+// Enough to cover a client reconnecting after a short drop on a fast run
+const MAX_LOGGED_EVENTS = 500;
+
+// Recent events of running jobs, so a reconnecting client gets exactly what it missed
+const logs = new Map<string, { seq: number; events: JobEvent[] }>();
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+export function publishJobEvent(jobId: string, event: JobStreamEvent) {
+  const log = logs.get(jobId) ?? { seq: 0, events: [] };
+  log.seq++;
+  const logged: JobEvent = { id: `${EPOCH}-${log.seq}`, seq: log.seq, event };
+  log.events.push(logged);
+  if (log.events.length > MAX_LOGGED_EVENTS) log.events.shift();
+  logs.set(jobId, log);
+
+  emitter.emit(jobId, logged);
+
+  // A stopped job's results are all in storage, where a snapshot will find them. The sequence
+  // carries on, so ids from before a pause are never mistaken for events after it.
+  if (event.type === 'status' && stoppedJobStatuses.includes(event.status)) {
+    log.events = [];
+  }
+}
+
+export function subscribeToJob(jobId: string, listener: (event: JobEvent) => void): () => void {
+  emitter.on(jobId, listener);
+  return () => { emitter.off(jobId, listener); };
+}
+
+// Sequence number of the job's latest event; 0 before its first
+export function latestJobEventSeq(jobId: string): number {
+  return logs.get(jobId)?.seq ?? 0;
+}
+
+// The events after lastEventId, or undefined when some are no longer known - or the job has
+// stopped - and the client needs a snapshot instead
+export function jobEventsSince(jobId: string, lastEventId: string | undefined): JobEvent[] | undefined {
+  const log = logs.get(jobId);
+  const match = lastEventId?.match(/^([a-z0-9]+)-(\d+)$/);
+  if (!log || log.events.length === 0 || !match || match[1] !== EPOCH) {
+    return undefined;
+  }
+
+  const lastSeq = parseInt(match[2], 10);
+  if (lastSeq > log.seq || lastSeq + 1 < log.events[0].seq) {
+    return undefined;
+  }
+  return log.events.filter(logged => logged.seq > lastSeq);
+}
+
+// The id a snapshot is sent with, so a reconnect after it resumes from the events that follow
+export function jobEventId(seq: number): string {
+  return `${EPOCH}-${seq}`;
+}
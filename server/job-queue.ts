@@ -0,0 +1,446 @@
+import type {
+  AnalysisJob,
+  AnalysisJobStatus,
+  AnalysisJobSummary,
+  AnalysisJobView,
+  BusinessSetup,
+  CachedScore,
+  InsertAnalysisJob,
+  InsertScoreCacheEntry,
+  Lead,
+  PauseReason,
+  ProcessedLead,
+  ProcessingProgress,
+  ProcessingStats,
+  Rubric,
+  RuleSet,
+  ScoringProviderConfig,
+  TokenUsage
+} from "@shared/schema";
+import { leadContentHash, scoringVersion } from "@shared/lead-hash";
+import { storage, type JobFilter } from "./storage";
+import { analyzeLeadBatch, annotateLead } from "./lead-analyzer";
+import { getScoringProvider } from "./scoring-providers";
+import { limiterFor } from "./rate-limiter";
+import { publishJobEvent } from "./job-events";
+import { capBudget, DAILY_SPEND_LIMIT, priceUsage, spendDay } from "./pricing";
+import { emitWebhookEvent, emitWebhookEvents, hasWebhookSubscribers } from "./webhooks";
+import { Logger } from "./index";
+
+// How many jobs run side by side; requests in parallel are set per model by its limiter
+const MAX_CONCURRENT_JOBS = parseInt(process.env.JOB_CONCURRENCY || '2', 10);
+
+export interface SubmitJobOptions {
+  provider?: ScoringProviderConfig;
+  campaignId?: string;
+  scoringThreshold?: number;
+  rubric?: Rubric;
+  ruleSet?: RuleSet;
+  fileName?: string;
+  // USD; capped by RUN_SPEND_LIMIT
+  budget?: number;
+}
+
+export function calculateStats(totalLeads: number, results: ProcessedLead[]): ProcessingStats {
+  const qualifiedLeads = results.filter(lead => lead.qualified).length;
+  const totalScore = results.reduce((sum, lead) => sum + lead.score, 0);
+
+  return {
+    totalLeads,
+    processedLeads: results.length,
+    qualifiedLeads,
+    notQualifiedLeads: results.length - qualifiedLeads,
+    averageScore: results.length > 0 ? totalScore / results.length : 0,
+    qualificationRate: results.length > 0 ? (qualifiedLeads / results.length) * 100 : 0,
+    inputTokens: results.reduce((sum, lead) => sum + (lead.usage?.inputTokens ?? 0), 0),
+    outputTokens: results.reduce((sum, lead) => sum + (lead.usage?.outputTokens ?? 0), 0),
+    estimatedCost: results.reduce((sum, lead) => sum + (lead.usage?.cost ?? 0), 0)
+  };
+}
+
+export async function getJobView(job: AnalysisJob): Promise<AnalysisJobView> {
+  return { ...job, results: await storage.listProcessedLeads(job.id) };
+}
+
+export async function listJobSummaries(workspaceId: string, filter: Omit<JobFilter, 'workspaceId'> = {}): Promise<AnalysisJobSummary[]> {
+  const [jobs, uploads] = await Promise.all([
+    storage.listJobs({ ...filter, workspaceId }),
+    storage.listUploads(workspaceId, filter.campaignId)
+  ]);
+  const fileNames = new Map(uploads.map(upload => [upload.id, upload.fileName]));
+  return jobs.map(job => ({ ...job, fileName: fileNames.get(job.uploadId) ?? null }));
+}
+
+// A lead's score in an earlier run of the same campaign
+interface PreviousScore {
+  jobId: string;
+  score: number;
+  qualified: boolean;
+}
+
+// The latest score of every lead in the campaign's earlier runs. Lead ids follow the lead, so
+// a lead uploaded again has the same id.
+async function previousCampaignScores(job: AnalysisJob): Promise<Map<string, PreviousScore>> {
+  const scores = new Map<string, PreviousScore>();
+  const earlier = (await storage.listJobs({ workspaceId: job.workspaceId, campaignId: job.campaignId! }))
+    .filter(other => other.id !== job.id && other.createdAt.getTime() <= job.createdAt.getTime())
+    .reverse();
+
+  for (const other of earlier) {
+    for (const lead of await storage.listProcessedLeads(other.id)) {
+      scores.set(lead.id, { jobId: other.id, score: lead.score, qualified: lead.qualified });
+    }
+  }
+  return scores;
+}
+
+// Webhooks are queued without holding up the run, and a failure to queue them never fails it
+function notifyWebhooks(send: () => Promise<void>, what: string) {
+  send().catch(error => Logger.error(`Failed to queue ${what} webhooks`, error));
+}
+
+// What the user asked a job to do instead of carrying on
+type StopRequest = 'pause' | 'cancel';
+
+class JobQueue {
+  private pending: string[] = [];
+  private running = 0;
+  // Running jobs stop at the next step, once the requests in flight are stored
+  private stopRequests = new Map<string, StopRequest>();
+  private active = new Set<string>();
+
+  enqueue(jobId: string) {
+    this.pending.push(jobId);
+    this.drain();
+  }
+
+  // Stops a job right away if it is waiting, or after its current step if it is running.
+  // Returns false when the job is neither.
+  async stop(jobId: string, request: StopRequest): Promise<boolean> {
+    if (this.active.has(jobId)) {
+      this.stopRequests.set(jobId, request);
+      return true;
+    }
+
+    const index = this.pending.indexOf(jobId);
+    if (index === -1) {
+      return false;
+    }
+    this.pending.splice(index, 1);
+    await updateJobStatus(jobId, stopUpdate(request));
+    return true;
+  }
+
+  private drain() {
+    while (this.running < MAX_CONCURRENT_JOBS && this.pending.length > 0) {
+      const jobId = this.pending.shift()!;
+      this.running++;
+      this.active.add(jobId);
+
+      this.runJob(jobId)
+        .catch(async (error) => {
+          Logger.error(`Analysis job ${jobId} failed`, error);
+          // Storage is often what failed, so recording the failure may fail too
+          try {
+            await updateJobStatus(jobId, {
+              status: 'failed',
+              error: error instanceof Error ? error.message : 'Unknown error',
+              completedAt: new Date()
+            });
+          } catch (updateError) {
+            Logger.error(`Failed to mark analysis job ${jobId} as failed`, updateError);
+          }
+        })
+        .finally(() => {
+          this.active.delete(jobId);
+          this.stopRequests.delete(jobId);
+          this.running--;
+          this.drain();
+        });
+    }
+  }
+
+  private async runJob(jobId: string) {
+    const job = await storage.getJob(jobId);
+    if (!job) {
+      return;
+    }
+
+    const { businessSetup, provider, scoringThreshold, rubric, ruleSet, budget } = job;
+    const leads = await storage.getUploadLeads(job.uploadId);
+
+    // Results already stored belong to a run interrupted by a restart - carry on after them
+    const results = await storage.listProcessedLeads(jobId);
+    const done = new Set(results.map(lead => lead.id));
+    const remaining = leads.filter(lead => !done.has(lead.id));
+
+    const processingTimes: number[] = [];
+    const startTime = Date.now();
+    let { errors, retries, cached = 0, rateLimited = 0 } = job.progress;
+
+    // Leads the workspace scored before with the same content, brief, rubric and model reuse
+    // that result; workspaces never share scores, so a hit tells nothing about another team
+    const scoringProvider = getScoringProvider(provider ?? undefined);
+    const version = scoringVersion(businessSetup, rubric, ruleSet);
+    const cacheKeys = new Map(remaining.map(lead => [lead.id, `${job.workspaceId}:${leadContentHash(lead)}:${version}:${scoringProvider.name}/${scoringProvider.model}`]));
+    const cachedScores = new Map((await storage.getCachedScores(Array.from(new Set(cacheKeys.values())))).map(entry => [entry.key, entry.result]));
+    const reused = remaining.filter(lead => cachedScores.has(cacheKeys.get(lead.id)!));
+    const toScore = remaining.filter(lead => !cachedScores.has(cacheKeys.get(lead.id)!));
+
+    // Leads are packed into model requests by size, and each step sends as many of them side by
+    // side as the model's limiter currently allows
+    const requests = scoringProvider.planBatches(toScore, businessSetup, { rubric: rubric ?? undefined, ruleSet: ruleSet ?? undefined });
+    const limiter = limiterFor(scoringProvider);
+    let sent = 0;
+    let scoredThisRun = 0;
+    let spent = results.reduce((sum, lead) => sum + (lead.usage?.cost ?? 0), 0);
+
+    // Why the next step may not run, judged by what it is expected to cost
+    const spendLimitReached = async (stepLeads: Lead[]): Promise<PauseReason | undefined> => {
+      if (budget === null && DAILY_SPEND_LIMIT === null) return undefined;
+
+      const usage = scoringProvider.estimateUsage(stepLeads, businessSetup, { rubric: rubric ?? undefined, ruleSet: ruleSet ?? undefined });
+      const stepCost = priceUsage(scoringProvider.name, scoringProvider.model, usage).cost ?? 0;
+      if (budget !== null && spent + stepCost > budget) return 'budget';
+      if (DAILY_SPEND_LIMIT !== null && (await storage.getSpend(spendDay())) + stepCost > DAILY_SPEND_LIMIT) return 'dailyLimit';
+      return undefined;
+    };
+
+    const toProcessedLead = (lead: Lead, score: CachedScore, usage?: TokenUsage): ProcessedLead => ({
+      ...lead,
+      score: score.score,
+      // A campaign threshold takes precedence over the model's own verdict, a disqualifier over both
+      qualified: scoringThreshold !== null
+        ? !score.disqualifiedBy && score.score >= scoringThreshold
+        : score.qualified,
+      reasoning: score.reasoning,
+      qualificationCriteria: score.qualificationCriteria,
+      scoringMethod: score.scoringMethod,
+      criterionScores: score.criterionScores,
+      usage
+    });
+
+    // Only worked out when something listens, since it reads every earlier run of the campaign
+    const previousScores = job.campaignId && await hasWebhookSubscribers(job.workspaceId, 'lead.score_changed')
+      ? await previousCampaignScores(job)
+      : undefined;
+
+    const notifyLeads = (batchResults: ProcessedLead[]) => {
+      const webhookLead = ({ usage, ...lead }: ProcessedLead) => lead;
+
+      notifyWebhooks(() => emitWebhookEvents(job.workspaceId, 'lead.qualified', batchResults
+        .filter(lead => lead.qualified)
+        .map(lead => ({ jobId, campaignId: job.campaignId, lead: webhookLead(lead) }))
+      ), 'lead.qualified');
+
+      if (previousScores) {
+        notifyWebhooks(() => emitWebhookEvents(job.workspaceId, 'lead.score_changed', batchResults.flatMap(lead => {
+          const previous = previousScores.get(lead.id);
+          return previous && (previous.score !== lead.score || previous.qualified !== lead.qualified)
+            ? [{ jobId, campaignId: job.campaignId, lead: webhookLead(lead), previous }]
+            : [];
+        })), 'lead.score_changed');
+      }
+    };
+
+    const storeResults = async (batchResults: ProcessedLead[]) => {
+      await storage.storeProcessedLeads(jobId, batchResults);
+      results.push(...batchResults);
+
+      const averageTimePerLead = processingTimes.length > 0 ? processingTimes.reduce((a, b) => a + b, 0) / processingTimes.length : 0;
+      const progress: ProcessingProgress = {
+        processed: results.length,
+        total: leads.length,
+        currentBatch: sent,
+        totalBatches: requests.length,
+        averageTimePerLead,
+        // Requests run in parallel, so wall-clock time per lead is the better estimate
+        estimatedTimeRemaining: scoredThisRun > 0 ? ((Date.now() - startTime) / scoredThisRun) * (toScore.length - scoredThisRun) : 0,
+        errors,
+        retries,
+        cached,
+        rateLimited,
+        concurrency: limiter.limit
+      };
+
+      const stats = calculateStats(leads.length, results);
+      await storage.updateJob(jobId, { progress, stats });
+      publishJobEvent(jobId, { type: 'results', results: batchResults, progress, stats });
+      notifyLeads(batchResults);
+    };
+
+    await updateJobStatus(jobId, { status: 'running' });
+    Logger.info(`Analysis job ${jobId} started`, { leads: leads.length, resumedAt: results.length, requests: requests.length });
+
+    if (reused.length > 0) {
+      cached += reused.length;
+      await storeResults(reused.map(lead => toProcessedLead(lead, cachedScores.get(cacheKeys.get(lead.id)!)!)));
+    }
+
+    while (sent < requests.length) {
+      const stopRequest = this.stopRequests.get(jobId);
+      if (stopRequest) {
+        await updateJobStatus(jobId, stopUpdate(stopRequest));
+        Logger.info(`Analysis job ${jobId} ${stopRequest === 'pause' ? 'paused' : 'cancelled'} by the user`, { processed: results.length });
+        return;
+      }
+
+      const step = requests.slice(sent, sent + limiter.limit);
+      const pauseReason = await spendLimitReached(step.flat());
+      if (pauseReason) {
+        await updateJobStatus(jobId, { status: 'paused', pauseReason });
+        Logger.info(`Analysis job ${jobId} paused`, { pauseReason, spent, budget, processed: results.length });
+        return;
+      }
+
+      const batches = await Promise.all(step.map(batch =>
+        analyzeLeadBatch(batch, businessSetup, provider ?? undefined, rubric ?? undefined, ruleSet ?? undefined)
+      ));
+
+      const newEntries: InsertScoreCacheEntry[] = [];
+      const batchResults = step.flatMap((batch, batchIndex) => {
+        const { analyses, retries: batchRetries, rateLimited: batchRateLimited, rescored } = batches[batchIndex];
+        // Leads rescored on their own after a bad batch answer count as retried
+        retries += batchRetries + rescored;
+        rateLimited += batchRateLimited;
+
+        return batch.map((lead, leadIndex) => {
+          const analysis = analyses[leadIndex];
+          if (analysis.usedFallback) errors++;
+          retries += analysis.retries;
+          rateLimited += analysis.rateLimited;
+          processingTimes.push(analysis.processingTime);
+
+          const score: CachedScore = {
+            score: analysis.score,
+            qualified: analysis.qualified,
+            reasoning: analysis.reasoning,
+            qualificationCriteria: analysis.qualificationCriteria,
+            scoringMethod: analysis.scoringMethod,
+            criterionScores: analysis.criterionScores,
+            disqualifiedBy: analysis.disqualifiedBy
+          };
+          // Fallback scores stand in for an unavailable model, so they are not worth keeping
+          if (!analysis.usedFallback) newEntries.push({ key: cacheKeys.get(lead.id)!, result: score });
+          return toProcessedLead(lead, score, analysis.usage);
+        });
+      });
+
+      sent += step.length;
+      scoredThisRun += batchResults.length;
+      const stepCost = batchResults.reduce((sum, lead) => sum + (lead.usage?.cost ?? 0), 0);
+      spent += stepCost;
+      if (stepCost > 0) await storage.addSpend(spendDay(), stepCost);
+      await storage.storeCachedScores(newEntries);
+      await storeResults(batchResults);
+    }
+
+    const completed = await updateJobStatus(jobId, {
+      status: 'completed',
+      completedAt: new Date()
+    });
+    if (completed) {
+      const { id, campaignId, uploadId, status, stats, createdAt, completedAt } = completed;
+      notifyWebhooks(() => emitWebhookEvent(job.workspaceId, 'run.completed', {
+        job: { id, campaignId, uploadId, status, stats, createdAt, completedAt }
+      }), 'run.completed');
+    }
+    Logger.performance(`Analysis job ${jobId}`, Date.now() - startTime, { leads: leads.length, requests: requests.length, errors, retries, rateLimited, cached });
+  }
+}
+
+// Stores a status change and tells anyone following the job's events
+async function updateJobStatus(jobId: string, updates: Partial<InsertAnalysisJob> & { status: AnalysisJobStatus }) {
+  const job = await storage.updateJob(jobId, updates);
+  publishJobEvent(jobId, { type: 'status', status: updates.status, pauseReason: job?.pauseReason ?? null, error: job?.error ?? null });
+  return job;
+}
+
+// A paused job keeps its place and can be resumed; a cancelled one keeps the results it has
+function stopUpdate(request: StopRequest): Partial<InsertAnalysisJob> & { status: AnalysisJobStatus } {
+  return request === 'pause'
+    ? { status: 'paused', pauseReason: 'user' }
+    : { status: 'cancelled', pauseReason: null, completedAt: new Date() };
+}
+
+const jobQueue = new JobQueue();
+
+export async function submitJob(
+  workspaceId: string,
+  leads: Lead[],
+  businessSetup: BusinessSetup,
+  options: SubmitJobOptions = {}
+): Promise<AnalysisJob> {
+  const upload = await storage.createUpload({
+    workspaceId,
+    campaignId: options.campaignId,
+    fileName: options.fileName,
+    leadCount: leads.length
+  }, leads.map(annotateLead));
+
+  const job = await storage.createJob({
+    workspaceId,
+    uploadId: upload.id,
+    campaignId: options.campaignId,
+    scoringThreshold: options.scoringThreshold,
+    rubric: options.rubric,
+    ruleSet: options.ruleSet,
+    budget: capBudget(options.budget),
+    status: 'queued',
+    businessSetup,
+    provider: options.provider,
+    progress: {
+      processed: 0,
+      total: leads.length,
+      currentBatch: 0,
+      // Known once the run has packed the leads into requests
+      totalBatches: 0,
+      averageTimePerLead: 0,
+      estimatedTimeRemaining: 0,
+      errors: 0,
+      retries: 0,
+      cached: 0,
+      rateLimited: 0
+    },
+    stats: calculateStats(leads.length, [])
+  });
+
+  jobQueue.enqueue(job.id);
+  return job;
+}
+
+// Continues a paused job, with a new budget when one is given
+export async function resumeJob(job: AnalysisJob, budget?: number | null): Promise<AnalysisJob | undefined> {
+  const resumed = await updateJobStatus(job.id, {
+    status: 'queued',
+    pauseReason: null,
+    budget: budget === undefined ? job.budget : capBudget(budget)
+  });
+  jobQueue.enqueue(job.id);
+  return resumed;
+}
+
+// Pauses a queued or running job; false if it is neither
+export function pauseJob(jobId: string): Promise<boolean> {
+  return jobQueue.stop(jobId, 'pause');
+}
+
+// Stops a job for good, keeping what it has scored. Paused jobs are not in the queue, so
+// they are cancelled directly.
+export async function cancelJob(job: AnalysisJob): Promise<boolean> {
+  if (job.status === 'paused') {
+    await updateJobStatus(job.id, stopUpdate('cancel'));
+    return true;
+  }
+  return jobQueue.stop(job.id, 'cancel');
+}
+
+// Picks up jobs that were queued or mid-run when the server last stopped
+export async function resumeUnfinishedJobs() {
+  const unfinished = await storage.listJobs({ status: ['queued', 'running'] });
+
+  unfinished.reverse().forEach(job => jobQueue.enqueue(job.id));
+  if (unfinished.length > 0) {
+    Logger.info(`Resuming ${unfinished.length} unfinished analysis job(s)`);
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { extractJson } from "./json-repair";
+
+describe('extractJson', () => {
+  test('returns valid JSON as it is', () => {
+    assert.deepEqual(extractJson(' {"score": 72, "qualified": true} '), { value: { score: 72, qualified: true }, repaired: false });
+  });
+
+  test('reads the body of a markdown fence, even an unterminated one', () => {
+    assert.deepEqual(extractJson('Here you go:\n```json\n{"score": 40}\n```\nThanks').value, { score: 40 });
+    assert.deepEqual(extractJson('```json\n{"score": 40}').value, { score: 40 });
+  });
+
+  test('drops prose around the value', () => {
+    assert.deepEqual(extractJson('Result: {"score": 10, "reasoning": "weak fit"} Hope that helps.'), {
+      value: { score: 10, reasoning: 'weak fit' },
+      repaired: true
+    });
+  });
+
+  test('removes trailing commas', () => {
+    assert.deepEqual(extractJson('{"criteria": ["a", "b",], "score": 5,}').value, { criteria: ['a', 'b'], score: 5 });
+  });
+
+  test('leaves commas before brackets inside strings alone', () => {
+    assert.deepEqual(extractJson('{"reasoning":"a, }b","score":5').value, { reasoning: 'a, }b', score: 5 });
+    assert.deepEqual(extractJson('{"reasoning": "say \\"x, ]\\" twice",}').value, { reasoning: 'say "x, ]" twice' });
+  });
+
+  test('closes output cut off by the token limit', () => {
+    assert.deepEqual(extractJson('{"score": 80, "qualified": true, "reasoning": "Strong fi').value, {
+      score: 80,
+      qualified: true,
+      reasoning: 'Strong fi'
+    });
+    assert.deepEqual(extractJson('{"results": [{"lead": 1, "score": 50}, {"lead": 2, "sco').value, {
+      results: [{ lead: 1, score: 50 }, { lead: 2 }]
+    });
+  });
+
+  test('drops a member whose value was cut off after its key', () => {
+    assert.deepEqual(extractJson('{"score": 30, "reasoning":').value, { score: 30 });
+  });
+
+  test('throws when there is no JSON to find', () => {
+    assert.throws(() => extractJson('I cannot score this lead.'), /No JSON object found/);
+  });
+});
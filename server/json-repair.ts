@@ -0,0 +1,112 @@
+export interface ExtractedJson {
+  value: unknown;
+  repaired: boolean;
+}
+
+// Walks the text, telling the visitor whether each character lies inside a string literal.
+// The quotes themselves count as outside. Returns whether the text ends inside a string.
+function scanJson(text: string, visit: (char: string, index: number, inString: boolean) => void): boolean {
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      visit(char, i, inString || char !== '"');
+    } else {
+      if (char === '"') inString = true;
+      visit(char, i, false);
+    }
+  }
+  return inString;
+}
+
+// Drops commas before a closing bracket, leaving commas inside strings alone
+function stripTrailingCommas(text: string): string {
+  let result = '';
+  scanJson(text, (char, index, quoted) => {
+    if (!quoted && char === ',') {
+      let next = index + 1;
+      while (/\s/.test(text.charAt(next))) next++;
+      if (text[next] === '}' || text[next] === ']') return;
+    }
+    result += char;
+  });
+  return result;
+}
+
+// Closes whatever strings, arrays and objects a truncated fragment left open.
+// Returns null when the fragment ends somewhere no value can be completed (e.g. after a key).
+function closeJson(fragment: string): string | null {
+  const stack: string[] = [];
+  const inString = scanJson(fragment, (char, _index, quoted) => {
+    if (quoted) return;
+    if (char === '{' || char === '[') stack.push(char);
+    else if (char === '}' || char === ']') stack.pop();
+  });
+
+  let closed = fragment;
+  if (inString) {
+    closed = closed.replace(/\\$/, '') + '"';
+  }
+  closed = closed.replace(/[\s,]+$/, '');
+  if (/[:]\s*$/.test(closed)) {
+    return null;
+  }
+
+  return closed + stack.reverse().map(open => open === '{' ? '}' : ']').join('');
+}
+
+function tryParse(text: string | null): { ok: true; value: unknown } | { ok: false } {
+  if (text === null) return { ok: false };
+  try {
+    return { ok: true, value: JSON.parse(text) };
+  } catch {
+    return { ok: false };
+  }
+}
+
+// Pulls a JSON value out of a model response: tolerates markdown fences, prose around the
+// object, trailing commas and output cut off by the token limit. Throws if nothing parses.
+export function extractJson(text: string): ExtractedJson {
+  const direct = tryParse(text.trim());
+  if (direct.ok) {
+    return { value: direct.value, repaired: false };
+  }
+
+  // Prefer the body of a ```json fence when there is one, even an unterminated one
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)(?:```|$)/i);
+  let candidate = (fenced ? fenced[1] : text).trim();
+
+  const start = candidate.search(/[{[]/);
+  if (start === -1) {
+    throw new Error('No JSON object found in response');
+  }
+  candidate = stripTrailingCommas(candidate.slice(start));
+
+  // Complete JSON followed by trailing prose
+  const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+  if (end !== -1) {
+    const trimmed = tryParse(candidate.slice(0, end + 1));
+    if (trimmed.ok) {
+      return { value: trimmed.value, repaired: true };
+    }
+  }
+
+  // Truncated JSON: close it as-is, then drop trailing members one at a time until it parses
+  const closedWhole = tryParse(closeJson(candidate));
+  if (closedWhole.ok) {
+    return { value: closedWhole.value, repaired: true };
+  }
+  for (let i = candidate.lastIndexOf(','); i > 0; i = candidate.lastIndexOf(',', i - 1)) {
+    const closed = tryParse(closeJson(candidate.slice(0, i)));
+    if (closed.ok) {
+      return { value: closed.value, repaired: true };
+    }
+  }
+
+  throw new Error('Response is not valid JSON and could not be repaired');
+}
@@ -0,0 +1,245 @@
+import type { BusinessSetup, CostEstimate, Lead, Rubric, RubricGeneration, RuleSet, ScoringProviderConfig, TokenUsage } from "@shared/schema";
+import { DEFAULT_PHONE_REGION, normalizeLeadFields, parsePhoneRegion } from "@shared/normalize";
+import { checkContact } from "@shared/contact-validation";
+import { getScoringProvider, OfflineScoringProvider, type LeadScore, type LeadScoringProvider, type TokenCount } from "./scoring-providers";
+import { DAILY_SPEND_LIMIT, priceUsage, RUN_SPEND_LIMIT, spendDay } from "./pricing";
+import { storage } from "./storage";
+
+export interface LeadAnalysis extends LeadScore {
+  processingTime: number;
+  retries: number;
+  // Of the retries, those made because the provider rate-limited the request
+  rateLimited: number;
+  usedFallback: boolean;
+  provider: string;
+  model: string;
+  // Tokens of every request made for the lead, including failed ones before a fallback
+  usage?: TokenUsage;
+}
+
+const fallbackProvider = new OfflineScoringProvider();
+
+// Region of phone numbers written without a country code, e.g. PHONE_REGION=NG for leads that
+// give local numbers such as 0803 123 4567
+export const PHONE_REGION = phoneRegion();
+
+function phoneRegion() {
+  const region = parsePhoneRegion(process.env.PHONE_REGION);
+  if (process.env.PHONE_REGION && !region) {
+    console.warn(`Ignoring unknown PHONE_REGION ${process.env.PHONE_REGION}, using ${DEFAULT_PHONE_REGION}`);
+  }
+  return region ?? DEFAULT_PHONE_REGION;
+}
+
+// Derived values and contact checks are worked out once, before the lead is stored or scored
+export function annotateLead(lead: Lead): Lead {
+  return {
+    ...lead,
+    normalized: normalizeLeadFields(lead, PHONE_REGION),
+    contactChecks: checkContact(lead, { defaultRegion: PHONE_REGION })
+  };
+}
+
+// Sums the token counts reported while a request runs
+function tokenCounter() {
+  const tokens: TokenCount = { inputTokens: 0, outputTokens: 0 };
+  return {
+    tokens,
+    onUsage: (usage: TokenCount) => {
+      tokens.inputTokens += usage.inputTokens;
+      tokens.outputTokens += usage.outputTokens;
+    }
+  };
+}
+
+function requestUsage(provider: LeadScoringProvider, tokens: TokenCount): TokenUsage | undefined {
+  return tokens.inputTokens + tokens.outputTokens > 0 ? priceUsage(provider.name, provider.model, tokens) : undefined;
+}
+
+// Whole-token shares of a batch request, the remainder going to the first leads
+function splitTokens(tokens: TokenCount, parts: number): TokenCount[] {
+  const share = (total: number, index: number) => Math.floor(total / parts) + (index < total % parts ? 1 : 0);
+  return Array.from({ length: parts }, (_, index) => ({
+    inputTokens: share(tokens.inputTokens, index),
+    outputTokens: share(tokens.outputTokens, index)
+  }));
+}
+
+// Scores a lead with the configured provider, falling back to rule-based scoring when the
+// model is unavailable or returns something unusable. Never throws.
+export async function analyzeLead(
+  lead: Lead,
+  businessSetup: BusinessSetup,
+  providerConfig?: ScoringProviderConfig,
+  rubric?: Rubric,
+  ruleSet?: RuleSet
+): Promise<LeadAnalysis> {
+  const startTime = Date.now();
+  const provider = getScoringProvider(providerConfig);
+  const { tokens, onUsage } = tokenCounter();
+  let retries = 0;
+  let rateLimited = 0;
+
+  try {
+    const result = await provider.scoreLead(lead, businessSetup, {
+      rubric,
+      ruleSet,
+      onRetry: () => { retries++; },
+      onRateLimit: () => { rateLimited++; },
+      onUsage
+    });
+    const processingTime = Date.now() - startTime;
+
+    // Log successful analysis for monitoring
+    console.log(`Lead ${lead.id} analyzed by ${provider.name}/${provider.model} in ${processingTime}ms - Score: ${result.score}, Qualified: ${result.qualified}`);
+
+    return { ...result, processingTime, retries, rateLimited, usedFallback: false, provider: provider.name, model: provider.model, usage: requestUsage(provider, tokens) };
+  } catch (error) {
+    console.error('Error analyzing lead:', error);
+
+    const result = await fallbackProvider.scoreLead(lead, businessSetup, { rubric, ruleSet });
+    return {
+      ...result,
+      reasoning: "AI analysis temporarily unavailable. Score based on lead qualification rules.",
+      scoringMethod: 'fallback',
+      processingTime: Date.now() - startTime,
+      retries,
+      rateLimited,
+      usedFallback: true,
+      provider: fallbackProvider.name,
+      model: fallbackProvider.model,
+      // Paid for even though the answer went unused
+      usage: requestUsage(provider, tokens)
+    };
+  }
+}
+
+export interface LeadBatchAnalysis {
+  // In the order the leads were given
+  analyses: LeadAnalysis[];
+  // Retried requests for the whole batch; retries of single leads are on their analyses
+  retries: number;
+  rateLimited: number;
+  // Leads without a usable answer in the batch, scored again on their own
+  rescored: number;
+}
+
+// Scores leads in one request, then scores the ones whose answer was missing or invalid one
+// at a time, with the usual fallback. A failed batch request rescores every lead. Never throws.
+export async function analyzeLeadBatch(
+  leads: Lead[],
+  businessSetup: BusinessSetup,
+  providerConfig?: ScoringProviderConfig,
+  rubric?: Rubric,
+  ruleSet?: RuleSet
+): Promise<LeadBatchAnalysis> {
+  if (leads.length === 1) {
+    return { analyses: [await analyzeLead(leads[0], businessSetup, providerConfig, rubric, ruleSet)], retries: 0, rateLimited: 0, rescored: 0 };
+  }
+
+  const startTime = Date.now();
+  const provider = getScoringProvider(providerConfig);
+  const { tokens, onUsage } = tokenCounter();
+  let retries = 0;
+  let rateLimited = 0;
+  let scores = new Map<string, LeadScore>();
+
+  try {
+    scores = await provider.scoreLeads(leads, businessSetup, {
+      rubric,
+      ruleSet,
+      onRetry: () => { retries++; },
+      onRateLimit: () => { rateLimited++; },
+      onUsage
+    });
+    console.log(`Batch of ${leads.length} leads analyzed by ${provider.name}/${provider.model} in ${Date.now() - startTime}ms - ${scores.size} scored`);
+  } catch (error) {
+    console.error('Error analyzing lead batch:', error);
+  }
+
+  // The shared request's time is split between the leads it scored, its tokens between all of
+  // them; leads scored again on their own add that request's tokens to their share
+  const processingTime = (Date.now() - startTime) / Math.max(1, scores.size);
+  const shares = splitTokens(tokens, leads.length);
+  const analyses = await Promise.all(leads.map(async (lead, index): Promise<LeadAnalysis> => {
+    const score = scores.get(lead.id);
+    if (score) {
+      return { ...score, processingTime, retries: 0, rateLimited: 0, usedFallback: false, provider: provider.name, model: provider.model, usage: requestUsage(provider, shares[index]) };
+    }
+
+    const analysis = await analyzeLead(lead, businessSetup, providerConfig, rubric, ruleSet);
+    return {
+      ...analysis,
+      usage: requestUsage(provider, {
+        inputTokens: (analysis.usage?.inputTokens ?? 0) + shares[index].inputTokens,
+        outputTokens: (analysis.usage?.outputTokens ?? 0) + shares[index].outputTokens
+      })
+    };
+  }));
+
+  return { analyses, retries, rateLimited, rescored: leads.length - scores.size };
+}
+
+// Scores a list in as few requests as the provider's batch budgets allow, in the given order. Never throws.
+export async function analyzeLeads(
+  leads: Lead[],
+  businessSetup: BusinessSetup,
+  providerConfig?: ScoringProviderConfig,
+  rubric?: Rubric,
+  ruleSet?: RuleSet
+): Promise<LeadAnalysis[]> {
+  const batches = getScoringProvider(providerConfig).planBatches(leads, businessSetup, { rubric, ruleSet });
+  const results = await Promise.all(batches.map(batch => analyzeLeadBatch(batch, businessSetup, providerConfig, rubric, ruleSet)));
+  return results.flatMap(result => result.analyses);
+}
+
+// Expected tokens and cost of scoring leadCount leads like the sample. Which leads can reuse an
+// earlier score is only known once the run starts, so this assumes none can.
+export async function estimateCost(
+  sample: Lead[],
+  leadCount: number,
+  businessSetup: BusinessSetup,
+  providerConfig?: ScoringProviderConfig,
+  rubric?: Rubric
+): Promise<CostEstimate> {
+  const provider = getScoringProvider(providerConfig);
+  // The sample is repeated to the full length, so batches are sized as they will be in the run
+  const leads = Array.from({ length: leadCount }, (_, i) => sample[i % sample.length]);
+  const { requests, ...tokens } = provider.estimateUsage(leads, businessSetup, { rubric });
+
+  return {
+    provider: provider.name,
+    model: provider.model,
+    leads: leadCount,
+    requests,
+    ...tokens,
+    cost: priceUsage(provider.name, provider.model, tokens).cost ?? null,
+    runLimit: RUN_SPEND_LIMIT,
+    dailyLimit: DAILY_SPEND_LIMIT,
+    spentToday: await storage.getSpend(spendDay())
+  };
+}
+
+// Drafts a rubric for the business, falling back to one mirroring the scoring rules. Never throws.
+export async function generateRubric(
+  businessSetup: BusinessSetup,
+  providerConfig?: ScoringProviderConfig
+): Promise<RubricGeneration> {
+  const provider = getScoringProvider(providerConfig);
+  const { tokens, onUsage } = tokenCounter();
+
+  try {
+    const rubric = await provider.generateRubric(businessSetup, { onUsage });
+    return { rubric, usedFallback: false, provider: provider.name, model: provider.model, usage: requestUsage(provider, tokens) };
+  } catch (error) {
+    console.error('Error generating rubric:', error);
+
+    return {
+      rubric: await fallbackProvider.generateRubric(),
+      usedFallback: true,
+      provider: fallbackProvider.name,
+      model: fallbackProvider.model,
+      usage: requestUsage(provider, tokens)
+    };
+  }
+}
@@ -0,0 +1,23 @@
+// Production logging utility. Kept apart from index so modules can log while they load,
+// before index itself has run.
+export class Logger {
+  static info(message: string, data?: any) {
+    const timestamp = new Date().toISOString();
+    console.log(`[${timestamp}] INFO: ${message}`, data || '');
+  }
+  
+  static warn(message: string, data?: any) {
+    const timestamp = new Date().toISOString();
+    console.warn(`[${timestamp}] WARN: ${message}`, data || '');
+  }
+  
+  static error(message: string, error?: any) {
+    const timestamp = new Date().toISOString();
+    console.error(`[${timestamp}] ERROR: ${message}`, error || '');
+  }
+  
+  static performance(operation: string, duration: number, data?: any) {
+    const timestamp = new Date().toISOString();
+    console.log(`[${timestamp}] PERF: ${operation} completed in ${duration}ms`, data || '');
+  }
+}
@@ -0,0 +1,182 @@
+import { z } from "zod";
+import { createSelectSchema } from "drizzle-zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import {
+  analysisJobs,
+  businessSetupInputSchema,
+  campaigns,
+  costEstimateRequestSchema,
+  insertCampaignSchema,
+  jobRequestSchema,
+  jobResumeSchema,
+  leadInputSchema,
+  processedLeadSchema,
+  rubricRequestSchema,
+  rubricSchema,
+  ruleSetSchema,
+  scoringProviderNames,
+  scoringProviderSchema,
+  tokenUsageSchema,
+  type CostEstimate,
+  type RubricGeneration
+} from "@shared/schema";
+
+// Records as the API returns them, from the same tables the storage uses
+const campaignSchema = createSelectSchema(campaigns, {
+  rubric: rubricSchema.nullable(),
+  ruleSet: ruleSetSchema.nullable()
+});
+
+const analysisJobSchema = createSelectSchema(analysisJobs, {
+  businessSetup: businessSetupInputSchema,
+  provider: scoringProviderSchema.nullable(),
+  rubric: rubricSchema.nullable(),
+  ruleSet: ruleSetSchema.nullable()
+});
+
+// Responses the shared types describe as interfaces; typed against them so the two cannot drift
+const costEstimateSchema: z.ZodType<CostEstimate> = z.object({
+  provider: z.enum(scoringProviderNames),
+  model: z.string(),
+  leads: z.number().int(),
+  requests: z.number().int(),
+  inputTokens: z.number().int(),
+  outputTokens: z.number().int(),
+  // USD; null when the model has no known price
+  cost: z.number().nullable(),
+  // Server-side spend limits in USD, null when not set
+  runLimit: z.number().nullable(),
+  dailyLimit: z.number().nullable(),
+  spentToday: z.number()
+});
+
+const rubricGenerationSchema: z.ZodType<RubricGeneration> = z.object({
+  rubric: rubricSchema,
+  usedFallback: z.boolean(),
+  provider: z.string(),
+  model: z.string(),
+  usage: tokenUsageSchema.optional()
+});
+
+const errorSchema = z.object({
+  error: z.string(),
+  // Set for invalid request bodies
+  details: z.array(z.object({ field: z.string(), message: z.string() })).optional()
+});
+
+const schemas = {
+  Lead: leadInputSchema,
+  ProcessedLead: processedLeadSchema,
+  Rubric: rubricSchema,
+  RuleSet: ruleSetSchema,
+  JobRequest: jobRequestSchema,
+  JobResume: jobResumeSchema,
+  CostEstimateRequest: costEstimateRequestSchema,
+  RubricRequest: rubricRequestSchema,
+  RubricGeneration: rubricGenerationSchema,
+  CostEstimate: costEstimateSchema,
+  CampaignInput: insertCampaignSchema,
+  CampaignUpdate: insertCampaignSchema.partial(),
+  Campaign: campaignSchema,
+  CampaignWithRuns: campaignSchema.extend({ runs: z.array(analysisJobSchema.extend({ fileName: z.string().nullable() })) }),
+  AnalysisJob: analysisJobSchema,
+  AnalysisJobSummary: analysisJobSchema.extend({ fileName: z.string().nullable() }),
+  AnalysisJobView: analysisJobSchema.extend({ results: z.array(processedLeadSchema) }),
+  Error: errorSchema
+} satisfies Record<string, z.ZodTypeAny>;
+
+type SchemaName = keyof typeof schemas;
+
+interface Operation {
+  method: 'get' | 'post' | 'patch' | 'delete';
+  path: string;
+  summary: string;
+  tag: 'Jobs' | 'Campaigns' | 'Rubrics';
+  body?: SchemaName;
+  query?: Record<string, string>;
+  // Status and schema of the successful response; none for 204
+  response: [number, SchemaName | `${SchemaName}[]` | 'stream' | null];
+}
+
+const operations: Operation[] = [
+  { method: 'get', path: '/jobs', summary: 'List analysis jobs, newest first, without their results', tag: 'Jobs', query: { campaignId: 'Only jobs of this campaign' }, response: [200, 'AnalysisJobSummary[]'] },
+  { method: 'post', path: '/jobs', summary: 'Submit leads to be qualified', tag: 'Jobs', body: 'JobRequest', response: [202, 'AnalysisJobView'] },
+  { method: 'post', path: '/jobs/estimate', summary: 'Estimate what a job over the leads would cost', tag: 'Jobs', body: 'CostEstimateRequest', response: [200, 'CostEstimate'] },
+  { method: 'get', path: '/jobs/{id}', summary: 'Get a job with the leads scored so far', tag: 'Jobs', response: [200, 'AnalysisJobView'] },
+  { method: 'get', path: '/jobs/{id}/events', summary: 'Follow a job as Server-Sent Events until it stops', tag: 'Jobs', response: [200, 'stream'] },
+  { method: 'post', path: '/jobs/{id}/pause', summary: 'Pause a running job', tag: 'Jobs', response: [202, 'AnalysisJobView'] },
+  { method: 'post', path: '/jobs/{id}/resume', summary: 'Resume a paused job, optionally with a new budget', tag: 'Jobs', body: 'JobResume', response: [200, 'AnalysisJobView'] },
+  { method: 'post', path: '/jobs/{id}/cancel', summary: 'Cancel a job, keeping the leads it has scored', tag: 'Jobs', response: [202, 'AnalysisJobView'] },
+  { method: 'delete', path: '/jobs/{id}', summary: 'Delete a finished job and its leads', tag: 'Jobs', response: [204, null] },
+  { method: 'get', path: '/campaigns', summary: 'List campaigns', tag: 'Campaigns', response: [200, 'Campaign[]'] },
+  { method: 'post', path: '/campaigns', summary: 'Create a campaign', tag: 'Campaigns', body: 'CampaignInput', response: [201, 'Campaign'] },
+  { method: 'get', path: '/campaigns/{id}', summary: 'Get a campaign with its runs', tag: 'Campaigns', response: [200, 'CampaignWithRuns'] },
+  { method: 'patch', path: '/campaigns/{id}', summary: "Update a campaign, including its rubric and rules", tag: 'Campaigns', body: 'CampaignUpdate', response: [200, 'Campaign'] },
+  { method: 'delete', path: '/campaigns/{id}', summary: 'Delete a campaign; its runs are kept', tag: 'Campaigns', response: [204, null] },
+  { method: 'get', path: '/campaigns/{id}/leads', summary: 'Every scored lead from every run of the campaign', tag: 'Campaigns', response: [200, 'ProcessedLead[]'] },
+  { method: 'post', path: '/rubrics', summary: 'Generate a scoring rubric for a business brief', tag: 'Rubrics', body: 'RubricRequest', response: [200, 'RubricGeneration'] }
+];
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+const errorResponse = (description: string) => ({ description, content: { 'application/json': { schema: ref('Error') } } });
+
+function responseSchema(schema: NonNullable<Operation['response'][1]>) {
+  if (schema === 'stream') {
+    return { 'text/event-stream': { schema: { type: 'string' } } };
+  }
+  const schemaRef = schema.endsWith('[]') ? { type: 'array', items: ref(schema.slice(0, -2)) } : ref(schema);
+  return { 'application/json': { schema: schemaRef } };
+}
+
+function toOperation({ summary, tag, body, query, path, response: [status, schema] }: Operation) {
+  const parameters = [
+    ...(path.includes('{id}') ? [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }] : []),
+    ...Object.entries(query ?? {}).map(([name, description]) => ({ name, in: 'query', required: false, description, schema: { type: 'string' } }))
+  ];
+
+  return {
+    summary,
+    tags: [tag],
+    ...(parameters.length > 0 && { parameters }),
+    ...(body && { requestBody: { required: true, content: { 'application/json': { schema: ref(body) } } } }),
+    responses: {
+      [status]: { description: 'Success', ...(schema && { content: responseSchema(schema) }) },
+      ...(body && { 400: errorResponse('Invalid request data') }),
+      401: errorResponse('Missing, invalid or revoked API key'),
+      ...(path.includes('{id}') && { 404: errorResponse('Not found in the key\'s workspace') }),
+      ...(tag !== 'Campaigns' && { 429: errorResponse('Rate limit of the key or daily spend limit reached') })
+    }
+  };
+}
+
+let document: object | undefined;
+
+// The /api/v1 OpenAPI 3 document, built once from the zod schemas the routes validate with
+export function openApiDocument(): object {
+  if (document) return document;
+
+  const paths: Record<string, Record<string, object>> = {};
+  for (const operation of operations) {
+    paths[operation.path] = { ...paths[operation.path], [operation.method]: toOperation(operation) };
+  }
+
+  document = {
+    openapi: '3.0.3',
+    info: {
+      title: 'Lead Qualifier API',
+      version: '1.0.0',
+      description: 'Qualify leads from your own systems. Authenticate with a workspace API key as "Authorization: Bearer <key>"; viewer keys may only read.'
+    },
+    servers: [{ url: '/api/v1' }],
+    security: [{ apiKey: [] }],
+    paths,
+    components: {
+      securitySchemes: { apiKey: { type: 'http', scheme: 'bearer' } },
+      schemas: Object.fromEntries(Object.entries(schemas).map(([name, schema]) => [
+        name,
+        zodToJsonSchema(schema, { target: 'openApi3', $refStrategy: 'none' })
+      ]))
+    }
+  };
+  return document;
+}
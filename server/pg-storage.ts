@@ -0,0 +1,575 @@
+import { and, asc, desc, eq, inArray, isNotNull, lte, min, sql } from "drizzle-orm";
+import {
+  analysisJobs,
+  apiKeys,
+  campaigns,
+  crmExportMappings,
+  dailySpend,
+  feedback,
+  leadRecords,
+  mappingTemplates,
+  processedLeadRecords,
+  scoreCache,
+  uploads,
+  users,
+  webhookDeliveries,
+  webhooks,
+  workspaceMembers,
+  workspaces,
+  type AnalysisJob,
+  type ApiKey,
+  type Campaign,
+  type CrmExportMappingRecord,
+  type CrmProfileId,
+  type Feedback,
+  type InsertAnalysisJob,
+  type InsertApiKey,
+  type InsertCampaign,
+  type InsertCrmExportMappingRecord,
+  type InsertFeedback,
+  type InsertMappingTemplate,
+  type InsertScoreCacheEntry,
+  type InsertUpload,
+  type InsertUser,
+  type InsertWebhook,
+  type InsertWebhookDelivery,
+  type InsertWorkspaceMember,
+  type Lead,
+  type MappingTemplate,
+  type ProcessedLead,
+  type ScoreCacheEntry,
+  type Upload,
+  type User,
+  type Webhook,
+  type WebhookDelivery,
+  type Workspace,
+  type WorkspaceMember,
+  type WorkspaceMemberView,
+  type WorkspaceMembership,
+  type WorkspaceRole
+} from "@shared/schema";
+import type { Database } from "./db";
+import type { FeedbackRelayUpdate, IStorage, JobFilter, ProcessedLeadUpdate, WebhookDeliveryUpdate, WebhookUpdate } from "./storage";
+
+// Stay well under PostgreSQL's 65535 bind parameters per statement
+const INSERT_CHUNK_SIZE = 1000;
+
+type LeadRow = typeof leadRecords.$inferSelect;
+type ProcessedLeadRow = typeof processedLeadRecords.$inferSelect;
+
+// Nullable columns come back as null, but Lead fields are optional strings
+function toLead(row: LeadRow): Lead {
+  const lead: Lead = { id: row.id };
+  if (row.companyName !== null) lead.companyName = row.companyName;
+  if (row.email !== null) lead.email = row.email;
+  if (row.phone !== null) lead.phone = row.phone;
+  if (row.industry !== null) lead.industry = row.industry;
+  if (row.companySize !== null) lead.companySize = row.companySize;
+  if (row.title !== null) lead.title = row.title;
+  if (row.contactName !== null) lead.contactName = row.contactName;
+  if (row.website !== null) lead.website = row.website;
+  if (row.revenue !== null) lead.revenue = row.revenue;
+  if (row.additionalData !== null) lead.additionalData = row.additionalData;
+  if (row.sourceRow !== null) lead.sourceRow = row.sourceRow;
+  if (row.dedup !== null) lead.dedup = row.dedup;
+  if (row.normalized !== null) lead.normalized = row.normalized;
+  if (row.contactChecks !== null) lead.contactChecks = row.contactChecks;
+  return lead;
+}
+
+function toProcessedLead(lead: LeadRow, result: ProcessedLeadRow): ProcessedLead {
+  return {
+    ...toLead(lead),
+    score: result.score,
+    qualified: result.qualified,
+    reasoning: result.reasoning,
+    qualificationCriteria: result.qualificationCriteria ?? undefined,
+    scoringMethod: result.scoringMethod ?? undefined,
+    criterionScores: result.criterionScores ?? undefined,
+    usage: result.usage ?? undefined
+  };
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+export class PgStorage implements IStorage {
+  constructor(private readonly db: Database) {}
+
+  async createUser(user: InsertUser): Promise<User> {
+    const [created] = await this.db.insert(users).values(user).returning();
+    return created;
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.email, email));
+    return user;
+  }
+
+  async updateUser(id: string, updates: Partial<Pick<User, "name" | "surveyedAt">>): Promise<User | undefined> {
+    const [updated] = await this.db.update(users).set(updates).where(eq(users.id, id)).returning();
+    return updated;
+  }
+
+  async createWorkspace(name: string): Promise<Workspace> {
+    const [created] = await this.db.insert(workspaces).values({ name }).returning();
+    return created;
+  }
+
+  async getWorkspace(id: string): Promise<Workspace | undefined> {
+    const [workspace] = await this.db.select().from(workspaces).where(eq(workspaces.id, id));
+    return workspace;
+  }
+
+  async addWorkspaceMember(member: InsertWorkspaceMember): Promise<WorkspaceMember> {
+    const [saved] = await this.db
+      .insert(workspaceMembers)
+      .values(member)
+      .onConflictDoUpdate({
+        target: [workspaceMembers.workspaceId, workspaceMembers.userId],
+        set: { role: member.role }
+      })
+      .returning();
+    return saved;
+  }
+
+  async getWorkspaceMember(workspaceId: string, userId: string): Promise<WorkspaceMember | undefined> {
+    const [member] = await this.db
+      .select()
+      .from(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+    return member;
+  }
+
+  async listWorkspaceMembers(workspaceId: string): Promise<WorkspaceMemberView[]> {
+    const rows = await this.db
+      .select({ member: workspaceMembers, email: users.email, name: users.name })
+      .from(workspaceMembers)
+      .innerJoin(users, eq(workspaceMembers.userId, users.id))
+      .where(eq(workspaceMembers.workspaceId, workspaceId))
+      .orderBy(asc(workspaceMembers.createdAt));
+    return rows.map(row => ({ ...row.member, email: row.email, name: row.name }));
+  }
+
+  async listMemberships(userId: string): Promise<WorkspaceMembership[]> {
+    const rows = await this.db
+      .select({ workspace: workspaces, role: workspaceMembers.role })
+      .from(workspaceMembers)
+      .innerJoin(workspaces, eq(workspaceMembers.workspaceId, workspaces.id))
+      .where(eq(workspaceMembers.userId, userId))
+      .orderBy(asc(workspaceMembers.createdAt));
+    return rows.map(row => ({ ...row.workspace, role: row.role }));
+  }
+
+  async updateWorkspaceMember(workspaceId: string, userId: string, role: WorkspaceRole): Promise<WorkspaceMember | undefined> {
+    const [updated] = await this.db
+      .update(workspaceMembers)
+      .set({ role })
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  async removeWorkspaceMember(workspaceId: string, userId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)))
+      .returning({ userId: workspaceMembers.userId });
+    return deleted.length > 0;
+  }
+
+  async createApiKey(key: InsertApiKey): Promise<ApiKey> {
+    const [created] = await this.db.insert(apiKeys).values(key).returning();
+    return created;
+  }
+
+  async getApiKey(id: string): Promise<ApiKey | undefined> {
+    const [key] = await this.db.select().from(apiKeys).where(eq(apiKeys.id, id));
+    return key;
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const [key] = await this.db.select().from(apiKeys).where(eq(apiKeys.keyHash, keyHash));
+    return key;
+  }
+
+  async listApiKeys(workspaceId: string): Promise<ApiKey[]> {
+    return this.db
+      .select()
+      .from(apiKeys)
+      .where(eq(apiKeys.workspaceId, workspaceId))
+      .orderBy(desc(apiKeys.createdAt));
+  }
+
+  async updateApiKey(id: string, updates: Partial<Pick<ApiKey, "lastUsedAt" | "revokedAt">>): Promise<ApiKey | undefined> {
+    const [updated] = await this.db.update(apiKeys).set(updates).where(eq(apiKeys.id, id)).returning();
+    return updated;
+  }
+
+  async createFeedback(entry: InsertFeedback): Promise<Feedback> {
+    const [created] = await this.db.insert(feedback).values(entry).returning();
+    return created;
+  }
+
+  async listFeedback(workspaceId: string): Promise<Feedback[]> {
+    return this.db
+      .select()
+      .from(feedback)
+      .where(eq(feedback.workspaceId, workspaceId))
+      .orderBy(desc(feedback.createdAt));
+  }
+
+  async listPendingFeedbackRelays(): Promise<Feedback[]> {
+    return this.db.select().from(feedback).where(eq(feedback.relayStatus, "pending"));
+  }
+
+  async updateFeedbackRelay(id: string, updates: FeedbackRelayUpdate): Promise<Feedback | undefined> {
+    const [updated] = await this.db.update(feedback).set(updates).where(eq(feedback.id, id)).returning();
+    return updated;
+  }
+
+  async createWebhook(webhook: InsertWebhook): Promise<Webhook> {
+    const [created] = await this.db.insert(webhooks).values(webhook).returning();
+    return created;
+  }
+
+  async getWebhook(id: string): Promise<Webhook | undefined> {
+    const [webhook] = await this.db.select().from(webhooks).where(eq(webhooks.id, id));
+    return webhook;
+  }
+
+  async listWebhooks(workspaceId: string): Promise<Webhook[]> {
+    return this.db
+      .select()
+      .from(webhooks)
+      .where(eq(webhooks.workspaceId, workspaceId))
+      .orderBy(asc(webhooks.createdAt));
+  }
+
+  async updateWebhook(id: string, updates: WebhookUpdate): Promise<Webhook | undefined> {
+    const [updated] = await this.db
+      .update(webhooks)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(webhooks.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteWebhook(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(webhooks).where(eq(webhooks.id, id)).returning({ id: webhooks.id });
+    return deleted.length > 0;
+  }
+
+  async createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const [created] = await this.db.insert(webhookDeliveries).values(delivery).returning();
+    return created;
+  }
+
+  async getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await this.db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, id));
+    return delivery;
+  }
+
+  async listWebhookDeliveries(webhookId: string, limit: number): Promise<WebhookDelivery[]> {
+    return this.db
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.webhookId, webhookId))
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(limit);
+  }
+
+  async listDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    return this.db
+      .select()
+      .from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.status, "pending"), lte(webhookDeliveries.nextAttemptAt, now)))
+      .orderBy(asc(webhookDeliveries.nextAttemptAt))
+      .limit(limit);
+  }
+
+  async nextWebhookDeliveryAt(): Promise<Date | undefined> {
+    const [row] = await this.db
+      .select({ next: min(webhookDeliveries.nextAttemptAt) })
+      .from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.status, "pending"), isNotNull(webhookDeliveries.nextAttemptAt)));
+    return row?.next ?? undefined;
+  }
+
+  async updateWebhookDelivery(id: string, updates: WebhookDeliveryUpdate): Promise<WebhookDelivery | undefined> {
+    const [updated] = await this.db.update(webhookDeliveries).set(updates).where(eq(webhookDeliveries.id, id)).returning();
+    return updated;
+  }
+
+  async createCampaign(campaign: InsertCampaign): Promise<Campaign> {
+    const [created] = await this.db.insert(campaigns).values(campaign).returning();
+    return created;
+  }
+
+  async getCampaign(id: string): Promise<Campaign | undefined> {
+    const [campaign] = await this.db.select().from(campaigns).where(eq(campaigns.id, id));
+    return campaign;
+  }
+
+  async listCampaigns(workspaceId: string): Promise<Campaign[]> {
+    return this.db
+      .select()
+      .from(campaigns)
+      .where(eq(campaigns.workspaceId, workspaceId))
+      .orderBy(desc(campaigns.updatedAt));
+  }
+
+  async updateCampaign(id: string, updates: Partial<InsertCampaign>): Promise<Campaign | undefined> {
+    const [updated] = await this.db
+      .update(campaigns)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(campaigns.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteCampaign(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(campaigns).where(eq(campaigns.id, id)).returning({ id: campaigns.id });
+    return deleted.length > 0;
+  }
+
+  async createUpload(upload: InsertUpload, leads: Lead[]): Promise<Upload> {
+    return this.db.transaction(async (tx) => {
+      const [created] = await tx.insert(uploads).values(upload).returning();
+
+      for (const rows of chunk(leads.map((lead, position) => ({ ...lead, uploadId: created.id, position })), INSERT_CHUNK_SIZE)) {
+        await tx.insert(leadRecords).values(rows);
+      }
+
+      return created;
+    });
+  }
+
+  async getUpload(id: string): Promise<Upload | undefined> {
+    const [upload] = await this.db.select().from(uploads).where(eq(uploads.id, id));
+    return upload;
+  }
+
+  async listUploads(workspaceId: string, campaignId?: string): Promise<Upload[]> {
+    return this.db
+      .select()
+      .from(uploads)
+      .where(and(
+        eq(uploads.workspaceId, workspaceId),
+        campaignId ? eq(uploads.campaignId, campaignId) : undefined
+      ))
+      .orderBy(desc(uploads.createdAt));
+  }
+
+  async getUploadLeads(uploadId: string): Promise<Lead[]> {
+    const rows = await this.db
+      .select()
+      .from(leadRecords)
+      .where(eq(leadRecords.uploadId, uploadId))
+      .orderBy(asc(leadRecords.position));
+    return rows.map(toLead);
+  }
+
+  async deleteUpload(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(uploads).where(eq(uploads.id, id)).returning({ id: uploads.id });
+    return deleted.length > 0;
+  }
+
+  async createJob(job: InsertAnalysisJob): Promise<AnalysisJob> {
+    const [created] = await this.db.insert(analysisJobs).values(job).returning();
+    return created;
+  }
+
+  async getJob(id: string): Promise<AnalysisJob | undefined> {
+    const [job] = await this.db.select().from(analysisJobs).where(eq(analysisJobs.id, id));
+    return job;
+  }
+
+  async listJobs(filter: JobFilter = {}): Promise<AnalysisJob[]> {
+    return this.db
+      .select()
+      .from(analysisJobs)
+      .where(and(
+        filter.workspaceId ? eq(analysisJobs.workspaceId, filter.workspaceId) : undefined,
+        filter.campaignId ? eq(analysisJobs.campaignId, filter.campaignId) : undefined,
+        filter.status ? inArray(analysisJobs.status, filter.status) : undefined
+      ))
+      .orderBy(desc(analysisJobs.createdAt));
+  }
+
+  async updateJob(id: string, updates: Partial<InsertAnalysisJob>): Promise<AnalysisJob | undefined> {
+    const [updated] = await this.db
+      .update(analysisJobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(analysisJobs.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteJob(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(analysisJobs).where(eq(analysisJobs.id, id)).returning({ id: analysisJobs.id });
+    return deleted.length > 0;
+  }
+
+  async storeProcessedLeads(jobId: string, leads: ProcessedLead[]): Promise<void> {
+    const rows = leads.map(lead => ({
+      jobId,
+      leadId: lead.id,
+      score: lead.score,
+      qualified: lead.qualified,
+      reasoning: lead.reasoning,
+      qualificationCriteria: lead.qualificationCriteria,
+      scoringMethod: lead.scoringMethod,
+      criterionScores: lead.criterionScores,
+      usage: lead.usage
+    }));
+
+    for (const batch of chunk(rows, INSERT_CHUNK_SIZE)) {
+      await this.db.insert(processedLeadRecords).values(batch);
+    }
+  }
+
+  async listProcessedLeads(jobId: string): Promise<ProcessedLead[]> {
+    const rows = await this.selectProcessedLeads()
+      .where(eq(processedLeadRecords.jobId, jobId))
+      .orderBy(asc(leadRecords.position));
+    return rows.map(row => toProcessedLead(row.lead, row.result));
+  }
+
+  async listProcessedLeadsByCampaign(campaignId: string): Promise<ProcessedLead[]> {
+    const rows = await this.selectProcessedLeads()
+      .where(eq(analysisJobs.campaignId, campaignId))
+      .orderBy(asc(analysisJobs.createdAt), asc(leadRecords.position));
+    return rows.map(row => toProcessedLead(row.lead, row.result));
+  }
+
+  async updateProcessedLead(jobId: string, leadId: string, updates: ProcessedLeadUpdate): Promise<ProcessedLead | undefined> {
+    const [updated] = await this.db
+      .update(processedLeadRecords)
+      .set(updates)
+      .where(and(eq(processedLeadRecords.jobId, jobId), eq(processedLeadRecords.leadId, leadId)))
+      .returning();
+    if (!updated) {
+      return undefined;
+    }
+
+    const [row] = await this.selectProcessedLeads()
+      .where(and(eq(processedLeadRecords.jobId, jobId), eq(processedLeadRecords.leadId, leadId)));
+    return row && toProcessedLead(row.lead, row.result);
+  }
+
+  async deleteProcessedLead(jobId: string, leadId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(processedLeadRecords)
+      .where(and(eq(processedLeadRecords.jobId, jobId), eq(processedLeadRecords.leadId, leadId)))
+      .returning({ leadId: processedLeadRecords.leadId });
+    return deleted.length > 0;
+  }
+
+  async listMappingTemplates(workspaceId: string, signature?: string): Promise<MappingTemplate[]> {
+    return this.db
+      .select()
+      .from(mappingTemplates)
+      .where(and(
+        eq(mappingTemplates.workspaceId, workspaceId),
+        signature ? eq(mappingTemplates.signature, signature) : undefined
+      ))
+      .orderBy(desc(mappingTemplates.updatedAt));
+  }
+
+  async getMappingTemplate(id: string): Promise<MappingTemplate | undefined> {
+    const [template] = await this.db.select().from(mappingTemplates).where(eq(mappingTemplates.id, id));
+    return template;
+  }
+
+  async saveMappingTemplate(template: InsertMappingTemplate): Promise<MappingTemplate> {
+    const [saved] = await this.db
+      .insert(mappingTemplates)
+      .values(template)
+      .onConflictDoUpdate({
+        target: [mappingTemplates.workspaceId, mappingTemplates.signature],
+        set: { name: template.name, mapping: template.mapping, updatedAt: new Date() }
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteMappingTemplate(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(mappingTemplates).where(eq(mappingTemplates.id, id)).returning({ id: mappingTemplates.id });
+    return deleted.length > 0;
+  }
+
+  async listCrmExportMappings(workspaceId: string): Promise<CrmExportMappingRecord[]> {
+    return this.db.select().from(crmExportMappings).where(eq(crmExportMappings.workspaceId, workspaceId));
+  }
+
+  async saveCrmExportMapping(record: InsertCrmExportMappingRecord): Promise<CrmExportMappingRecord> {
+    const [saved] = await this.db
+      .insert(crmExportMappings)
+      .values(record)
+      .onConflictDoUpdate({
+        target: [crmExportMappings.workspaceId, crmExportMappings.crm],
+        set: { mapping: record.mapping, updatedAt: new Date() }
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteCrmExportMapping(workspaceId: string, crm: CrmProfileId): Promise<boolean> {
+    const deleted = await this.db
+      .delete(crmExportMappings)
+      .where(and(eq(crmExportMappings.workspaceId, workspaceId), eq(crmExportMappings.crm, crm)))
+      .returning({ crm: crmExportMappings.crm });
+    return deleted.length > 0;
+  }
+
+  async getCachedScores(keys: string[]): Promise<ScoreCacheEntry[]> {
+    if (keys.length === 0) return [];
+    return this.db.select().from(scoreCache).where(inArray(scoreCache.key, keys));
+  }
+
+  async storeCachedScores(entries: InsertScoreCacheEntry[]): Promise<void> {
+    for (const batch of chunk(entries, INSERT_CHUNK_SIZE)) {
+      await this.db
+        .insert(scoreCache)
+        .values(batch)
+        .onConflictDoUpdate({ target: scoreCache.key, set: { result: sql`excluded.result`, createdAt: new Date() } });
+    }
+  }
+
+  async getSpend(day: string): Promise<number> {
+    const [row] = await this.db.select().from(dailySpend).where(eq(dailySpend.day, day));
+    return row?.cost ?? 0;
+  }
+
+  // Added in the database, so parallel jobs cannot overwrite each other's spend
+  async addSpend(day: string, cost: number): Promise<void> {
+    await this.db
+      .insert(dailySpend)
+      .values({ day, cost })
+      .onConflictDoUpdate({ target: dailySpend.day, set: { cost: sql`${dailySpend.cost} + excluded.cost` } });
+  }
+
+  // Results joined back to their lead through the job's upload
+  private selectProcessedLeads() {
+    return this.db
+      .select({ result: processedLeadRecords, lead: leadRecords })
+      .from(processedLeadRecords)
+      .innerJoin(analysisJobs, eq(processedLeadRecords.jobId, analysisJobs.id))
+      .innerJoin(leadRecords, and(
+        eq(leadRecords.uploadId, analysisJobs.uploadId),
+        eq(leadRecords.id, processedLeadRecords.leadId)
+      ))
+      .$dynamic();
+  }
+}
@@ -0,0 +1,108 @@
+import { z } from "zod";
+import type { ScoringProviderName, TokenUsage } from "@shared/schema";
+import { storage } from "./storage";
+import { Logger } from "./logger";
+
+const modelPriceSchema = z.object({
+  // USD per million tokens
+  input: z.number().min(0),
+  output: z.number().min(0)
+});
+
+export type ModelPrice = z.infer<typeof modelPriceSchema>;
+
+// List prices at the time of writing. MODEL_PRICES adds to or overrides them with a JSON
+// object such as {"gpt-4o-mini": {"input": 0.15, "output": 0.6}}.
+const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "claude-3-haiku-20240307": { input: 0.25, output: 1.25 },
+  "claude-3-5-haiku-latest": { input: 0.8, output: 4 },
+  "claude-3-5-sonnet-latest": { input: 3, output: 15 }
+};
+
+// Self-hosted models and rules cost nothing per token
+const FREE_PROVIDERS: ScoringProviderName[] = ["local", "offline"];
+
+function loadPrices(): Record<string, ModelPrice> {
+  if (!process.env.MODEL_PRICES) {
+    return DEFAULT_MODEL_PRICES;
+  }
+
+  try {
+    const overrides = z.record(modelPriceSchema).parse(JSON.parse(process.env.MODEL_PRICES));
+    return { ...DEFAULT_MODEL_PRICES, ...overrides };
+  } catch (error) {
+    Logger.warn('Ignoring invalid MODEL_PRICES, using the default price table', error instanceof Error ? error.message : error);
+    return DEFAULT_MODEL_PRICES;
+  }
+}
+
+let prices: Record<string, ModelPrice> | undefined;
+
+export function getModelPrice(provider: ScoringProviderName, model: string): ModelPrice | undefined {
+  if (FREE_PROVIDERS.includes(provider)) {
+    return { input: 0, output: 0 };
+  }
+  if (!prices) prices = loadPrices();
+  return prices[model];
+}
+
+// Adds the cost to a token count; the cost is left out for models without a known price
+export function priceUsage(provider: ScoringProviderName, model: string, tokens: Omit<TokenUsage, 'cost'>): TokenUsage {
+  const price = getModelPrice(provider, model);
+  if (!price) {
+    return { ...tokens };
+  }
+  return { ...tokens, cost: (tokens.inputTokens * price.input + tokens.outputTokens * price.output) / 1000000 };
+}
+
+// Spend limits in USD; unset means no limit
+function readLimit(name: string): number | null {
+  const value = process.env[name];
+  if (!value) return null;
+
+  const limit = parseFloat(value);
+  if (!(limit > 0)) {
+    Logger.warn(`Ignoring invalid ${name}: ${value}`);
+    return null;
+  }
+  return limit;
+}
+
+// Most any single run may spend, whatever budget it asks for
+export const RUN_SPEND_LIMIT = readLimit('RUN_SPEND_LIMIT');
+// Most all runs together may spend per UTC day
+export const DAILY_SPEND_LIMIT = readLimit('DAILY_SPEND_LIMIT');
+
+// The UTC day spend is booked to, as YYYY-MM-DD
+export function spendDay(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// A run without a budget of its own gets the per-run limit, and none may go past it
+export function capBudget(budget: number | null | undefined): number | null {
+  if (RUN_SPEND_LIMIT === null) return budget ?? null;
+  return Math.min(budget ?? RUN_SPEND_LIMIT, RUN_SPEND_LIMIT);
+}
+
+// The reason no more runs may start today, if the daily limit has been reached
+export async function dailyLimitError(): Promise<string | undefined> {
+  if (DAILY_SPEND_LIMIT === null || (await storage.getSpend(spendDay())) < DAILY_SPEND_LIMIT) {
+    return undefined;
+  }
+  return `Today's spend limit of $${DAILY_SPEND_LIMIT.toFixed(2)} has been reached. New analyses can start again after midnight UTC.`;
+}
+
+// Spend limits can only be kept for models with a known price, so while a budget or the daily
+// limit applies, a model without one is refused rather than counted as free
+export function unpricedModelError(provider: ScoringProviderName, model: string, budget: number | null): string | undefined {
+  if ((budget === null && DAILY_SPEND_LIMIT === null) || getModelPrice(provider, model)) {
+    return undefined;
+  }
+  return `No price is known for ${provider}/${model}, so its spend limits cannot be enforced. Choose a priced model or add it to MODEL_PRICES.`;
+}
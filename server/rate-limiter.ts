@@ -0,0 +1,127 @@
+import type { ScoringProviderName } from "@shared/schema";
+
+// Requests in flight per model when a run starts, and the most they may grow to
+const INITIAL_CONCURRENCY = parseInt(process.env.JOB_BATCH_SIZE || '4', 10);
+const MAX_CONCURRENCY = parseInt(process.env.MAX_PARALLEL_REQUESTS || '16', 10);
+// Requests rate-limited together are answered by one decrease, not one each
+const DECREASE_COOLDOWN_MS = 2000;
+
+const RATE_LIMIT_BASE_DELAY_MS = 1000;
+const RATE_LIMIT_MAX_DELAY_MS = 60000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Thrown by providers when the model API answers 429, with the wait it asked for if it said
+export class RateLimitError extends Error {
+  constructor(message: string, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+}
+
+// "1s", "6m0s", "250ms" as sent in OpenAI's x-ratelimit-reset-* headers
+function parseDuration(value: string): number | undefined {
+  const parts = Array.from(value.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g));
+  if (parts.length === 0) return undefined;
+  const unitMs: Record<string, number> = { ms: 1, s: 1000, m: 60000, h: 3600000 };
+  return parts.reduce((sum, [, amount, unit]) => sum + parseFloat(amount) * unitMs[unit], 0);
+}
+
+// How long a rate-limited response asks to wait, from Retry-After (seconds or a date),
+// retry-after-ms, the RateLimit-Reset standard header or OpenAI's x-ratelimit-reset-*
+export function retryAfterMs(header: (name: string) => string | null | undefined): number | undefined {
+  const ms = parseFloat(header('retry-after-ms') ?? '');
+  if (ms >= 0) return ms;
+
+  const retryAfter = header('retry-after');
+  if (retryAfter) {
+    const seconds = parseFloat(retryAfter);
+    if (seconds >= 0) return seconds * 1000;
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  const reset = parseFloat(header('ratelimit-reset') ?? '');
+  if (reset >= 0) return reset * 1000;
+
+  const resets = ['x-ratelimit-reset-requests', 'x-ratelimit-reset-tokens']
+    .map(name => header(name))
+    .map(value => value ? parseDuration(value) : undefined)
+    .filter((value): value is number => value !== undefined);
+  return resets.length > 0 ? Math.max(...resets) : undefined;
+}
+
+// Exponential in the number of rate limits hit, with jitter so parallel requests do not
+// retry in lockstep; never sooner than the provider asked
+export function rateLimitDelay(attempt: number, retryAfter?: number): number {
+  const ceiling = Math.min(RATE_LIMIT_MAX_DELAY_MS, RATE_LIMIT_BASE_DELAY_MS * 2 ** (attempt - 1));
+  const jittered = ceiling / 2 + Math.random() * ceiling / 2;
+  return Math.max(retryAfter ?? 0, jittered);
+}
+
+// Caps the requests in flight to one model. The cap grows by one for every cap's worth of
+// successful requests and halves when the provider rate-limits (AIMD), and a Retry-After
+// holds back every request until it has passed.
+export class AdaptiveLimiter {
+  private active = 0;
+  private waiting: (() => void)[] = [];
+  private current = INITIAL_CONCURRENCY;
+  private pausedUntil = 0;
+  private lastDecrease = 0;
+
+  get limit(): number {
+    return Math.floor(this.current);
+  }
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.active--;
+      this.waiting.shift()?.();
+    }
+  }
+
+  succeeded() {
+    const before = this.limit;
+    this.current = Math.min(MAX_CONCURRENCY, this.current + 1 / this.current);
+    if (this.limit > before) this.waiting.shift()?.();
+  }
+
+  rateLimited(retryAfter?: number) {
+    const now = Date.now();
+    if (retryAfter) this.pausedUntil = Math.max(this.pausedUntil, now + retryAfter);
+    if (now - this.lastDecrease >= DECREASE_COOLDOWN_MS) {
+      this.current = Math.max(1, this.current / 2);
+      this.lastDecrease = now;
+    }
+  }
+
+  private async acquire() {
+    while (true) {
+      const wait = this.pausedUntil - Date.now();
+      if (wait > 0) {
+        await sleep(wait);
+      } else if (this.active < this.limit) {
+        this.active++;
+        return;
+      } else {
+        await new Promise<void>(resolve => this.waiting.push(resolve));
+      }
+    }
+  }
+}
+
+// Rate limits apply per API key and model, so every job using a model shares its limiter
+const limiters = new Map<string, AdaptiveLimiter>();
+
+export function limiterFor(provider: { name: ScoringProviderName; model: string }): AdaptiveLimiter {
+  const key = `${provider.name}/${provider.model}`;
+  let limiter = limiters.get(key);
+  if (!limiter) {
+    limiter = new AdaptiveLimiter();
+    limiters.set(key, limiter);
+  }
+  return limiter;
+}
@@ -1,17 +1,49 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import express from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import OpenAI from "openai";
-import type { BusinessSetup, Lead } from "@shared/schema";
 import rateLimit from "express-rate-limit";
 import { z } from "zod";
+import {
+  businessSetupInputSchema,
+  costEstimateRequestSchema,
+  crmExportMappingSchema,
+  crmProfileIds,
+  feedbackRequestSchema,
+  insertApiKeySchema,
+  insertCampaignSchema,
+  insertMappingTemplateSchema,
+  insertWebhookSchema,
+  jobRequestSchema,
+  jobResumeSchema,
+  leadInputSchema,
+  rubricRequestSchema,
+  rubricSchema,
+  ruleSetSchema,
+  scoringProviderSchema,
+  stoppedJobStatuses,
+  type CampaignWithRuns,
+  type CreatedApiKey,
+  type FeedbackReport,
+  type ScoringProviderConfig,
+  type TokenUsage
+} from "@shared/schema";
+import { headerSignature } from "@shared/column-mapping";
+import { checkCrmMapping } from "@shared/crm-export";
 import { Logger } from "./index";
+import { analyzeLead, analyzeLeads, annotateLead, estimateCost, generateRubric } from "./lead-analyzer";
+import { submitJob, getJobView, listJobSummaries, pauseJob, resumeJob, cancelJob, resumeUnfinishedJobs } from "./job-queue";
+import { jobEventId, jobEventsSince, latestJobEventSeq, subscribeToJob, type JobEvent } from "./job-events";
+import { getScoringProvider, unsupportedModelError } from "./scoring-providers";
+import { capBudget, dailyLimitError, RUN_SPEND_LIMIT, spendDay, unpricedModelError } from "./pricing";
+import { requireRole, requireWriteAccess, setupAuth, workspaceId } from "./auth";
+import { apiKeyLimiter, authenticateApiKey, DEFAULT_API_KEY_RATE_LIMIT, generateApiKey, toApiKeyView } from "./api-keys";
+import { openApiDocument } from "./openapi";
+import { feedbackRelayEnabled, relayFeedback, resumeFeedbackRelays, summarizeFeedback } from "./feedback";
+import { generateWebhookSecret, replayDelivery, sendTestDelivery, startWebhookWorker, webhookUrlError } from "./webhooks";
 
-// Initialize OpenAI client
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY
-});
+// Deliveries shown in a webhook's log
+const WEBHOOK_LOG_LIMIT = 50;
 
 // Rate limiting for production - more generous limits for lead processing
 const analysisLimiter = rateLimit({
@@ -23,36 +55,84 @@ const analysisLimiter = rateLimit({
   },
   standardHeaders: true,
   legacyHeaders: false,
-  // Add skip condition for development
-  skip: (req) => process.env.NODE_ENV === 'development' && req.ip === '127.0.0.1'
+  // Add skip condition for development; API keys have limits of their own
+  skip: (req) => !!req.apiKey || (process.env.NODE_ENV === 'development' && req.ip === '127.0.0.1')
+});
+
+// Job submission is far heavier than a single analysis, so allow far fewer per minute
+const jobLimiter = rateLimit({
+  windowMs: 1 * 60 * 1000, // 1 minute
+  max: 10,
+  message: {
+    error: 'Too many analysis jobs submitted. Please try again in a moment.',
+    retryAfter: 60
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+  skip: (req) => !!req.apiKey
 });
 
 // Input validation schemas
 const leadAnalysisSchema = z.object({
-  lead: z.object({
-    id: z.string().min(1),
-    companyName: z.string().optional(),
-    email: z.string().optional(),
-    phone: z.string().optional(),
-    industry: z.string().optional(),
-    companySize: z.string().optional(),
-    title: z.string().optional(),
-    contactName: z.string().optional(),
-    website: z.string().optional(),
-    revenue: z.string().optional(),
-    additionalData: z.record(z.any()).optional(),
-  }),
-  businessSetup: z.object({
-    businessDescription: z.string().min(1).max(1000), // Reduced from 10 to 1 for flexibility
-    campaignGoals: z.string().min(1).max(1000), // Reduced from 10 to 1 for flexibility
-  })
+  lead: leadInputSchema,
+  businessSetup: businessSetupInputSchema,
+  // Optional per-request override of the deployment's LEAD_SCORING_PROVIDER
+  provider: scoringProviderSchema.optional(),
+  rubric: rubricSchema.optional(),
+  ruleSet: ruleSetSchema.optional()
+});
+
+// Small lists scored while the client waits; anything larger belongs in a job
+const leadsAnalysisSchema = leadAnalysisSchema.omit({ lead: true }).extend({
+  leads: z.array(leadInputSchema).min(1).max(100)
+    .refine(leads => new Set(leads.map(lead => lead.id)).size === leads.length, 'Lead ids must be unique')
 });
 
+const jobListQuerySchema = z.object({
+  campaignId: z.string().optional()
+});
+
+const mappingTemplateQuerySchema = z.object({
+  signature: z.string().max(100).optional()
+});
+
+// Records of other workspaces are reported as missing, so their ids cannot be probed
+function inWorkspace<T extends { workspaceId: string }>(req: Request, record: T | undefined): T | undefined {
+  return record?.workspaceId === workspaceId(req) ? record : undefined;
+}
+
+// Leads scored and rubrics drafted outside a job count towards the daily limit like any run
+async function spendLimitError(provider: ScoringProviderConfig | undefined): Promise<{ status: number; error: string } | undefined> {
+  const scoringProvider = getScoringProvider(provider);
+  const priceError = unpricedModelError(scoringProvider.name, scoringProvider.model, null);
+  if (priceError) {
+    return { status: 400, error: priceError };
+  }
+
+  const limitError = await dailyLimitError();
+  return limitError ? { status: 429, error: limitError } : undefined;
+}
+
+async function recordSpend(results: { usage?: TokenUsage }[]) {
+  const cost = results.reduce((sum, result) => sum + (result.usage?.cost ?? 0), 0);
+  if (cost > 0) await storage.addSpend(spendDay(), cost);
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  await resumeUnfinishedJobs();
+  startWebhookWorker();
+  await resumeFeedbackRelays();
+  setupAuth(app);
+
+  // /api/v1 serves other systems the app's job, campaign and rubric routes below, with API
+  // keys instead of sessions and a rate limit per key
+  app.get('/api/v1/openapi.json', (_req, res) => {
+    res.json(openApiDocument());
+  });
+  app.use('/api/v1', authenticateApiKey, apiKeyLimiter, requireWriteAccess);
+
   // Lead analysis endpoint with rate limiting
   app.post('/api/analyze-lead', analysisLimiter, async (req, res) => {
-    const startTime = Date.now();
-    
     try {
       // Validate input with detailed error messages
       const validationResult = leadAnalysisSchema.safeParse(req.body);
@@ -69,7 +149,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      const { lead, businessSetup } = validationResult.data;
+      const { lead, businessSetup, provider, rubric, ruleSet } = validationResult.data;
+      const modelError = unsupportedModelError(provider);
+      if (modelError) {
+        return res.status(400).json({ error: modelError });
+      }
       
       // Additional business validation
       const hasContactInfo = lead.phone || lead.email || lead.contactName;
@@ -79,175 +163,919 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Prepare lead data for AI analysis - only include available data
-      const leadInfo = {
-        companyName: lead.companyName,
-        email: lead.email,
-        phone: lead.phone,
-        industry: lead.industry,
-        companySize: lead.companySize,
-        title: lead.title,
-        contactName: lead.contactName,
-        website: lead.website,
-        revenue: lead.revenue,
-        additionalData: lead.additionalData || {}
-      };
+      const limitError = await spendLimitError(provider);
+      if (limitError) {
+        return res.status(limitError.status).json({ error: limitError.error });
+      }
+
+      const analysis = await analyzeLead(annotateLead(lead), businessSetup, provider, rubric, ruleSet);
+      await recordSpend([analysis]);
 
-      // Build contact info string with only available data
-      const contactParts = [];
-      if (leadInfo.phone) contactParts.push(`Phone: ${leadInfo.phone}`);
-      if (leadInfo.email) contactParts.push(`Email: ${leadInfo.email}`);
-      const contactInfo = contactParts.length > 0 ? contactParts.join(' | ') : 'No contact info';
+      if (analysis.usedFallback) {
+        return res.json({
+          score: analysis.score,
+          qualified: analysis.qualified,
+          reasoning: analysis.reasoning,
+          qualificationCriteria: analysis.qualificationCriteria,
+          scoringMethod: analysis.scoringMethod
+        });
+      }
 
-      const prompt = `Analyze this lead and respond with JSON only.
+      res.json({
+        success: true,
+        score: analysis.score,
+        qualified: analysis.qualified,
+        reasoning: analysis.reasoning,
+        qualificationCriteria: analysis.qualificationCriteria,
+        scoringMethod: analysis.scoringMethod,
+        criterionScores: analysis.criterionScores,
+        processingTime: analysis.processingTime
+      });
 
-Business: ${businessSetup.businessDescription}
-Goals: ${businessSetup.campaignGoals}
+    } catch (error) {
+      console.error('Error analyzing lead:', error);
+      res.status(500).json({ 
+        error: 'Failed to process lead analysis',
+        score: 25,
+        qualified: false,
+        reasoning: 'Processing error occurred. Please try again.',
+        qualificationCriteria: []
+      });
+    }
+  });
 
-Lead: ${leadInfo.contactName || 'Unknown'} | Company: ${leadInfo.companyName || 'Unknown'} | ${contactInfo} | Location: ${leadInfo.additionalData?.['What local govt area do you stay'] || 'N/A'} | Status: ${leadInfo.additionalData?.['Call comments'] || 'N/A'}
+  // Several leads per model call: the business context is sent once per batch instead of per lead
+  app.post('/api/analyze-leads', analysisLimiter, async (req, res) => {
+    const validationResult = leadsAnalysisSchema.safeParse(req.body);
 
-Return this exact JSON structure:
-{"score": number, "qualified": boolean, "reasoning": "brief explanation", "qualificationCriteria": ["key factors"]}`;
+    if (!validationResult.success) {
+      return res.status(400).json({ 
+        error: 'Invalid request data',
+        details: validationResult.error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message
+        }))
+      });
+    }
 
-      // AI analysis with timeout and retry logic
-      let response;
-      let attempts = 0;
-      const maxAttempts = 3; // Increased retry attempts for better reliability
-      
-      while (attempts < maxAttempts) {
-        try {
-          response = await Promise.race([
-            openai.chat.completions.create({
-              model: "gpt-3.5-turbo", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-              messages: [
-                {
-                  role: "system",
-                  content: "You are a lead qualification expert. Analyze leads quickly and return only valid JSON."
-                },
-                {
-                  role: "user",
-                  content: prompt
-                }
-              ],
-              temperature: 0.7,
-              max_tokens: 120
-            }),
-            new Promise<never>((_, reject) => 
-              setTimeout(() => reject(new Error('AI request timeout')), 10000)
-            )
-          ]) as any;
-          break; // Success, exit retry loop
-        } catch (error) {
-          attempts++;
-          console.warn(`AI request attempt ${attempts} failed:`, error);
-          if (attempts >= maxAttempts) {
-            throw error; // Final attempt failed
-          }
-          // Brief delay before retry
-          await new Promise(resolve => setTimeout(resolve, 500));
-        }
+    try {
+      const { leads, businessSetup, provider, rubric, ruleSet } = validationResult.data;
+      const modelError = unsupportedModelError(provider);
+      if (modelError) {
+        return res.status(400).json({ error: modelError });
       }
 
-      // Parse and validate AI response
-      let analysis;
-      try {
-        const content = response.choices[0]?.message?.content;
-        if (!content) {
-          throw new Error('Empty AI response');
-        }
-        analysis = JSON.parse(content);
-      } catch (parseError) {
-        console.error('Failed to parse AI response:', parseError);
-        throw new Error('Invalid AI response format');
+      const limitError = await spendLimitError(provider);
+      if (limitError) {
+        return res.status(limitError.status).json({ error: limitError.error });
       }
-      
-      // Validate and sanitize the response with comprehensive checks
-      const score = typeof analysis.score === 'number' 
-        ? Math.max(0, Math.min(100, Math.round(analysis.score)))
-        : 50;
-      
-      const qualified = typeof analysis.qualified === 'boolean' 
-        ? analysis.qualified 
-        : score >= 60;
-        
-      const reasoning = typeof analysis.reasoning === 'string' && analysis.reasoning.trim()
-        ? analysis.reasoning.trim().substring(0, 500) // Limit reasoning length
-        : "AI analysis completed successfully.";
-        
-      const qualificationCriteria = Array.isArray(analysis.qualificationCriteria) 
-        ? analysis.qualificationCriteria
-            .filter((c: any) => typeof c === 'string' && c.trim())
-            .slice(0, 5)
-            .map((c: string) => c.trim())
-        : [];
-
-      const processingTime = Date.now() - startTime;
-      
-      // Log successful analysis for monitoring
-      console.log(`Lead ${lead.id} analyzed successfully in ${processingTime}ms - Score: ${score}, Qualified: ${qualified}`);
-      
+
+      const startTime = Date.now();
+      const analyses = await analyzeLeads(leads.map(annotateLead), businessSetup, provider, rubric, ruleSet);
+      await recordSpend(analyses);
+
       res.json({
-        success: true,
-        score,
-        qualified,
-        reasoning,
-        qualificationCriteria,
-        processingTime
+        results: analyses.map((analysis, index) => ({
+          leadId: leads[index].id,
+          score: analysis.score,
+          qualified: analysis.qualified,
+          reasoning: analysis.reasoning,
+          qualificationCriteria: analysis.qualificationCriteria,
+          scoringMethod: analysis.scoringMethod,
+          criterionScores: analysis.criterionScores
+        })),
+        processingTime: Date.now() - startTime
+      });
+    } catch (error) {
+      Logger.error('Failed to analyze leads', error);
+      res.status(500).json({ error: 'Failed to process lead analysis' });
+    }
+  });
+
+  // Drafts an editable weighted rubric from the business brief, used to score a whole run
+  app.post(['/api/rubric', '/api/v1/rubrics'], analysisLimiter, async (req, res) => {
+    const validationResult = rubricRequestSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({ 
+        error: 'Invalid request data',
+        details: validationResult.error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message
+        }))
       });
+    }
+
+    try {
+      const { businessSetup, provider } = validationResult.data;
+      const modelError = unsupportedModelError(provider);
+      if (modelError) {
+        return res.status(400).json({ error: modelError });
+      }
+
+      const limitError = await spendLimitError(provider);
+      if (limitError) {
+        return res.status(limitError.status).json({ error: limitError.error });
+      }
 
+      const generation = await generateRubric(businessSetup, provider);
+      await recordSpend([generation]);
+      res.json(generation);
     } catch (error) {
-      console.error('Error analyzing lead:', error);
-      
-      // Enhanced fallback scoring with better error handling
-      try {
-        const { lead } = req.body;
-        if (!lead) {
-          return res.status(500).json({ 
-            error: 'Failed to process lead - no lead data available' 
-          });
-        }
-        
-        let fallbackScore = 50;
-        const fallbackCriteria: string[] = [];
-        
-        // Safe scoring with null checks
-        if (lead.industry && lead.industry.toLowerCase().includes('tech')) {
-          fallbackScore += 10;
-          fallbackCriteria.push('Tech industry');
-        }
-        if (lead.companySize && lead.companySize.toLowerCase().includes('enterprise')) {
-          fallbackScore += 15;
-          fallbackCriteria.push('Enterprise size');
-        }
-        if (lead.title && (lead.title.toLowerCase().includes('ceo') || lead.title.toLowerCase().includes('founder'))) {
-          fallbackScore += 20;
-          fallbackCriteria.push('Executive contact');
-        }
-        if (lead.phone || lead.email) {
-          fallbackScore += 5;
-          fallbackCriteria.push('Contact info available');
+      Logger.error('Failed to generate rubric', error);
+      res.status(500).json({ error: 'Failed to generate rubric' });
+    }
+  });
+
+  // Batch analysis: the whole lead list is qualified server-side by the job queue
+  app.post(['/api/jobs', '/api/v1/jobs'], jobLimiter, async (req, res) => {
+    const validationResult = jobRequestSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({ 
+        error: 'Invalid request data',
+        details: validationResult.error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message
+        }))
+      });
+    }
+
+    try {
+      const { leads, businessSetup, provider, campaignId, rubric, ruleSet, scoringThreshold, fileName, budget } = validationResult.data;
+      const modelError = unsupportedModelError(provider);
+      if (modelError) {
+        return res.status(400).json({ error: modelError });
+      }
+
+      const scoringProvider = getScoringProvider(provider);
+      const priceError = unpricedModelError(scoringProvider.name, scoringProvider.model, capBudget(budget));
+      if (priceError) {
+        return res.status(400).json({ error: priceError });
+      }
+
+      const limitError = await dailyLimitError();
+      if (limitError) {
+        return res.status(429).json({ error: limitError });
+      }
+
+      const campaign = campaignId ? inWorkspace(req, await storage.getCampaign(campaignId)) : undefined;
+      if (campaignId && !campaign) {
+        return res.status(404).json({ error: 'Campaign not found' });
+      }
+
+      // What the request leaves out comes from the campaign's saved settings
+      const jobRubric = rubric ?? campaign?.rubric ?? undefined;
+      const job = await submitJob(workspaceId(req), leads, businessSetup, {
+        provider,
+        campaignId,
+        scoringThreshold: scoringThreshold ?? jobRubric?.threshold ?? campaign?.scoringThreshold,
+        rubric: jobRubric,
+        ruleSet: ruleSet ?? campaign?.ruleSet ?? undefined,
+        fileName,
+        budget
+      });
+
+      Logger.info(`Analysis job ${job.id} queued`, { leads: leads.length });
+      res.status(202).json(await getJobView(job));
+    } catch (error) {
+      Logger.error('Failed to create analysis job', error);
+      res.status(500).json({ error: 'Failed to start lead analysis' });
+    }
+  });
+
+  // What a job over the list is expected to cost, from the prompt size of a sample of its leads
+  app.post(['/api/jobs/estimate', '/api/v1/jobs/estimate'], analysisLimiter, async (req, res) => {
+    const validationResult = costEstimateRequestSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({ 
+        error: 'Invalid request data',
+        details: validationResult.error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message
+        }))
+      });
+    }
+
+    try {
+      const { leads, leadCount, businessSetup, provider, rubric } = validationResult.data;
+      const modelError = unsupportedModelError(provider);
+      if (modelError) {
+        return res.status(400).json({ error: modelError });
+      }
+
+      res.json(await estimateCost(leads, leadCount, businessSetup, provider, rubric));
+    } catch (error) {
+      Logger.error('Failed to estimate analysis cost', error);
+      res.status(500).json({ error: 'Failed to estimate analysis cost' });
+    }
+  });
+
+  // Past and running analyses, newest first, without their results
+  app.get(['/api/jobs', '/api/v1/jobs'], async (req, res) => {
+    const validationResult = jobListQuerySchema.safeParse(req.query);
+
+    if (!validationResult.success) {
+      return res.status(400).json({ error: 'Invalid query parameters' });
+    }
+
+    try {
+      res.json(await listJobSummaries(workspaceId(req), validationResult.data));
+    } catch (error) {
+      Logger.error('Failed to list analysis jobs', error);
+      res.status(500).json({ error: 'Failed to load analyses' });
+    }
+  });
+
+  app.get(['/api/jobs/:id', '/api/v1/jobs/:id'], async (req, res) => {
+    try {
+      const job = inWorkspace(req, await storage.getJob(req.params.id));
+
+      if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+
+      res.json(await getJobView(job));
+    } catch (error) {
+      Logger.error(`Failed to load analysis job ${req.params.id}`, error);
+      res.status(500).json({ error: 'Failed to load job status' });
+    }
+  });
+
+  // Streams a job's results, progress and status as Server-Sent Events until it stops.
+  // Reconnects with Last-Event-ID get the events they missed, or a snapshot if those are gone.
+  app.get(['/api/jobs/:id/events', '/api/v1/jobs/:id/events'], async (req, res) => {
+    const jobId = req.params.id;
+    let unsubscribe: (() => void) | undefined;
+    let heartbeat: NodeJS.Timeout | undefined;
+    const close = () => {
+      unsubscribe?.();
+      clearInterval(heartbeat);
+    };
+
+    try {
+      const job = inWorkspace(req, await storage.getJob(jobId));
+
+      if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        // Stops proxies from holding events back
+        'X-Accel-Buffering': 'no'
+      });
+      res.write('retry: 3000\n\n');
+
+      let lastSent = -1;
+      let ready = false;
+      const missed: JobEvent[] = [];
+      const send = (logged: JobEvent) => {
+        if (logged.seq <= lastSent || res.writableEnded) return;
+        lastSent = logged.seq;
+        res.write(`id: ${logged.id}\nevent: ${logged.event.type}\ndata: ${JSON.stringify(logged.event)}\n\n`);
+        if (logged.event.type !== 'results' && stoppedJobStatuses.includes(logged.event.status)) {
+          close();
+          res.end();
         }
-        
-        const qualified = fallbackScore >= 60;
-        
-        res.json({
-          score: Math.max(0, Math.min(100, fallbackScore)),
-          qualified,
-          reasoning: "AI analysis temporarily unavailable. Score based on lead qualification rules.",
-          qualificationCriteria: fallbackCriteria
+      };
+
+      // Events published while the backlog is read are sent after it, so none are lost
+      unsubscribe = subscribeToJob(jobId, logged => ready ? send(logged) : missed.push(logged));
+      req.on('close', close);
+      heartbeat = setInterval(() => res.write(': heartbeat\n\n'), 15000);
+
+      const replay = jobEventsSince(jobId, req.header('Last-Event-ID'));
+      if (replay) {
+        replay.forEach(send);
+      } else {
+        // The snapshot may repeat leads of events published while it is read; clients keep leads by id
+        const seq = latestJobEventSeq(jobId);
+        const current = (await storage.getJob(jobId)) ?? job;
+        send({
+          id: jobEventId(seq),
+          seq,
+          event: {
+            type: 'snapshot',
+            results: await storage.listProcessedLeads(jobId),
+            progress: current.progress,
+            stats: current.stats,
+            status: current.status,
+            pauseReason: current.pauseReason,
+            error: current.error
+          }
         });
-        
-      } catch (fallbackError) {
-        console.error('Error in fallback scoring:', fallbackError);
-        res.status(500).json({ 
-          error: 'Failed to process lead analysis',
-          score: 25,
-          qualified: false,
-          reasoning: 'Processing error occurred. Please try again.',
-          qualificationCriteria: []
+      }
+
+      ready = true;
+      missed.forEach(send);
+    } catch (error) {
+      close();
+      Logger.error(`Failed to stream events of analysis job ${jobId}`, error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: 'Failed to stream job events' });
+      } else {
+        res.end();
+      }
+    }
+  });
+
+  // Stops a job after the requests in flight, keeping its place so it can be resumed
+  app.post(['/api/jobs/:id/pause', '/api/v1/jobs/:id/pause'], async (req, res) => {
+    try {
+      const job = inWorkspace(req, await storage.getJob(req.params.id));
+
+      if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+
+      if (!(await pauseJob(job.id))) {
+        return res.status(409).json({ error: 'Job is not running' });
+      }
+
+      Logger.info(`Pause requested for analysis job ${job.id}`);
+      res.status(202).json(await getJobView((await storage.getJob(job.id)) ?? job));
+    } catch (error) {
+      Logger.error(`Failed to pause analysis job ${req.params.id}`, error);
+      res.status(500).json({ error: 'Failed to pause analysis' });
+    }
+  });
+
+  // Stops a job for good; the leads it has scored are kept
+  app.post(['/api/jobs/:id/cancel', '/api/v1/jobs/:id/cancel'], async (req, res) => {
+    try {
+      const job = inWorkspace(req, await storage.getJob(req.params.id));
+
+      if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+
+      if (!(await cancelJob(job))) {
+        return res.status(409).json({ error: 'Job has already finished' });
+      }
+
+      Logger.info(`Cancel requested for analysis job ${job.id}`);
+      res.status(202).json(await getJobView((await storage.getJob(job.id)) ?? job));
+    } catch (error) {
+      Logger.error(`Failed to cancel analysis job ${req.params.id}`, error);
+      res.status(500).json({ error: 'Failed to cancel analysis' });
+    }
+  });
+
+  // Continues a paused job; one paused by its budget usually needs a raised budget
+  app.post(['/api/jobs/:id/resume', '/api/v1/jobs/:id/resume'], async (req, res) => {
+    const validationResult = jobResumeSchema.safeParse(req.body ?? {});
+
+    if (!validationResult.success) {
+      return res.status(400).json({ 
+        error: 'Invalid request data',
+        details: validationResult.error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message
+        }))
+      });
+    }
+
+    try {
+      const job = inWorkspace(req, await storage.getJob(req.params.id));
+
+      if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+
+      if (job.status !== 'paused') {
+        return res.status(409).json({ error: 'Job is not paused' });
+      }
+
+      const { budget } = validationResult.data;
+      const spent = job.stats.estimatedCost ?? 0;
+      const nextBudget = capBudget(budget === undefined ? job.budget : budget);
+      if (job.pauseReason === 'budget' && nextBudget !== null && nextBudget <= spent) {
+        return res.status(400).json({
+          error: nextBudget === RUN_SPEND_LIMIT
+            ? `This run has reached the per-run spend limit of $${RUN_SPEND_LIMIT.toFixed(2)}`
+            : `Raise the budget above the $${spent.toFixed(2)} already spent to continue`
         });
       }
+
+      const scoringProvider = getScoringProvider(job.provider ?? undefined);
+      const priceError = unpricedModelError(scoringProvider.name, scoringProvider.model, nextBudget);
+      if (priceError) {
+        return res.status(400).json({ error: priceError });
+      }
+
+      const limitError = await dailyLimitError();
+      if (limitError) {
+        return res.status(429).json({ error: limitError });
+      }
+
+      const resumed = await resumeJob(job, budget);
+      Logger.info(`Analysis job ${job.id} resumed`, { budget: resumed?.budget });
+      res.json(await getJobView(resumed ?? job));
+    } catch (error) {
+      Logger.error(`Failed to resume analysis job ${req.params.id}`, error);
+      res.status(500).json({ error: 'Failed to resume analysis' });
+    }
+  });
+
+  // Deletes the job together with the lead list it analyzed
+  app.delete(['/api/jobs/:id', '/api/v1/jobs/:id'], async (req, res) => {
+    try {
+      const job = inWorkspace(req, await storage.getJob(req.params.id));
+
+      if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
+
+      if (job.status === 'queued' || job.status === 'running') {
+        return res.status(409).json({ error: 'Job is still running' });
+      }
+
+      await storage.deleteUpload(job.uploadId);
+      res.status(204).end();
+    } catch (error) {
+      Logger.error(`Failed to delete analysis job ${req.params.id}`, error);
+      res.status(500).json({ error: 'Failed to delete analysis' });
+    }
+  });
+
+  // Saved campaigns: the business brief, goals and threshold reused across runs
+  app.get(['/api/campaigns', '/api/v1/campaigns'], async (req, res) => {
+    try {
+      res.json(await storage.listCampaigns(workspaceId(req)));
+    } catch (error) {
+      Logger.error('Failed to list campaigns', error);
+      res.status(500).json({ error: 'Failed to load campaigns' });
+    }
+  });
+
+  app.post(['/api/campaigns', '/api/v1/campaigns'], async (req, res) => {
+    const validationResult = insertCampaignSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({ 
+        error: 'Invalid campaign data',
+        details: validationResult.error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message
+        }))
+      });
     }
+
+    try {
+      res.status(201).json(await storage.createCampaign({ ...validationResult.data, workspaceId: workspaceId(req) }));
+    } catch (error) {
+      Logger.error('Failed to create campaign', error);
+      res.status(500).json({ error: 'Failed to save campaign' });
+    }
+  });
+
+  // A campaign together with the history of runs made against it
+  app.get(['/api/campaigns/:id', '/api/v1/campaigns/:id'], async (req, res) => {
+    try {
+      const campaign = inWorkspace(req, await storage.getCampaign(req.params.id));
+
+      if (!campaign) {
+        return res.status(404).json({ error: 'Campaign not found' });
+      }
+
+      const result: CampaignWithRuns = { ...campaign, runs: await listJobSummaries(campaign.workspaceId, { campaignId: campaign.id }) };
+      res.json(result);
+    } catch (error) {
+      Logger.error(`Failed to load campaign ${req.params.id}`, error);
+      res.status(500).json({ error: 'Failed to load campaign' });
+    }
+  });
+
+  app.patch(['/api/campaigns/:id', '/api/v1/campaigns/:id'], async (req, res) => {
+    const validationResult = insertCampaignSchema.partial().safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({ 
+        error: 'Invalid campaign data',
+        details: validationResult.error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message
+        }))
+      });
+    }
+
+    try {
+      const campaign = inWorkspace(req, await storage.getCampaign(req.params.id));
+
+      if (!campaign) {
+        return res.status(404).json({ error: 'Campaign not found' });
+      }
+
+      res.json(await storage.updateCampaign(campaign.id, validationResult.data));
+    } catch (error) {
+      Logger.error(`Failed to update campaign ${req.params.id}`, error);
+      res.status(500).json({ error: 'Failed to update campaign' });
+    }
+  });
+
+  // Runs are kept and simply become unassigned
+  app.delete(['/api/campaigns/:id', '/api/v1/campaigns/:id'], async (req, res) => {
+    try {
+      const campaign = inWorkspace(req, await storage.getCampaign(req.params.id));
+
+      if (!campaign || !(await storage.deleteCampaign(campaign.id))) {
+        return res.status(404).json({ error: 'Campaign not found' });
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      Logger.error(`Failed to delete campaign ${req.params.id}`, error);
+      res.status(500).json({ error: 'Failed to delete campaign' });
+    }
+  });
+
+  // Every scored lead from every run of the campaign, oldest run first
+  app.get(['/api/campaigns/:id/leads', '/api/v1/campaigns/:id/leads'], async (req, res) => {
+    try {
+      const campaign = inWorkspace(req, await storage.getCampaign(req.params.id));
+
+      if (!campaign) {
+        return res.status(404).json({ error: 'Campaign not found' });
+      }
+
+      res.json(await storage.listProcessedLeadsByCampaign(campaign.id));
+    } catch (error) {
+      Logger.error(`Failed to load leads for campaign ${req.params.id}`, error);
+      res.status(500).json({ error: 'Failed to load campaign leads' });
+    }
+  });
+
+  // Saved column mappings; look one up with the headerSignature() of an uploaded file
+  app.get('/api/mapping-templates', async (req, res) => {
+    const validationResult = mappingTemplateQuerySchema.safeParse(req.query);
+
+    if (!validationResult.success) {
+      return res.status(400).json({ error: 'Invalid query parameters' });
+    }
+
+    try {
+      res.json(await storage.listMappingTemplates(workspaceId(req), validationResult.data.signature));
+    } catch (error) {
+      Logger.error('Failed to list mapping templates', error);
+      res.status(500).json({ error: 'Failed to load mapping templates' });
+    }
+  });
+
+  app.post('/api/mapping-templates', async (req, res) => {
+    const validationResult = insertMappingTemplateSchema
+      .refine(template => template.headers.every(header => header in template.mapping), {
+        message: 'Every header needs a mapping',
+        path: ['mapping']
+      })
+      .safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({ 
+        error: 'Invalid mapping template',
+        details: validationResult.error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message
+        }))
+      });
+    }
+
+    try {
+      const { name, headers, mapping } = validationResult.data;
+      res.status(201).json(await storage.saveMappingTemplate({ workspaceId: workspaceId(req), name, signature: headerSignature(headers), mapping }));
+    } catch (error) {
+      Logger.error('Failed to save mapping template', error);
+      res.status(500).json({ error: 'Failed to save mapping template' });
+    }
+  });
+
+  app.delete('/api/mapping-templates/:id', async (req, res) => {
+    try {
+      const template = inWorkspace(req, await storage.getMappingTemplate(req.params.id));
+
+      if (!template || !(await storage.deleteMappingTemplate(template.id))) {
+        return res.status(404).json({ error: 'Mapping template not found' });
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      Logger.error(`Failed to delete mapping template ${req.params.id}`, error);
+      res.status(500).json({ error: 'Failed to delete mapping template' });
+    }
+  });
+
+  // Field mappings saved for CRM exports; CRMs without one export with the default columns
+  app.get('/api/crm-mappings', async (req, res) => {
+    try {
+      res.json(await storage.listCrmExportMappings(workspaceId(req)));
+    } catch (error) {
+      Logger.error('Failed to list CRM mappings', error);
+      res.status(500).json({ error: 'Failed to load CRM mappings' });
+    }
+  });
+
+  app.put('/api/crm-mappings/:crm', async (req, res) => {
+    const crm = z.enum(crmProfileIds).safeParse(req.params.crm);
+    if (!crm.success) {
+      return res.status(404).json({ error: 'Unknown CRM' });
+    }
+
+    const validationResult = crmExportMappingSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({ 
+        error: 'Invalid CRM mapping',
+        details: validationResult.error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message
+        }))
+      });
+    }
+
+    // A mapping the CRM would reject is not worth keeping; warnings only need setup in the CRM
+    const errors = checkCrmMapping(crm.data, validationResult.data).filter(issue => issue.level === 'error');
+    if (errors.length > 0) {
+      return res.status(400).json({
+        error: 'Invalid CRM mapping',
+        details: errors.map(issue => ({ field: 'columns', message: issue.message }))
+      });
+    }
+
+    try {
+      res.json(await storage.saveCrmExportMapping({ workspaceId: workspaceId(req), crm: crm.data, mapping: validationResult.data }));
+    } catch (error) {
+      Logger.error(`Failed to save ${crm.data} mapping`, error);
+      res.status(500).json({ error: 'Failed to save CRM mapping' });
+    }
+  });
+
+  // Goes back to the CRM's default columns
+  app.delete('/api/crm-mappings/:crm', async (req, res) => {
+    const crm = z.enum(crmProfileIds).safeParse(req.params.crm);
+
+    try {
+      if (!crm.success || !(await storage.deleteCrmExportMapping(workspaceId(req), crm.data))) {
+        return res.status(404).json({ error: 'CRM mapping not found' });
+      }
+      res.status(204).end();
+    } catch (error) {
+      Logger.error(`Failed to delete ${req.params.crm} mapping`, error);
+      res.status(500).json({ error: 'Failed to delete CRM mapping' });
+    }
+  });
+
+  // Keys for /api/v1; only admins see and manage them
+  app.get('/api/api-keys', requireRole('admin'), async (req, res) => {
+    try {
+      res.json((await storage.listApiKeys(workspaceId(req))).map(toApiKeyView));
+    } catch (error) {
+      Logger.error('Failed to list API keys', error);
+      res.status(500).json({ error: 'Failed to load API keys' });
+    }
+  });
+
+  // The key is in the response once and never again; only its hash is stored
+  app.post('/api/api-keys', requireRole('admin'), async (req, res) => {
+    const validationResult = insertApiKeySchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({ 
+        error: 'Invalid API key data',
+        details: validationResult.error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message
+        }))
+      });
+    }
+
+    try {
+      const { name, role, rateLimit: requestsPerMinute } = validationResult.data;
+      const { key, prefix, keyHash } = generateApiKey();
+      const apiKey = await storage.createApiKey({
+        workspaceId: workspaceId(req),
+        name,
+        role,
+        prefix,
+        keyHash,
+        rateLimit: requestsPerMinute ?? DEFAULT_API_KEY_RATE_LIMIT,
+        createdBy: req.user?.id
+      });
+
+      Logger.info(`API key ${apiKey.id} created`, { workspace: apiKey.workspaceId, role });
+      const created: CreatedApiKey = { ...toApiKeyView(apiKey), key };
+      res.status(201).json(created);
+    } catch (error) {
+      Logger.error('Failed to create API key', error);
+      res.status(500).json({ error: 'Failed to create API key' });
+    }
+  });
+
+  // Revoked keys stay listed, so their last use can still be seen
+  app.delete('/api/api-keys/:id', requireRole('admin'), async (req, res) => {
+    try {
+      const apiKey = inWorkspace(req, await storage.getApiKey(req.params.id));
+
+      if (!apiKey) {
+        return res.status(404).json({ error: 'API key not found' });
+      }
+
+      if (!apiKey.revokedAt) {
+        await storage.updateApiKey(apiKey.id, { revokedAt: new Date() });
+        Logger.info(`API key ${apiKey.id} revoked`);
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      Logger.error(`Failed to revoke API key ${req.params.id}`, error);
+      res.status(500).json({ error: 'Failed to revoke API key' });
+    }
+  });
+
+  // Export survey answers; each user is asked once, whether they answer or skip
+  app.post('/api/feedback', async (req, res) => {
+    const validationResult = feedbackRequestSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({ 
+        error: 'Invalid feedback data',
+        details: validationResult.error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message
+        }))
+      });
+    }
+
+    if (req.user!.surveyedAt) {
+      return res.status(409).json({ error: 'Feedback was already given' });
+    }
+
+    try {
+      const { skipped, timeSaved, willingToPay, priceRange, email, contactConsent, exportInfo } = validationResult.data;
+      const entry = await storage.createFeedback({
+        workspaceId: workspaceId(req),
+        userId: req.user!.id,
+        skipped,
+        timeSaved: skipped ? null : timeSaved,
+        willingToPay: skipped ? null : willingToPay,
+        priceRange: skipped || !willingToPay ? null : priceRange,
+        email: !skipped && contactConsent ? email : null,
+        exportInfo,
+        relayStatus: feedbackRelayEnabled() ? 'pending' : null,
+        nextRelayAt: null
+      });
+      await storage.updateUser(req.user!.id, { surveyedAt: entry.createdAt });
+
+      relayFeedback(entry).catch(error => Logger.error(`Failed to relay feedback ${entry.id}`, error));
+      res.status(201).json(entry);
+    } catch (error) {
+      Logger.error('Failed to store feedback', error);
+      res.status(500).json({ error: 'Failed to store feedback' });
+    }
+  });
+
+  app.get('/api/feedback', requireRole('admin'), async (req, res) => {
+    try {
+      const responses = await storage.listFeedback(workspaceId(req));
+      const report: FeedbackReport = { summary: summarizeFeedback(responses), responses };
+      res.json(report);
+    } catch (error) {
+      Logger.error('Failed to list feedback', error);
+      res.status(500).json({ error: 'Failed to load feedback' });
+    }
+  });
+
+  app.get('/api/webhooks', requireRole('admin'), async (req, res) => {
+    try {
+      res.json(await storage.listWebhooks(workspaceId(req)));
+    } catch (error) {
+      Logger.error('Failed to list webhooks', error);
+      res.status(500).json({ error: 'Failed to load webhooks' });
+    }
+  });
+
+  app.post('/api/webhooks', requireRole('admin'), async (req, res) => {
+    const validationResult = insertWebhookSchema.safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({ 
+        error: 'Invalid webhook data',
+        details: validationResult.error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message
+        }))
+      });
+    }
+
+    try {
+      const urlError = await webhookUrlError(validationResult.data.url);
+      if (urlError) {
+        return res.status(400).json({ error: urlError });
+      }
+
+      const webhook = await storage.createWebhook({
+        ...validationResult.data,
+        workspaceId: workspaceId(req),
+        secret: generateWebhookSecret()
+      });
+      Logger.info(`Webhook ${webhook.id} created`, { workspace: webhook.workspaceId, events: webhook.events });
+      res.status(201).json(webhook);
+    } catch (error) {
+      Logger.error('Failed to create webhook', error);
+      res.status(500).json({ error: 'Failed to create webhook' });
+    }
+  });
+
+  app.patch('/api/webhooks/:id', requireRole('admin'), async (req, res) => {
+    const validationResult = insertWebhookSchema.partial().safeParse(req.body);
+
+    if (!validationResult.success) {
+      return res.status(400).json({ 
+        error: 'Invalid webhook data',
+        details: validationResult.error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message
+        }))
+      });
+    }
+
+    try {
+      if (!inWorkspace(req, await storage.getWebhook(req.params.id))) {
+        return res.status(404).json({ error: 'Webhook not found' });
+      }
+
+      const urlError = validationResult.data.url ? await webhookUrlError(validationResult.data.url) : undefined;
+      if (urlError) {
+        return res.status(400).json({ error: urlError });
+      }
+      res.json(await storage.updateWebhook(req.params.id, validationResult.data));
+    } catch (error) {
+      Logger.error(`Failed to update webhook ${req.params.id}`, error);
+      res.status(500).json({ error: 'Failed to update webhook' });
+    }
+  });
+
+  app.delete('/api/webhooks/:id', requireRole('admin'), async (req, res) => {
+    try {
+      if (!inWorkspace(req, await storage.getWebhook(req.params.id))) {
+        return res.status(404).json({ error: 'Webhook not found' });
+      }
+      await storage.deleteWebhook(req.params.id);
+      res.status(204).end();
+    } catch (error) {
+      Logger.error(`Failed to delete webhook ${req.params.id}`, error);
+      res.status(500).json({ error: 'Failed to delete webhook' });
+    }
+  });
+
+  // Sends a sample event once and answers with how the receiver responded
+  app.post('/api/webhooks/:id/test', requireRole('admin'), async (req, res) => {
+    try {
+      const webhook = inWorkspace(req, await storage.getWebhook(req.params.id));
+
+      if (!webhook) {
+        return res.status(404).json({ error: 'Webhook not found' });
+      }
+      res.json(await sendTestDelivery(webhook));
+    } catch (error) {
+      Logger.error(`Failed to test webhook ${req.params.id}`, error);
+      res.status(500).json({ error: 'Failed to send test delivery' });
+    }
+  });
+
+  app.get('/api/webhooks/:id/deliveries', requireRole('admin'), async (req, res) => {
+    try {
+      if (!inWorkspace(req, await storage.getWebhook(req.params.id))) {
+        return res.status(404).json({ error: 'Webhook not found' });
+      }
+      res.json(await storage.listWebhookDeliveries(req.params.id, WEBHOOK_LOG_LIMIT));
+    } catch (error) {
+      Logger.error(`Failed to list deliveries of webhook ${req.params.id}`, error);
+      res.status(500).json({ error: 'Failed to load webhook deliveries' });
+    }
+  });
+
+  // Queues the delivery's event again, with the same event id so receivers can tell it is a repeat
+  app.post('/api/webhooks/:id/deliveries/:deliveryId/replay', requireRole('admin'), async (req, res) => {
+    try {
+      const webhook = inWorkspace(req, await storage.getWebhook(req.params.id));
+      const delivery = await storage.getWebhookDelivery(req.params.deliveryId);
+
+      if (!webhook || delivery?.webhookId !== webhook.id) {
+        return res.status(404).json({ error: 'Webhook delivery not found' });
+      }
+      res.status(202).json(await replayDelivery(delivery));
+    } catch (error) {
+      Logger.error(`Failed to replay webhook delivery ${req.params.deliveryId}`, error);
+      res.status(500).json({ error: 'Failed to replay webhook delivery' });
+    }
+  });
+
+  // Unknown /api/v1 routes answer in JSON rather than with the app's HTML
+  app.use('/api/v1', (_req, res) => {
+    res.status(404).json({ error: 'Not found' });
   });
 
   const httpServer = createServer(app);
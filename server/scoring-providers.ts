@@ -0,0 +1,922 @@
+import OpenAI from "openai";
+import { z } from "zod";
+import {
+  leadScoreResponseSchema,
+  rubricSchema,
+  rubricScoreResponseSchema,
+  type BusinessSetup,
+  type CriterionScore,
+  type Lead,
+  type Rubric,
+  type RubricScoreResponse,
+  type RuleSet,
+  type ScoringMethod,
+  type ScoringProviderConfig,
+  type ScoringProviderName,
+  type TokenUsage
+} from "@shared/schema";
+import { DEFAULT_QUALIFICATION_THRESHOLD, DEFAULT_RULE_SET, evaluateRules } from "@shared/rules-engine";
+import { formatEmployeeRange, formatRevenue, normalizeLeadFields } from "@shared/normalize";
+import { checkContact } from "@shared/contact-validation";
+import { extractJson } from "./json-repair";
+import { limiterFor, RateLimitError, rateLimitDelay, retryAfterMs } from "./rate-limiter";
+
+export interface LeadScore {
+  score: number;
+  qualified: boolean;
+  reasoning: string;
+  qualificationCriteria: string[];
+  scoringMethod: ScoringMethod;
+  criterionScores?: CriterionScore[];
+  // The rubric disqualifier that applied; such a lead is never qualified
+  disqualifiedBy?: string;
+}
+
+export type TokenCount = Omit<TokenUsage, 'cost'>;
+
+export interface RequestOptions {
+  // Called for every failed request that is retried, across re-asks
+  onRetry?: (attempt: number) => void;
+  // Called with the tokens of every answered request, including ones whose answer was invalid
+  onUsage?: (tokens: TokenCount) => void;
+  // Called when the provider rate-limits a request, before it is retried after delayMs
+  onRateLimit?: (delayMs: number) => void;
+}
+
+export interface ScoreLeadOptions extends RequestOptions {
+  // Score each criterion of this rubric instead of asking for an overall verdict
+  rubric?: Rubric;
+  // Rules used by rule-based scoring in place of the defaults
+  ruleSet?: RuleSet;
+}
+
+// Anything that can turn a lead plus the business context into a score
+export interface LeadScoringProvider {
+  readonly name: ScoringProviderName;
+  readonly model: string;
+  scoreLead(lead: Lead, businessSetup: BusinessSetup, options?: ScoreLeadOptions): Promise<LeadScore>;
+  // Scores several leads in one request. Leads whose answer was missing or invalid are left
+  // out of the map, so the caller can retry just those; throws when the request itself fails.
+  scoreLeads(leads: Lead[], businessSetup: BusinessSetup, options?: ScoreLeadOptions): Promise<Map<string, LeadScore>>;
+  // Splits leads into groups that each fit one scoreLeads request
+  planBatches(leads: Lead[], businessSetup: BusinessSetup, options?: ScoreLeadOptions): Lead[][];
+  // Tokens that scoring these leads is expected to take, from the size of their prompts
+  estimateUsage(leads: Lead[], businessSetup: BusinessSetup, options?: ScoreLeadOptions): TokenCount & { requests: number };
+  generateRubric(businessSetup: BusinessSetup, options?: RequestOptions): Promise<Rubric>;
+}
+
+interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+interface Completion {
+  content: string | null | undefined;
+  // Not every OpenAI-compatible server reports usage
+  usage?: TokenCount;
+}
+
+type ParsedResponse<T> =
+  | { ok: true; value: T; repaired: boolean }
+  | { ok: false; error: string };
+
+// One kind of JSON answer a provider can be asked for
+interface StructuredOutput<T> {
+  // Tool definition for providers that support function calling
+  tool: { name: string; description: string; input_schema: object };
+  maxTokens: number;
+  parse: (content: string | null | undefined) => ParsedResponse<T>;
+  // The expected shape, repeated to the model when it answers with something invalid
+  format: string;
+}
+
+const SYSTEM_PROMPT = "You are a lead qualification expert. Analyze leads quickly and return only valid JSON.";
+const REQUEST_TIMEOUT_MS = 10000;
+const MAX_ATTEMPTS = 3; // Increased retry attempts for better reliability
+// Rate-limited requests wait and retry rather than fall back, up to this many times
+const MAX_RATE_LIMIT_RETRIES = 8;
+const MAX_REASKS = 2; // Times an invalid answer is sent back to the model with the validation error
+const MAX_TOKENS = 300; // Enough for a full reasoning sentence and criteria list without truncation
+const MAX_TOKENS_PER_CRITERION = 80;
+const MAX_RUBRIC_TOKENS = 800;
+const STRONG_CRITERION_SCORE = 70; // Criteria scored at least this are listed as the lead's key factors
+const MAX_CONTEXT_COLUMNS = 20; // Keeps wide CRM exports from blowing up the prompt
+const MAX_CONTEXT_VALUE_LENGTH = 200;
+
+// Batch sizing: a batch grows until its prompt or expected answer would pass these budgets.
+// SCORING_BATCH_MAX_LEADS=1 sends every lead on its own.
+const MAX_BATCH_LEADS = parseInt(process.env.SCORING_BATCH_MAX_LEADS || '10', 10);
+const BATCH_PROMPT_TOKEN_BUDGET = parseInt(process.env.SCORING_BATCH_PROMPT_TOKENS || '3000', 10);
+const BATCH_OUTPUT_TOKEN_BUDGET = parseInt(process.env.SCORING_BATCH_OUTPUT_TOKENS || '3000', 10);
+const BATCH_TIMEOUT_PER_LEAD_MS = 3000; // On top of REQUEST_TIMEOUT_MS, as answers grow with the batch
+const CHARS_PER_TOKEN = 4; // Rough average for English text, good enough for sizing batches
+const EXPECTED_OUTPUT_SHARE = 0.5; // Typical answers use about half of their token limit
+
+// JSON Schema twin of leadScoreResponseSchema, for providers with function calling
+const LEAD_SCORE_JSON_SCHEMA = {
+  type: "object",
+  properties: {
+    score: { type: "number", minimum: 0, maximum: 100 },
+    qualified: { type: "boolean" },
+    reasoning: { type: "string", description: "brief explanation" },
+    qualificationCriteria: { type: "array", items: { type: "string" }, description: "key factors" }
+  },
+  required: ["score", "qualified", "reasoning", "qualificationCriteria"]
+};
+
+// JSON Schema twin of rubricScoreResponseSchema
+const RUBRIC_SCORE_JSON_SCHEMA = {
+  type: "object",
+  properties: {
+    criterionScores: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          criterionId: { type: "string" },
+          score: { type: "number", minimum: 0, maximum: 100 },
+          reasoning: { type: "string", description: "one short sentence" }
+        },
+        required: ["criterionId", "score", "reasoning"]
+      }
+    },
+    disqualifier: { type: ["string", "null"], description: "the disqualifier that applies, or null" },
+    reasoning: { type: "string", description: "brief overall explanation" }
+  },
+  required: ["criterionScores", "disqualifier", "reasoning"]
+};
+
+// Wraps a per-lead answer schema into a keyed array covering a whole batch
+function batchJsonSchema(leadSchema: { properties: object; required: string[] }) {
+  return {
+    type: "object",
+    properties: {
+      results: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: { lead: { type: "integer", description: "the lead's number" }, ...leadSchema.properties },
+          required: ["lead", ...leadSchema.required]
+        }
+      }
+    },
+    required: ["results"]
+  };
+}
+
+// JSON Schema twin of rubricSchema
+const RUBRIC_JSON_SCHEMA = {
+  type: "object",
+  properties: {
+    criteria: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          id: { type: "string", description: "short snake_case id" },
+          name: { type: "string" },
+          description: { type: "string", description: "what a high-scoring lead looks like" },
+          weight: { type: "number", minimum: 0, maximum: 100 }
+        },
+        required: ["id", "name", "description", "weight"]
+      }
+    },
+    disqualifiers: { type: "array", items: { type: "string" } },
+    threshold: { type: "number", minimum: 0, maximum: 100 }
+  },
+  required: ["criteria", "disqualifiers", "threshold"]
+};
+
+function describeLead(lead: Lead): string {
+  const normalized = lead.normalized ?? normalizeLeadFields(lead);
+  const checks = lead.contactChecks ?? checkContact(lead);
+
+  // Build contact info string with only available data
+  const contactParts = [];
+  if (lead.phone) {
+    const notes = [normalized.country, checks.phoneValid === false && `invalid: ${checks.phoneIssues.join(', ')}`].filter(Boolean);
+    contactParts.push(`Phone: ${normalized.phone ?? lead.phone}${notes.length > 0 ? ` (${notes.join('; ')})` : ''}`);
+  }
+  if (lead.email) {
+    const notes = [normalized.emailType && `${normalized.emailType} address`, ...checks.emailIssues.filter(issue => issue !== 'freeProvider')].filter(Boolean);
+    contactParts.push(`Email: ${lead.email}${notes.length > 0 ? ` (${notes.join('; ')})` : ''}`);
+  }
+  const contactInfo = contactParts.length > 0 ? contactParts.join(' | ') : 'No contact info';
+
+  const parts = [lead.contactName || 'Unknown', `Company: ${lead.companyName || 'Unknown'}`, contactInfo];
+  if (lead.title) parts.push(`Title: ${lead.title}`);
+  if (lead.industry) parts.push(`Industry: ${lead.industry}`);
+  // Raw values are kept alongside the parsed ones, which can lose nuance like "enterprise"
+  if (lead.companySize) parts.push(`Size: ${lead.companySize}${normalized.employees ? ` (${formatEmployeeRange(normalized.employees)} employees)` : ''}`);
+  if (lead.website) parts.push(`Website: ${lead.website}`);
+  else if (normalized.domain) parts.push(`Domain: ${normalized.domain} (from email)`);
+  if (lead.revenue) parts.push(`Revenue: ${lead.revenue}${normalized.revenue ? ` (${formatRevenue(normalized.revenue)})` : ''}`);
+
+  // The columns the user mapped as context for the model
+  Object.entries(lead.additionalData || {})
+    .filter(([, value]) => value !== undefined && value !== null && String(value).trim() !== '')
+    .slice(0, MAX_CONTEXT_COLUMNS)
+    .forEach(([column, value]) => parts.push(`${column}: ${String(value).trim().substring(0, MAX_CONTEXT_VALUE_LENGTH)}`));
+
+  return parts.join(' | ');
+}
+
+function buildLeadPrompt(lead: Lead, businessSetup: BusinessSetup): string {
+  return `Analyze this lead and respond with JSON only.
+
+Business: ${businessSetup.businessDescription}
+Goals: ${businessSetup.campaignGoals}
+
+Lead: ${describeLead(lead)}
+
+Return this exact JSON structure:
+{"score": number, "qualified": boolean, "reasoning": "brief explanation", "qualificationCriteria": ["key factors"]}`;
+}
+
+function describeRubric(rubric: Rubric): string {
+  const criteria = rubric.criteria
+    .map(c => `- ${c.id} (${c.name}, weight ${c.weight}): ${c.description || c.name}`)
+    .join('\n');
+  const disqualifiers = rubric.disqualifiers.length > 0
+    ? rubric.disqualifiers.map(d => `- ${d}`).join('\n')
+    : '- none';
+
+  return `Criteria:
+${criteria}
+
+Disqualifiers:
+${disqualifiers}`;
+}
+
+function buildRubricLeadPrompt(lead: Lead, businessSetup: BusinessSetup, rubric: Rubric): string {
+  return `Score this lead against each rubric criterion and respond with JSON only.
+
+Business: ${businessSetup.businessDescription}
+Goals: ${businessSetup.campaignGoals}
+
+${describeRubric(rubric)}
+
+Lead: ${describeLead(lead)}
+
+Score every criterion from 0 to 100. If a disqualifier clearly applies, copy it into "disqualifier", otherwise use null.
+Return this exact JSON structure:
+{"criterionScores": [{"criterionId": "criterion id", "score": number, "reasoning": "one short sentence"}], "disqualifier": null, "reasoning": "brief overall explanation"}`;
+}
+
+// The business context and instructions appear once, followed by the numbered leads
+function buildBatchPrompt(leadDescriptions: string[], businessSetup: BusinessSetup, rubric?: Rubric): string {
+  const leads = leadDescriptions.map((description, index) => `[${index + 1}] ${description}`).join('\n');
+
+  if (rubric) {
+    return `Score each of these leads against each rubric criterion and respond with JSON only.
+
+Business: ${businessSetup.businessDescription}
+Goals: ${businessSetup.campaignGoals}
+
+${describeRubric(rubric)}
+
+Leads:
+${leads}
+
+Score every criterion from 0 to 100 for every lead. If a disqualifier clearly applies to a lead, copy it into its "disqualifier", otherwise use null.
+Return one result per lead, numbered as above, in this exact JSON structure:
+{"results": [{"lead": number, "criterionScores": [{"criterionId": "criterion id", "score": number, "reasoning": "one short sentence"}], "disqualifier": null, "reasoning": "brief overall explanation"}]}`;
+  }
+
+  return `Analyze each of these leads and respond with JSON only.
+
+Business: ${businessSetup.businessDescription}
+Goals: ${businessSetup.campaignGoals}
+
+Leads:
+${leads}
+
+Return one result per lead, numbered as above, in this exact JSON structure:
+{"results": [{"lead": number, "score": number, "qualified": boolean, "reasoning": "brief explanation", "qualificationCriteria": ["key factors"]}]}`;
+}
+
+const estimateTokens = (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+function buildRubricPrompt(businessSetup: BusinessSetup): string {
+  return `Create a lead qualification rubric for this business and respond with JSON only.
+
+Business: ${businessSetup.businessDescription}
+Goals: ${businessSetup.campaignGoals}
+
+Use 3 to 6 criteria that can be judged from a lead's company, contact details and notes. Weights are relative importance and should add up to 100. Disqualifiers are hard knock-outs, at most 5. The threshold is the weighted score from 0 to 100 a lead needs to be qualified.
+
+Return this exact JSON structure:
+{"criteria": [{"id": "short_snake_case_id", "name": "short name", "description": "what a high-scoring lead looks like", "weight": number}], "disqualifiers": ["hard knock-out"], "threshold": number}`;
+}
+
+// Validate a model response against a schema, repairing fences and truncation
+function parseResponse<T>(content: string | null | undefined, schema: z.ZodType<T, z.ZodTypeDef, unknown>): ParsedResponse<T> {
+  if (!content) {
+    return { ok: false, error: 'The response was empty.' };
+  }
+
+  let extracted;
+  try {
+    extracted = extractJson(content);
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : 'The response was not valid JSON.' };
+  }
+
+  return validateValue(extracted.value, schema, extracted.repaired);
+}
+
+function validateValue<T>(value: unknown, schema: z.ZodType<T, z.ZodTypeDef, unknown>, repaired: boolean): ParsedResponse<T> {
+  const validation = schema.safeParse(value);
+  if (!validation.success) {
+    return {
+      ok: false,
+      error: validation.error.issues.map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`).join('; ')
+    };
+  }
+
+  return { ok: true, value: validation.data, repaired };
+}
+
+const LEAD_SCORE_OUTPUT: StructuredOutput<Omit<LeadScore, 'scoringMethod'>> = {
+  tool: {
+    name: "record_lead_score",
+    description: "Record the qualification score for this lead",
+    input_schema: LEAD_SCORE_JSON_SCHEMA
+  },
+  maxTokens: MAX_TOKENS,
+  format: '{"score": number 0-100, "qualified": boolean, "reasoning": string, "qualificationCriteria": string[]}',
+  parse(content) {
+    const parsed = parseResponse(content, leadScoreResponseSchema);
+    return parsed.ok ? { ...parsed, value: toLeadScore(parsed.value) } : parsed;
+  }
+};
+
+function toLeadScore(analysis: z.infer<typeof leadScoreResponseSchema>): Omit<LeadScore, 'scoringMethod'> {
+  return {
+    score: Math.round(analysis.score),
+    qualified: analysis.qualified,
+    reasoning: analysis.reasoning.substring(0, 500), // Limit reasoning length
+    qualificationCriteria: (analysis.qualificationCriteria || [])
+      .map(c => c.trim())
+      .filter(Boolean)
+      .slice(0, 5)
+  };
+}
+
+// Models often write "none" instead of null when nothing applies
+function readDisqualifier(disqualifier: string | null | undefined): string | undefined {
+  const value = disqualifier?.trim();
+  return value && !/^(none|null|n\/a)$/i.test(value) ? value.substring(0, 200) : undefined;
+}
+
+// Weighted average of the criterion scores; a matching disqualifier knocks the lead out
+export function scoreAgainstRubric(rubric: Rubric, response: RubricScoreResponse): Omit<LeadScore, 'scoringMethod'> {
+  const scores = new Map(response.criterionScores.map(s => [s.criterionId, s]));
+  const criterionScores: CriterionScore[] = rubric.criteria.map(criterion => ({
+    criterionId: criterion.id,
+    score: Math.round(scores.get(criterion.id)?.score ?? 0),
+    reasoning: scores.get(criterion.id)?.reasoning?.substring(0, 200)
+  }));
+
+  const totalWeight = rubric.criteria.reduce((sum, c) => sum + c.weight, 0);
+  const weightedScore = Math.round(
+    rubric.criteria.reduce((sum, c, i) => sum + c.weight * criterionScores[i].score, 0) / totalWeight
+  );
+  const disqualifiedBy = readDisqualifier(response.disqualifier);
+
+  return {
+    score: disqualifiedBy ? 0 : weightedScore,
+    qualified: !disqualifiedBy && weightedScore >= rubric.threshold,
+    reasoning: response.reasoning.substring(0, 500),
+    qualificationCriteria: disqualifiedBy
+      ? [`Disqualified: ${disqualifiedBy}`]
+      : rubric.criteria.filter((_, i) => criterionScores[i].score >= STRONG_CRITERION_SCORE).map(c => c.name).slice(0, 5),
+    criterionScores,
+    disqualifiedBy
+  };
+}
+
+// Every criterion has to be scored, or the weighted average would silently skew
+function completeRubricScoresSchema<T extends RubricScoreResponse>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, rubric: Rubric) {
+  return schema.superRefine((response, ctx) => {
+    const scored = new Set(response.criterionScores.map(s => s.criterionId));
+    const missing = rubric.criteria.filter(c => !scored.has(c.id)).map(c => c.id);
+    if (missing.length > 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['criterionScores'], message: `missing scores for ${missing.join(', ')}` });
+    }
+  });
+}
+
+function rubricScoreOutput(rubric: Rubric): StructuredOutput<Omit<LeadScore, 'scoringMethod'>> {
+  const schema = completeRubricScoresSchema(rubricScoreResponseSchema, rubric);
+
+  return {
+    tool: {
+      name: "record_rubric_scores",
+      description: "Record the score of this lead on every rubric criterion",
+      input_schema: RUBRIC_SCORE_JSON_SCHEMA
+    },
+    maxTokens: MAX_TOKENS + MAX_TOKENS_PER_CRITERION * rubric.criteria.length,
+    format: `{"criterionScores": [{"criterionId": one of ${rubric.criteria.map(c => `"${c.id}"`).join(', ')}, "score": number 0-100, "reasoning": string}], "disqualifier": string or null, "reasoning": string}`,
+    parse(content) {
+      const parsed = parseResponse(content, schema);
+      return parsed.ok ? { ...parsed, value: scoreAgainstRubric(rubric, parsed.value) } : parsed;
+    }
+  };
+}
+
+function singleLeadOutput(rubric?: Rubric): StructuredOutput<Omit<LeadScore, 'scoringMethod'>> {
+  return rubric ? rubricScoreOutput(rubric) : LEAD_SCORE_OUTPUT;
+}
+
+// Each lead's answer is validated on its own, so one bad element only costs that lead
+function batchScoreOutput(leadCount: number, rubric?: Rubric): StructuredOutput<Map<number, Omit<LeadScore, 'scoringMethod'>>> {
+  const leadNumber = { lead: z.coerce.number().int().min(1).max(leadCount) };
+  const validateElement = rubric
+    ? (element: unknown, repaired: boolean) => {
+        const parsed = validateValue(element, completeRubricScoresSchema(rubricScoreResponseSchema.extend(leadNumber), rubric), repaired);
+        return parsed.ok ? { ...parsed, value: { lead: parsed.value.lead, score: scoreAgainstRubric(rubric, parsed.value) } } : parsed;
+      }
+    : (element: unknown, repaired: boolean) => {
+        const parsed = validateValue(element, leadScoreResponseSchema.extend(leadNumber), repaired);
+        return parsed.ok ? { ...parsed, value: { lead: parsed.value.lead, score: toLeadScore(parsed.value) } } : parsed;
+      };
+  const single = singleLeadOutput(rubric);
+
+  return {
+    tool: {
+      name: "record_lead_scores",
+      description: "Record the score of every lead in this batch",
+      input_schema: batchJsonSchema(rubric ? RUBRIC_SCORE_JSON_SCHEMA : LEAD_SCORE_JSON_SCHEMA)
+    },
+    maxTokens: single.maxTokens * leadCount,
+    format: `{"results": [{"lead": number, ...${single.format}}]}`,
+    parse(content) {
+      if (!content) {
+        return { ok: false, error: 'The response was empty.' };
+      }
+
+      let extracted;
+      try {
+        extracted = extractJson(content);
+      } catch (error) {
+        return { ok: false, error: error instanceof Error ? error.message : 'The response was not valid JSON.' };
+      }
+
+      // Some models answer with the bare array
+      const body = extracted.value as { results?: unknown } | null;
+      const elements = Array.isArray(body) ? body : body?.results;
+      if (!Array.isArray(elements)) {
+        return { ok: false, error: 'results: Expected an array of lead results' };
+      }
+
+      const scores = new Map<number, Omit<LeadScore, 'scoringMethod'>>();
+      elements.forEach(element => {
+        const parsed = validateElement(element, extracted.repaired);
+        // The first answer for a lead wins if the model repeats one
+        if (parsed.ok && !scores.has(parsed.value.lead)) {
+          scores.set(parsed.value.lead, parsed.value.score);
+        }
+      });
+      return { ok: true, value: scores, repaired: extracted.repaired };
+    }
+  };
+}
+
+const RUBRIC_OUTPUT: StructuredOutput<Rubric> = {
+  tool: {
+    name: "record_rubric",
+    description: "Record the lead qualification rubric",
+    input_schema: RUBRIC_JSON_SCHEMA
+  },
+  maxTokens: MAX_RUBRIC_TOKENS,
+  format: '{"criteria": [{"id": string, "name": string, "description": string, "weight": number 0-100}], "disqualifiers": string[], "threshold": number 0-100}',
+  parse(content) {
+    const parsed = parseResponse(content, rubricSchema.extend({ threshold: z.number().min(0).max(100) }));
+    return parsed.ok ? { ...parsed, value: { ...parsed.value, threshold: Math.round(parsed.value.threshold) } } : parsed;
+  }
+};
+
+// Shared prompt, timeout, retry and re-ask handling for every chat-completion style model
+abstract class ChatScoringProvider implements LeadScoringProvider {
+  abstract readonly name: ScoringProviderName;
+
+  constructor(readonly model: string) {}
+
+  // Implementations should use JSON mode or function calling when the API offers it
+  protected abstract complete(messages: ChatMessage[], output: StructuredOutput<unknown>): Promise<Completion>;
+
+  async scoreLead(lead: Lead, businessSetup: BusinessSetup, options: ScoreLeadOptions = {}): Promise<LeadScore> {
+    const prompt = options.rubric
+      ? buildRubricLeadPrompt(lead, businessSetup, options.rubric)
+      : buildLeadPrompt(lead, businessSetup);
+    const output = singleLeadOutput(options.rubric);
+
+    const result = await this.requestJson(prompt, output, options, `lead ${lead.id}`);
+    return { ...result.value, scoringMethod: result.repaired ? 'repaired' : 'ai' };
+  }
+
+  async scoreLeads(leads: Lead[], businessSetup: BusinessSetup, options: ScoreLeadOptions = {}): Promise<Map<string, LeadScore>> {
+    const output = batchScoreOutput(leads.length, options.rubric);
+    const messages: ChatMessage[] = [
+      { role: "system", content: SYSTEM_PROMPT },
+      { role: "user", content: buildBatchPrompt(leads.map(describeLead), businessSetup, options.rubric) }
+    ];
+
+    // No re-asks here: leads with a bad answer are cheaper to retry on their own
+    const timeoutMs = REQUEST_TIMEOUT_MS + BATCH_TIMEOUT_PER_LEAD_MS * leads.length;
+    const parsed = output.parse(await this.completeWithRetry(messages, output, options, timeoutMs));
+    if (!parsed.ok) {
+      throw new Error(`Invalid AI batch response format: ${parsed.error}`);
+    }
+
+    const scores = new Map<string, LeadScore>();
+    parsed.value.forEach((score, leadNumber) => {
+      scores.set(leads[leadNumber - 1].id, { ...score, scoringMethod: parsed.repaired ? 'repaired' : 'ai' });
+    });
+    if (scores.size < leads.length) {
+      console.warn(`${this.name}/${this.model} answered for ${scores.size} of ${leads.length} leads in a batch`);
+    }
+    return scores;
+  }
+
+  // Packs leads in order until the next one would push the prompt or the expected answer
+  // past its token budget. A lead too large for any batch still gets one of its own.
+  planBatches(leads: Lead[], businessSetup: BusinessSetup, options: ScoreLeadOptions = {}): Lead[][] {
+    const sharedTokens = estimateTokens(buildBatchPrompt([], businessSetup, options.rubric));
+    const outputTokensPerLead = singleLeadOutput(options.rubric).maxTokens;
+    const batches: Lead[][] = [];
+    let current: Lead[] = [];
+    let promptTokens = sharedTokens;
+
+    leads.forEach(lead => {
+      const leadTokens = estimateTokens(describeLead(lead));
+      const full = current.length >= MAX_BATCH_LEADS
+        || promptTokens + leadTokens > BATCH_PROMPT_TOKEN_BUDGET
+        || outputTokensPerLead * (current.length + 1) > BATCH_OUTPUT_TOKEN_BUDGET;
+
+      if (current.length > 0 && full) {
+        batches.push(current);
+        current = [];
+        promptTokens = sharedTokens;
+      }
+      current.push(lead);
+      promptTokens += leadTokens;
+    });
+
+    if (current.length > 0) batches.push(current);
+    return batches;
+  }
+
+  estimateUsage(leads: Lead[], businessSetup: BusinessSetup, options: ScoreLeadOptions = {}) {
+    const batches = this.planBatches(leads, businessSetup, options);
+    const outputTokensPerLead = singleLeadOutput(options.rubric).maxTokens * EXPECTED_OUTPUT_SHARE;
+
+    const inputTokens = batches.reduce((sum, batch) => {
+      const prompt = batch.length === 1
+        ? (options.rubric ? buildRubricLeadPrompt(batch[0], businessSetup, options.rubric) : buildLeadPrompt(batch[0], businessSetup))
+        : buildBatchPrompt(batch.map(describeLead), businessSetup, options.rubric);
+      return sum + estimateTokens(SYSTEM_PROMPT + prompt);
+    }, 0);
+
+    return { inputTokens, outputTokens: Math.round(outputTokensPerLead * leads.length), requests: batches.length };
+  }
+
+  async generateRubric(businessSetup: BusinessSetup, options: RequestOptions = {}): Promise<Rubric> {
+    const result = await this.requestJson(buildRubricPrompt(businessSetup), RUBRIC_OUTPUT, options, 'rubric');
+    return result.value;
+  }
+
+  // Asks for a JSON answer, sending invalid ones back to the model with the validation error
+  private async requestJson<T>(prompt: string, output: StructuredOutput<T>, options: RequestOptions, subject: string) {
+    const messages: ChatMessage[] = [
+      { role: "system", content: SYSTEM_PROMPT },
+      { role: "user", content: prompt }
+    ];
+
+    for (let reasks = 0; ; reasks++) {
+      const content = await this.completeWithRetry(messages, output, options);
+      const parsed = output.parse(content);
+
+      if (parsed.ok) {
+        return { value: parsed.value, repaired: parsed.repaired || reasks > 0 };
+      }
+
+      if (reasks >= MAX_REASKS) {
+        throw new Error(`Invalid AI response format: ${parsed.error}`);
+      }
+
+      console.warn(`Invalid AI response from ${this.name}/${this.model} for ${subject}, re-asking:`, parsed.error);
+      messages.push(
+        { role: "assistant", content: content || '(empty response)' },
+        {
+          role: "user",
+          content: `That response was invalid: ${parsed.error}\nReply again with only the JSON object ${output.format} and nothing else.`
+        }
+      );
+    }
+  }
+
+  private async completeWithRetry(
+    messages: ChatMessage[],
+    output: StructuredOutput<unknown>,
+    options: RequestOptions,
+    timeoutMs: number = REQUEST_TIMEOUT_MS
+  ) {
+    const limiter = limiterFor(this);
+    let attempts = 0;
+    let rateLimits = 0;
+
+    while (true) {
+      try {
+        // The timeout starts once the limiter lets the request through, and is cleared once it
+        // settles so finished requests don't leave timers behind
+        const completion = await limiter.run(async () => {
+          let timer: NodeJS.Timeout | undefined;
+          try {
+            return await Promise.race([
+              this.complete(messages, output),
+              new Promise<never>((_, reject) => {
+                timer = setTimeout(() => reject(new Error('AI request timeout')), timeoutMs);
+              })
+            ]);
+          } finally {
+            clearTimeout(timer);
+          }
+        });
+        limiter.succeeded();
+        if (completion.usage) options.onUsage?.(completion.usage);
+        return completion.content;
+      } catch (error) {
+        if (error instanceof RateLimitError && rateLimits < MAX_RATE_LIMIT_RETRIES) {
+          rateLimits++;
+          const delay = rateLimitDelay(rateLimits, error.retryAfterMs);
+          limiter.rateLimited(error.retryAfterMs);
+          console.warn(`${this.name}/${this.model} rate limited the request, retrying in ${Math.round(delay)}ms with at most ${limiter.limit} in flight`);
+          options.onRetry?.(attempts + rateLimits);
+          options.onRateLimit?.(delay);
+          await new Promise(resolve => setTimeout(resolve, delay));
+          continue;
+        }
+
+        attempts++;
+        console.warn(`AI request attempt ${attempts} (${this.name}/${this.model}) failed:`, error);
+        if (attempts >= MAX_ATTEMPTS) {
+          throw error; // Final attempt failed
+        }
+        options.onRetry?.(attempts);
+        // Brief delay before retry
+        await new Promise(resolve => setTimeout(resolve, 500));
+      }
+    }
+  }
+}
+
+// OpenAI itself, or any server speaking the OpenAI chat API (Ollama, llama.cpp, vLLM)
+export class OpenAIScoringProvider extends ChatScoringProvider {
+  private client: OpenAI;
+  private jsonMode: boolean;
+
+  constructor(
+    readonly name: "openai" | "local",
+    model: string,
+    options: { apiKey?: string; baseURL?: string; jsonMode?: boolean } = {}
+  ) {
+    super(model);
+    this.jsonMode = options.jsonMode ?? true;
+    this.client = new OpenAI({
+      // Local servers generally ignore the key, but the SDK refuses to start without one
+      apiKey: options.apiKey || 'not-needed',
+      baseURL: options.baseURL,
+      // Retries are ours to make, so rate limits slow every job using the model down
+      maxRetries: 0
+    });
+  }
+
+  protected async complete(messages: ChatMessage[], output: StructuredOutput<unknown>) {
+    let response: OpenAI.Chat.Completions.ChatCompletion;
+    try {
+      response = await this.client.chat.completions.create({
+        model: this.model,
+        messages,
+        temperature: 0.7,
+        max_tokens: output.maxTokens,
+        ...(this.jsonMode ? { response_format: { type: "json_object" as const } } : {})
+      });
+    } catch (error) {
+      if (error instanceof OpenAI.RateLimitError) {
+        throw new RateLimitError(error.message, retryAfterMs(name => error.headers?.get(name)));
+      }
+      throw error;
+    }
+    return {
+      content: response.choices[0]?.message?.content,
+      usage: response.usage && { inputTokens: response.usage.prompt_tokens, outputTokens: response.usage.completion_tokens }
+    };
+  }
+}
+
+// The parts of a Messages API response the provider reads. An unexpected content list is
+// treated like a missing answer, so the usual retry applies; usage is kept either way.
+const anthropicContentBlockSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("tool_use"), input: z.unknown() }),
+  z.object({ type: z.literal("text"), text: z.string() })
+]);
+
+const anthropicResponseSchema = z.object({
+  content: z.array(anthropicContentBlockSchema).optional().catch(undefined),
+  usage: z.object({
+    input_tokens: z.number().optional(),
+    output_tokens: z.number().optional()
+  }).optional().catch(undefined)
+});
+
+export class AnthropicScoringProvider extends ChatScoringProvider {
+  readonly name = "anthropic";
+
+  constructor(model: string, private readonly apiKey: string | undefined) {
+    super(model);
+  }
+
+  protected async complete(messages: ChatMessage[], output: StructuredOutput<unknown>) {
+    if (!this.apiKey) {
+      throw new Error('ANTHROPIC_API_KEY is not configured');
+    }
+
+    // The Messages API takes the system prompt separately from the conversation
+    const system = messages.filter(m => m.role === "system").map(m => m.content).join("\n");
+    const response = await fetch('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': '2023-06-01'
+      },
+      body: JSON.stringify({
+        model: this.model,
+        system,
+        messages: messages.filter(m => m.role !== "system"),
+        temperature: 0.7,
+        max_tokens: output.maxTokens,
+        // Forcing the tool call makes the model answer with arguments matching the schema
+        tools: [output.tool],
+        tool_choice: { type: "tool", name: output.tool.name }
+      })
+    });
+
+    if (response.status === 429) {
+      throw new RateLimitError(`Anthropic rate limit: ${await response.text()}`, retryAfterMs(name => response.headers.get(name)));
+    }
+    if (!response.ok) {
+      throw new Error(`Anthropic request failed: ${response.status} - ${await response.text()}`);
+    }
+
+    const body = anthropicResponseSchema.safeParse(await response.json());
+    if (!body.success) {
+      return { content: undefined };
+    }
+
+    const usage = body.data.usage && { inputTokens: body.data.usage.input_tokens ?? 0, outputTokens: body.data.usage.output_tokens ?? 0 };
+    if (!body.data.content) {
+      return { content: undefined, usage };
+    }
+
+    const blocks = body.data.content;
+    const toolUse = blocks.find(block => block.type === 'tool_use');
+    const content = toolUse
+      ? JSON.stringify(toolUse.input)
+      : blocks.filter(block => block.type === 'text').map(block => block.text).join('');
+    return { content, usage };
+  }
+}
+
+// Deterministic rule-based scoring through the shared rules engine: no network, and the
+// same lead and rules always get the same score. A rubric's criteria are free text the
+// rules cannot evaluate, so only its threshold is used here.
+export class OfflineScoringProvider implements LeadScoringProvider {
+  readonly name = "offline";
+  readonly model = "rules-v1";
+
+  // For runs without a model to write one: each rewarding rule becomes a criterion
+  async generateRubric(): Promise<Rubric> {
+    return {
+      criteria: DEFAULT_RULE_SET.rules
+        .filter(rule => rule.weight > 0)
+        .map((rule, index) => ({
+          id: `rule_${index + 1}`,
+          name: rule.label,
+          description: `${rule.field} ${rule.operator} ${rule.value}`.trim(),
+          weight: rule.weight
+        })),
+      disqualifiers: [],
+      threshold: DEFAULT_QUALIFICATION_THRESHOLD
+    };
+  }
+
+  async scoreLead(lead: Lead, _businessSetup?: BusinessSetup, options: ScoreLeadOptions = {}): Promise<LeadScore> {
+    const evaluation = evaluateRules(options.ruleSet ?? DEFAULT_RULE_SET, lead, options.rubric?.threshold);
+
+    return {
+      score: evaluation.score,
+      qualified: evaluation.qualified,
+      reasoning: evaluation.reasoning,
+      qualificationCriteria: evaluation.qualificationCriteria,
+      scoringMethod: 'rules'
+    };
+  }
+
+  async scoreLeads(leads: Lead[], businessSetup: BusinessSetup, options: ScoreLeadOptions = {}): Promise<Map<string, LeadScore>> {
+    const scores = await Promise.all(leads.map(lead => this.scoreLead(lead, businessSetup, options)));
+    return new Map(leads.map((lead, index) => [lead.id, scores[index]]));
+  }
+
+  // Rules cost nothing per lead, so only the batch length limit applies
+  planBatches(leads: Lead[]): Lead[][] {
+    const batches: Lead[][] = [];
+    for (let i = 0; i < leads.length; i += MAX_BATCH_LEADS) {
+      batches.push(leads.slice(i, i + MAX_BATCH_LEADS));
+    }
+    return batches;
+  }
+
+  estimateUsage() {
+    return { inputTokens: 0, outputTokens: 0, requests: 0 };
+  }
+}
+
+const DEFAULT_MODELS: Record<ScoringProviderName, string> = {
+  openai: process.env.OPENAI_MODEL || "gpt-3.5-turbo",
+  local: process.env.LOCAL_LLM_MODEL || "llama3.1",
+  anthropic: process.env.ANTHROPIC_MODEL || "claude-3-5-haiku-latest",
+  offline: "rules-v1"
+};
+
+// Models a request may choose besides the default. OPENAI_MODELS, ANTHROPIC_MODELS and
+// LOCAL_LLM_MODELS replace a provider's list with a comma-separated one.
+const ALLOWED_MODELS: Record<ScoringProviderName, string[]> = {
+  openai: modelList(process.env.OPENAI_MODELS) ?? ["gpt-3.5-turbo", "gpt-4o-mini", "gpt-4o", "gpt-4.1-nano", "gpt-4.1-mini", "gpt-4.1"],
+  local: modelList(process.env.LOCAL_LLM_MODELS) ?? [],
+  anthropic: modelList(process.env.ANTHROPIC_MODELS) ?? ["claude-3-haiku-20240307", "claude-3-5-haiku-latest", "claude-3-5-sonnet-latest"],
+  offline: []
+};
+
+function modelList(value: string | undefined): string[] | undefined {
+  const models = value?.split(',').map(model => model.trim()).filter(Boolean);
+  return models && models.length > 0 ? models : undefined;
+}
+
+// Why a requested model may not be used, if it may not
+export function unsupportedModelError(config?: ScoringProviderConfig): string | undefined {
+  if (!config?.model || config.model === DEFAULT_MODELS[config.name] || ALLOWED_MODELS[config.name].includes(config.model)) {
+    return undefined;
+  }
+  const allowed = [DEFAULT_MODELS[config.name], ...ALLOWED_MODELS[config.name].filter(model => model !== DEFAULT_MODELS[config.name])];
+  return `Model ${config.model} is not available for ${config.name}. Choose one of: ${allowed.join(', ')}`;
+}
+
+const providerCache = new Map<string, LeadScoringProvider>();
+
+// Deployment default, overridable with LEAD_SCORING_PROVIDER
+export function getDefaultProviderConfig(): ScoringProviderConfig {
+  const configured = process.env.LEAD_SCORING_PROVIDER as ScoringProviderName | undefined;
+  return { name: configured && configured in DEFAULT_MODELS ? configured : "openai" };
+}
+
+// Resolves a per-request provider choice (or the deployment default) to a shared instance.
+// Endpoints and keys only ever come from the environment, never from the request, and models
+// from the allowed list.
+export function getScoringProvider(config: ScoringProviderConfig = getDefaultProviderConfig()): LeadScoringProvider {
+  const modelError = unsupportedModelError(config);
+  if (modelError) {
+    throw new Error(modelError);
+  }
+
+  const model = config.model || DEFAULT_MODELS[config.name];
+  const cacheKey = `${config.name}:${model}`;
+
+  let provider = providerCache.get(cacheKey);
+  if (!provider) {
+    switch (config.name) {
+      case "openai":
+        provider = new OpenAIScoringProvider("openai", model, { apiKey: process.env.OPENAI_API_KEY });
+        break;
+      case "local":
+        provider = new OpenAIScoringProvider("local", model, {
+          apiKey: process.env.LOCAL_LLM_API_KEY,
+          baseURL: process.env.LOCAL_LLM_BASE_URL || "http://localhost:11434/v1",
+          // Not every OpenAI-compatible server implements response_format
+          jsonMode: process.env.LOCAL_LLM_JSON_MODE !== "false"
+        });
+        break;
+      case "anthropic":
+        provider = new AnthropicScoringProvider(model, process.env.ANTHROPIC_API_KEY);
+        break;
+      case "offline":
+        provider = new OfflineScoringProvider();
+        break;
+    }
+    providerCache.set(cacheKey, provider);
+  }
+
+  return provider;
+}
@@ -1,42 +1,673 @@
-import { type Lead, type ProcessedLead } from "@shared/schema";
+import {
+  type AnalysisJob,
+  type ApiKey,
+  type Campaign,
+  type CrmExportMappingRecord,
+  type CrmProfileId,
+  type Feedback,
+  type InsertAnalysisJob,
+  type InsertApiKey,
+  type InsertCampaign,
+  type InsertCrmExportMappingRecord,
+  type InsertFeedback,
+  type InsertMappingTemplate,
+  type InsertScoreCacheEntry,
+  type InsertUpload,
+  type InsertUser,
+  type InsertWebhook,
+  type InsertWebhookDelivery,
+  type InsertWorkspaceMember,
+  type Lead,
+  type MappingTemplate,
+  type ProcessedLead,
+  type ScoreCacheEntry,
+  type Upload,
+  type User,
+  type Webhook,
+  type WebhookDelivery,
+  type Workspace,
+  type WorkspaceMember,
+  type WorkspaceMemberView,
+  type WorkspaceMembership,
+  type WorkspaceRole
+} from "@shared/schema";
 import { randomUUID } from "crypto";
+import { db } from "./db";
+import { PgStorage } from "./pg-storage";
 
-// modify the interface with any CRUD methods
-// you might need
+export type ProcessedLeadUpdate = Partial<Pick<ProcessedLead, "score" | "qualified" | "reasoning" | "qualificationCriteria" | "scoringMethod">>;
+
+export type FeedbackRelayUpdate = Partial<Pick<Feedback, "relayStatus" | "relayAttempts" | "nextRelayAt" | "relayedAt" | "relayError">>;
+export type WebhookUpdate = Partial<Pick<Webhook, "url" | "description" | "events" | "active">>;
+export type WebhookDeliveryUpdate = Partial<Pick<WebhookDelivery, "status" | "attempts" | "nextAttemptAt" | "lastAttemptAt" | "responseStatus" | "error">>;
+
+export interface JobFilter {
+  // Left out only by server-side work that spans workspaces, such as resuming jobs on startup
+  workspaceId?: string;
+  campaignId?: string;
+  status?: AnalysisJob["status"][];
+}
 
 export interface IStorage {
-  getLead(id: string): Promise<Lead | undefined>;
-  getProcessedLead(id: string): Promise<ProcessedLead | undefined>;
-  storeLead(lead: Lead): Promise<Lead>;
-  storeProcessedLead(lead: ProcessedLead): Promise<ProcessedLead>;
+  createUser(user: InsertUser): Promise<User>;
+  getUser(id: string): Promise<User | undefined>;
+  // Emails are stored lowercased, so callers pass them lowercased
+  getUserByEmail(email: string): Promise<User | undefined>;
+  updateUser(id: string, updates: Partial<Pick<User, "name" | "surveyedAt">>): Promise<User | undefined>;
+
+  createWorkspace(name: string): Promise<Workspace>;
+  getWorkspace(id: string): Promise<Workspace | undefined>;
+  // Replaces the role of an existing member
+  addWorkspaceMember(member: InsertWorkspaceMember): Promise<WorkspaceMember>;
+  getWorkspaceMember(workspaceId: string, userId: string): Promise<WorkspaceMember | undefined>;
+  listWorkspaceMembers(workspaceId: string): Promise<WorkspaceMemberView[]>;
+  listMemberships(userId: string): Promise<WorkspaceMembership[]>;
+  updateWorkspaceMember(workspaceId: string, userId: string, role: WorkspaceRole): Promise<WorkspaceMember | undefined>;
+  removeWorkspaceMember(workspaceId: string, userId: string): Promise<boolean>;
+
+  createApiKey(key: InsertApiKey): Promise<ApiKey>;
+  getApiKey(id: string): Promise<ApiKey | undefined>;
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined>;
+  listApiKeys(workspaceId: string): Promise<ApiKey[]>;
+  updateApiKey(id: string, updates: Partial<Pick<ApiKey, "lastUsedAt" | "revokedAt">>): Promise<ApiKey | undefined>;
+
+  createWebhook(webhook: InsertWebhook): Promise<Webhook>;
+  getWebhook(id: string): Promise<Webhook | undefined>;
+  listWebhooks(workspaceId: string): Promise<Webhook[]>;
+  updateWebhook(id: string, updates: WebhookUpdate): Promise<Webhook | undefined>;
+  // Deletes the webhook's deliveries with it
+  deleteWebhook(id: string): Promise<boolean>;
+
+  createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery>;
+  getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined>;
+  // Newest first
+  listWebhookDeliveries(webhookId: string, limit: number): Promise<WebhookDelivery[]>;
+  // Pending deliveries whose next attempt is due by the given time, oldest first
+  listDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]>;
+  // When the earliest pending delivery is next due, if any is pending
+  nextWebhookDeliveryAt(): Promise<Date | undefined>;
+  updateWebhookDelivery(id: string, updates: WebhookDeliveryUpdate): Promise<WebhookDelivery | undefined>;
+
+  createFeedback(entry: InsertFeedback): Promise<Feedback>;
+  // Newest first
+  listFeedback(workspaceId: string): Promise<Feedback[]>;
+  // Feedback still waiting to be relayed, across workspaces
+  listPendingFeedbackRelays(): Promise<Feedback[]>;
+  updateFeedbackRelay(id: string, updates: FeedbackRelayUpdate): Promise<Feedback | undefined>;
+
+  createCampaign(campaign: InsertCampaign): Promise<Campaign>;
+  getCampaign(id: string): Promise<Campaign | undefined>;
+  listCampaigns(workspaceId: string): Promise<Campaign[]>;
+  updateCampaign(id: string, updates: Partial<InsertCampaign>): Promise<Campaign | undefined>;
+  deleteCampaign(id: string): Promise<boolean>;
+
+  createUpload(upload: InsertUpload, leads: Lead[]): Promise<Upload>;
+  getUpload(id: string): Promise<Upload | undefined>;
+  listUploads(workspaceId: string, campaignId?: string): Promise<Upload[]>;
+  getUploadLeads(uploadId: string): Promise<Lead[]>;
+  deleteUpload(id: string): Promise<boolean>;
+
+  createJob(job: InsertAnalysisJob): Promise<AnalysisJob>;
+  getJob(id: string): Promise<AnalysisJob | undefined>;
+  listJobs(filter?: JobFilter): Promise<AnalysisJob[]>;
+  updateJob(id: string, updates: Partial<InsertAnalysisJob>): Promise<AnalysisJob | undefined>;
+  deleteJob(id: string): Promise<boolean>;
+
+  storeProcessedLeads(jobId: string, leads: ProcessedLead[]): Promise<void>;
+  listProcessedLeads(jobId: string): Promise<ProcessedLead[]>;
+  listProcessedLeadsByCampaign(campaignId: string): Promise<ProcessedLead[]>;
+  updateProcessedLead(jobId: string, leadId: string, updates: ProcessedLeadUpdate): Promise<ProcessedLead | undefined>;
+  deleteProcessedLead(jobId: string, leadId: string): Promise<boolean>;
+
+  listMappingTemplates(workspaceId: string, signature?: string): Promise<MappingTemplate[]>;
+  getMappingTemplate(id: string): Promise<MappingTemplate | undefined>;
+  // Replaces any template the workspace saved for the same header signature
+  saveMappingTemplate(template: InsertMappingTemplate): Promise<MappingTemplate>;
+  deleteMappingTemplate(id: string): Promise<boolean>;
+
+  listCrmExportMappings(workspaceId: string): Promise<CrmExportMappingRecord[]>;
+  // Replaces the mapping the workspace saved for the same CRM
+  saveCrmExportMapping(record: InsertCrmExportMappingRecord): Promise<CrmExportMappingRecord>;
+  deleteCrmExportMapping(workspaceId: string, crm: CrmProfileId): Promise<boolean>;
+
+  getCachedScores(keys: string[]): Promise<ScoreCacheEntry[]>;
+  // Replaces entries already cached under the same key
+  storeCachedScores(entries: InsertScoreCacheEntry[]): Promise<void>;
+
+  // Estimated USD spent on the given YYYY-MM-DD day
+  getSpend(day: string): Promise<number>;
+  addSpend(day: string, cost: number): Promise<void>;
+}
+
+function memberKey(workspaceId: string, userId: string): string {
+  return `${workspaceId}/${userId}`;
 }
 
 export class MemStorage implements IStorage {
-  private leads: Map<string, Lead>;
-  private processedLeads: Map<string, ProcessedLead>;
+  private users: Map<string, User>;
+  private workspaces: Map<string, Workspace>;
+  private workspaceMembers: Map<string, WorkspaceMember>;
+  private apiKeys: Map<string, ApiKey>;
+  private feedback: Map<string, Feedback>;
+  private webhooks: Map<string, Webhook>;
+  private webhookDeliveries: Map<string, WebhookDelivery>;
+  private campaigns: Map<string, Campaign>;
+  private uploads: Map<string, Upload>;
+  private uploadLeads: Map<string, Lead[]>;
+  private jobs: Map<string, AnalysisJob>;
+  private processedLeads: Map<string, Map<string, ProcessedLead>>;
+  private mappingTemplates: Map<string, MappingTemplate>;
+  private crmExportMappings: Map<string, CrmExportMappingRecord>;
+  private scoreCache: Map<string, ScoreCacheEntry>;
+  private dailySpend: Map<string, number>;
 
   constructor() {
-    this.leads = new Map();
+    this.users = new Map();
+    this.workspaces = new Map();
+    this.workspaceMembers = new Map();
+    this.apiKeys = new Map();
+    this.feedback = new Map();
+    this.webhooks = new Map();
+    this.webhookDeliveries = new Map();
+    this.campaigns = new Map();
+    this.uploads = new Map();
+    this.uploadLeads = new Map();
+    this.jobs = new Map();
     this.processedLeads = new Map();
+    this.mappingTemplates = new Map();
+    this.crmExportMappings = new Map();
+    this.scoreCache = new Map();
+    this.dailySpend = new Map();
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    if (await this.getUserByEmail(user.email)) {
+      throw new Error(`A user with email ${user.email} already exists`);
+    }
+    const created: User = { ...user, id: randomUUID(), name: user.name ?? null, surveyedAt: null, createdAt: new Date() };
+    this.users.set(created.id, created);
+    return created;
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.email === email);
+  }
+
+  async updateUser(id: string, updates: Partial<Pick<User, "name" | "surveyedAt">>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) {
+      return undefined;
+    }
+    const updated: User = { ...user, ...updates };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  async createWorkspace(name: string): Promise<Workspace> {
+    const created: Workspace = { id: randomUUID(), name, createdAt: new Date() };
+    this.workspaces.set(created.id, created);
+    return created;
+  }
+
+  async getWorkspace(id: string): Promise<Workspace | undefined> {
+    return this.workspaces.get(id);
+  }
+
+  async addWorkspaceMember(member: InsertWorkspaceMember): Promise<WorkspaceMember> {
+    const key = memberKey(member.workspaceId, member.userId);
+    const existing = this.workspaceMembers.get(key);
+    const saved: WorkspaceMember = { ...member, createdAt: existing?.createdAt ?? new Date() };
+    this.workspaceMembers.set(key, saved);
+    return saved;
+  }
+
+  async getWorkspaceMember(workspaceId: string, userId: string): Promise<WorkspaceMember | undefined> {
+    return this.workspaceMembers.get(memberKey(workspaceId, userId));
+  }
+
+  async listWorkspaceMembers(workspaceId: string): Promise<WorkspaceMemberView[]> {
+    return Array.from(this.workspaceMembers.values())
+      .filter(member => member.workspaceId === workspaceId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .flatMap(member => {
+        const user = this.users.get(member.userId);
+        return user ? [{ ...member, email: user.email, name: user.name }] : [];
+      });
+  }
+
+  async listMemberships(userId: string): Promise<WorkspaceMembership[]> {
+    return Array.from(this.workspaceMembers.values())
+      .filter(member => member.userId === userId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .flatMap(member => {
+        const workspace = this.workspaces.get(member.workspaceId);
+        return workspace ? [{ ...workspace, role: member.role }] : [];
+      });
+  }
+
+  async updateWorkspaceMember(workspaceId: string, userId: string, role: WorkspaceRole): Promise<WorkspaceMember | undefined> {
+    const key = memberKey(workspaceId, userId);
+    const member = this.workspaceMembers.get(key);
+    if (!member) {
+      return undefined;
+    }
+    const updated: WorkspaceMember = { ...member, role };
+    this.workspaceMembers.set(key, updated);
+    return updated;
+  }
+
+  async removeWorkspaceMember(workspaceId: string, userId: string): Promise<boolean> {
+    return this.workspaceMembers.delete(memberKey(workspaceId, userId));
+  }
+
+  async createApiKey(key: InsertApiKey): Promise<ApiKey> {
+    const created: ApiKey = {
+      ...key,
+      id: randomUUID(),
+      createdBy: key.createdBy ?? null,
+      createdAt: new Date(),
+      lastUsedAt: null,
+      revokedAt: null
+    };
+    this.apiKeys.set(created.id, created);
+    return created;
+  }
+
+  async getApiKey(id: string): Promise<ApiKey | undefined> {
+    return this.apiKeys.get(id);
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    return Array.from(this.apiKeys.values()).find(key => key.keyHash === keyHash);
+  }
+
+  async listApiKeys(workspaceId: string): Promise<ApiKey[]> {
+    return Array.from(this.apiKeys.values())
+      .filter(key => key.workspaceId === workspaceId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async updateApiKey(id: string, updates: Partial<Pick<ApiKey, "lastUsedAt" | "revokedAt">>): Promise<ApiKey | undefined> {
+    const key = this.apiKeys.get(id);
+    if (!key) {
+      return undefined;
+    }
+    const updated: ApiKey = { ...key, ...updates };
+    this.apiKeys.set(id, updated);
+    return updated;
+  }
+
+  async createFeedback(entry: InsertFeedback): Promise<Feedback> {
+    const created: Feedback = {
+      ...entry,
+      id: randomUUID(),
+      relayAttempts: 0,
+      relayedAt: null,
+      relayError: null,
+      createdAt: new Date()
+    };
+    this.feedback.set(created.id, created);
+    return created;
+  }
+
+  async listFeedback(workspaceId: string): Promise<Feedback[]> {
+    return Array.from(this.feedback.values())
+      .filter(entry => entry.workspaceId === workspaceId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async listPendingFeedbackRelays(): Promise<Feedback[]> {
+    return Array.from(this.feedback.values()).filter(entry => entry.relayStatus === "pending");
+  }
+
+  async updateFeedbackRelay(id: string, updates: FeedbackRelayUpdate): Promise<Feedback | undefined> {
+    const entry = this.feedback.get(id);
+    if (!entry) {
+      return undefined;
+    }
+    const updated: Feedback = { ...entry, ...updates };
+    this.feedback.set(id, updated);
+    return updated;
+  }
+
+  async createWebhook(webhook: InsertWebhook): Promise<Webhook> {
+    const now = new Date();
+    const created: Webhook = {
+      ...webhook,
+      id: randomUUID(),
+      description: webhook.description ?? null,
+      active: webhook.active ?? true,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.webhooks.set(created.id, created);
+    return created;
+  }
+
+  async getWebhook(id: string): Promise<Webhook | undefined> {
+    return this.webhooks.get(id);
+  }
+
+  async listWebhooks(workspaceId: string): Promise<Webhook[]> {
+    return Array.from(this.webhooks.values())
+      .filter(webhook => webhook.workspaceId === workspaceId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async updateWebhook(id: string, updates: WebhookUpdate): Promise<Webhook | undefined> {
+    const webhook = this.webhooks.get(id);
+    if (!webhook) {
+      return undefined;
+    }
+    const updated: Webhook = { ...webhook, ...updates, updatedAt: new Date() };
+    this.webhooks.set(id, updated);
+    return updated;
+  }
+
+  async deleteWebhook(id: string): Promise<boolean> {
+    if (!this.webhooks.delete(id)) {
+      return false;
+    }
+    for (const delivery of Array.from(this.webhookDeliveries.values())) {
+      if (delivery.webhookId === id) this.webhookDeliveries.delete(delivery.id);
+    }
+    return true;
+  }
+
+  async createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const created: WebhookDelivery = {
+      ...delivery,
+      id: randomUUID(),
+      attempts: 0,
+      lastAttemptAt: null,
+      responseStatus: null,
+      error: null,
+      createdAt: new Date()
+    };
+    this.webhookDeliveries.set(created.id, created);
+    return created;
+  }
+
+  async getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined> {
+    return this.webhookDeliveries.get(id);
+  }
+
+  async listWebhookDeliveries(webhookId: string, limit: number): Promise<WebhookDelivery[]> {
+    return Array.from(this.webhookDeliveries.values())
+      .filter(delivery => delivery.webhookId === webhookId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async listDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    return this.pendingWebhookDeliveries()
+      .filter(delivery => delivery.nextAttemptAt!.getTime() <= now.getTime())
+      .slice(0, limit);
+  }
+
+  async nextWebhookDeliveryAt(): Promise<Date | undefined> {
+    return this.pendingWebhookDeliveries()[0]?.nextAttemptAt ?? undefined;
+  }
+
+  async updateWebhookDelivery(id: string, updates: WebhookDeliveryUpdate): Promise<WebhookDelivery | undefined> {
+    const delivery = this.webhookDeliveries.get(id);
+    if (!delivery) {
+      return undefined;
+    }
+    const updated: WebhookDelivery = { ...delivery, ...updates };
+    this.webhookDeliveries.set(id, updated);
+    return updated;
+  }
+
+  // Scheduled deliveries by when they are due
+  private pendingWebhookDeliveries(): WebhookDelivery[] {
+    return Array.from(this.webhookDeliveries.values())
+      .filter(delivery => delivery.status === "pending" && delivery.nextAttemptAt)
+      .sort((a, b) => a.nextAttemptAt!.getTime() - b.nextAttemptAt!.getTime());
+  }
+
+  async createCampaign(campaign: InsertCampaign): Promise<Campaign> {
+    const now = new Date();
+    const created: Campaign = {
+      ...campaign,
+      id: randomUUID(),
+      scoringThreshold: campaign.scoringThreshold ?? 60,
+      rubric: campaign.rubric ?? null,
+      ruleSet: campaign.ruleSet ?? null,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.campaigns.set(created.id, created);
+    return created;
+  }
+
+  async getCampaign(id: string): Promise<Campaign | undefined> {
+    return this.campaigns.get(id);
+  }
+
+  async listCampaigns(workspaceId: string): Promise<Campaign[]> {
+    return Array.from(this.campaigns.values())
+      .filter(campaign => campaign.workspaceId === workspaceId)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  async updateCampaign(id: string, updates: Partial<InsertCampaign>): Promise<Campaign | undefined> {
+    const campaign = this.campaigns.get(id);
+    if (!campaign) {
+      return undefined;
+    }
+    const updated: Campaign = { ...campaign, ...updates, updatedAt: new Date() };
+    this.campaigns.set(id, updated);
+    return updated;
+  }
+
+  async deleteCampaign(id: string): Promise<boolean> {
+    if (!this.campaigns.delete(id)) {
+      return false;
+    }
+    // Runs outlive their campaign, matching ON DELETE SET NULL
+    this.uploads.forEach((upload, uploadId) => {
+      if (upload.campaignId === id) this.uploads.set(uploadId, { ...upload, campaignId: null });
+    });
+    this.jobs.forEach((job, jobId) => {
+      if (job.campaignId === id) this.jobs.set(jobId, { ...job, campaignId: null });
+    });
+    return true;
+  }
+
+  async createUpload(upload: InsertUpload, leads: Lead[]): Promise<Upload> {
+    const created: Upload = {
+      id: randomUUID(),
+      workspaceId: upload.workspaceId,
+      campaignId: upload.campaignId ?? null,
+      fileName: upload.fileName ?? null,
+      leadCount: upload.leadCount,
+      createdAt: new Date()
+    };
+    this.uploads.set(created.id, created);
+    this.uploadLeads.set(created.id, [...leads]);
+    return created;
+  }
+
+  async getUpload(id: string): Promise<Upload | undefined> {
+    return this.uploads.get(id);
+  }
+
+  async listUploads(workspaceId: string, campaignId?: string): Promise<Upload[]> {
+    return Array.from(this.uploads.values())
+      .filter(upload => upload.workspaceId === workspaceId)
+      .filter(upload => !campaignId || upload.campaignId === campaignId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getUploadLeads(uploadId: string): Promise<Lead[]> {
+    return this.uploadLeads.get(uploadId) || [];
+  }
+
+  async deleteUpload(id: string): Promise<boolean> {
+    if (!this.uploads.delete(id)) {
+      return false;
+    }
+    this.uploadLeads.delete(id);
+    // Cascade to the upload's jobs and their results
+    for (const job of Array.from(this.jobs.values())) {
+      if (job.uploadId === id) await this.deleteJob(job.id);
+    }
+    return true;
+  }
+
+  async createJob(job: InsertAnalysisJob): Promise<AnalysisJob> {
+    const now = new Date();
+    const created: AnalysisJob = {
+      ...job,
+      id: randomUUID(),
+      campaignId: job.campaignId ?? null,
+      provider: job.provider ?? null,
+      scoringThreshold: job.scoringThreshold ?? null,
+      rubric: job.rubric ?? null,
+      ruleSet: job.ruleSet ?? null,
+      budget: job.budget ?? null,
+      pauseReason: job.pauseReason ?? null,
+      error: job.error ?? null,
+      completedAt: job.completedAt ?? null,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.jobs.set(created.id, created);
+    this.processedLeads.set(created.id, new Map());
+    return created;
+  }
+
+  async getJob(id: string): Promise<AnalysisJob | undefined> {
+    return this.jobs.get(id);
+  }
+
+  async listJobs(filter: JobFilter = {}): Promise<AnalysisJob[]> {
+    return Array.from(this.jobs.values())
+      .filter(job => !filter.workspaceId || job.workspaceId === filter.workspaceId)
+      .filter(job => !filter.campaignId || job.campaignId === filter.campaignId)
+      .filter(job => !filter.status || filter.status.includes(job.status))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async updateJob(id: string, updates: Partial<InsertAnalysisJob>): Promise<AnalysisJob | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return undefined;
+    }
+    const updated: AnalysisJob = { ...job, ...updates, updatedAt: new Date() };
+    this.jobs.set(id, updated);
+    return updated;
+  }
+
+  async deleteJob(id: string): Promise<boolean> {
+    this.processedLeads.delete(id);
+    return this.jobs.delete(id);
+  }
+
+  async storeProcessedLeads(jobId: string, leads: ProcessedLead[]): Promise<void> {
+    const results = this.processedLeads.get(jobId);
+    if (!results) {
+      throw new Error(`Job ${jobId} does not exist`);
+    }
+    leads.forEach(lead => results.set(lead.id, lead));
+  }
+
+  async listProcessedLeads(jobId: string): Promise<ProcessedLead[]> {
+    const job = this.jobs.get(jobId);
+    const results = this.processedLeads.get(jobId);
+    if (!job || !results) {
+      return [];
+    }
+    // Keep the upload's row order, as the database does
+    return (this.uploadLeads.get(job.uploadId) || [])
+      .map(lead => results.get(lead.id))
+      .filter((lead): lead is ProcessedLead => lead !== undefined);
+  }
+
+  async listProcessedLeadsByCampaign(campaignId: string): Promise<ProcessedLead[]> {
+    const jobs = (await this.listJobs({ campaignId })).reverse();
+    const results = await Promise.all(jobs.map(job => this.listProcessedLeads(job.id)));
+    return results.flat();
+  }
+
+  async updateProcessedLead(jobId: string, leadId: string, updates: ProcessedLeadUpdate): Promise<ProcessedLead | undefined> {
+    const results = this.processedLeads.get(jobId);
+    const lead = results?.get(leadId);
+    if (!results || !lead) {
+      return undefined;
+    }
+    const updated: ProcessedLead = { ...lead, ...updates };
+    results.set(leadId, updated);
+    return updated;
+  }
+
+  async deleteProcessedLead(jobId: string, leadId: string): Promise<boolean> {
+    return this.processedLeads.get(jobId)?.delete(leadId) ?? false;
+  }
+
+  async listMappingTemplates(workspaceId: string, signature?: string): Promise<MappingTemplate[]> {
+    return Array.from(this.mappingTemplates.values())
+      .filter(template => template.workspaceId === workspaceId)
+      .filter(template => !signature || template.signature === signature)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  async getMappingTemplate(id: string): Promise<MappingTemplate | undefined> {
+    return this.mappingTemplates.get(id);
+  }
+
+  async saveMappingTemplate(template: InsertMappingTemplate): Promise<MappingTemplate> {
+    const existing = Array.from(this.mappingTemplates.values()).find(t =>
+      t.workspaceId === template.workspaceId && t.signature === template.signature
+    );
+    const now = new Date();
+    const saved: MappingTemplate = existing
+      ? { ...existing, ...template, updatedAt: now }
+      : { ...template, id: randomUUID(), createdAt: now, updatedAt: now };
+    this.mappingTemplates.set(saved.id, saved);
+    return saved;
+  }
+
+  async deleteMappingTemplate(id: string): Promise<boolean> {
+    return this.mappingTemplates.delete(id);
+  }
+
+  async listCrmExportMappings(workspaceId: string): Promise<CrmExportMappingRecord[]> {
+    return Array.from(this.crmExportMappings.values()).filter(record => record.workspaceId === workspaceId);
+  }
+
+  async saveCrmExportMapping(record: InsertCrmExportMappingRecord): Promise<CrmExportMappingRecord> {
+    const saved: CrmExportMappingRecord = { ...record, updatedAt: new Date() };
+    this.crmExportMappings.set(`${record.workspaceId}/${record.crm}`, saved);
+    return saved;
+  }
+
+  async deleteCrmExportMapping(workspaceId: string, crm: CrmProfileId): Promise<boolean> {
+    return this.crmExportMappings.delete(`${workspaceId}/${crm}`);
   }
 
-  async getLead(id: string): Promise<Lead | undefined> {
-    return this.leads.get(id);
+  async getCachedScores(keys: string[]): Promise<ScoreCacheEntry[]> {
+    return keys.flatMap(key => this.scoreCache.get(key) ?? []);
   }
 
-  async getProcessedLead(id: string): Promise<ProcessedLead | undefined> {
-    return this.processedLeads.get(id);
+  async storeCachedScores(entries: InsertScoreCacheEntry[]): Promise<void> {
+    const now = new Date();
+    entries.forEach(entry => this.scoreCache.set(entry.key, { ...entry, createdAt: now }));
   }
 
-  async storeLead(lead: Lead): Promise<Lead> {
-    this.leads.set(lead.id, lead);
-    return lead;
+  async getSpend(day: string): Promise<number> {
+    return this.dailySpend.get(day) ?? 0;
   }
 
-  async storeProcessedLead(processedLead: ProcessedLead): Promise<ProcessedLead> {
-    this.processedLeads.set(processedLead.id, processedLead);
-    return processedLead;
+  async addSpend(day: string, cost: number): Promise<void> {
+    this.dailySpend.set(day, (this.dailySpend.get(day) ?? 0) + cost);
   }
 }
 
-export const storage = new MemStorage();
+// Persist to PostgreSQL when DATABASE_URL is set, otherwise keep everything in memory
+export const storage: IStorage = db ? new PgStorage(db) : new MemStorage();
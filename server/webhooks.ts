@@ -0,0 +1,306 @@
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import { lookup as dnsLookup } from "dns";
+import http from "http";
+import https from "https";
+import { BlockList, isIP, type LookupFunction } from "net";
+import type { Webhook, WebhookDelivery, WebhookDeliveryEvent, WebhookEvent, WebhookPayload } from "@shared/schema";
+import { storage } from "./storage";
+import { Logger } from "./index";
+
+// Attempts per delivery before it is given up on; about four hours of retries at the default backoff
+const MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '10', 10);
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+// A receiver that takes longer than this is treated as down
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+// Deliveries sent side by side each time the worker wakes up
+const DELIVERY_BATCH_SIZE = 10;
+
+const SECRET_PREFIX = 'whsec_';
+
+export function generateWebhookSecret(): string {
+  return SECRET_PREFIX + randomBytes(24).toString('base64url');
+}
+
+// "sha256=<hex HMAC of `${timestamp}.${body}`>" - receivers recompute it with the secret, and
+// reject old timestamps to stop a captured delivery being replayed to them
+export function signWebhookBody(secret: string, timestamp: string, body: string): string {
+  return 'sha256=' + createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// Exponential backoff after the given number of failed attempts, with ±20% jitter so deliveries
+// that failed together do not all retry together
+export function retryDelay(attempts: number): number {
+  const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+// Loopback, private, shared, link-local (where cloud metadata services live), multicast and
+// reserved ranges. Any workspace admin can add a webhook, so these must stay out of reach.
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+function isBlockedAddress(address: string): boolean {
+  // IPv4 written as IPv6, e.g. ::ffff:127.0.0.1, is judged as the IPv4 address it is
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1];
+  if (mapped) return isBlockedAddress(mapped);
+
+  const family = isIP(address);
+  return family === 0 || BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+function blockedAddressError(host: string, address: string): string {
+  return host === address
+    ? `${host} is a private or reserved address, which webhooks may not reach`
+    : `${host} resolves to ${address}, a private or reserved address, which webhooks may not reach`;
+}
+
+// Resolves like dns.lookup but refuses blocked addresses. It runs as the connection is made, so a
+// host cannot pass an earlier check and then resolve somewhere internal (DNS rebinding).
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+    const blocked = addresses.find(({ address }) => isBlockedAddress(address));
+    if (blocked || addresses.length === 0) {
+      callback(new Error(blocked ? blockedAddressError(hostname, blocked.address) : `${hostname} did not resolve`), '');
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+// Why a webhook URL may not be used: its host is, or resolves to, a blocked address. Checked when a
+// webhook is saved; deliveries check again as they connect.
+export async function webhookUrlError(url: string): Promise<string | undefined> {
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host)) {
+    return isBlockedAddress(host) ? blockedAddressError(host, host) : undefined;
+  }
+
+  const addresses = await new Promise<string[]>(resolve => {
+    dnsLookup(host, { all: true }, (error, results) => resolve(error ? [] : results.map(result => result.address)));
+  });
+  if (addresses.length === 0) {
+    return `${host} could not be resolved`;
+  }
+  const blocked = addresses.find(isBlockedAddress);
+  return blocked ? blockedAddressError(host, blocked) : undefined;
+}
+
+export interface WebhookResponse {
+  status: number | null;
+  error: string | null;
+}
+
+export interface PostOptions {
+  // Refuse hosts that are or resolve to private and reserved addresses; for URLs users enter
+  publicOnly?: boolean;
+}
+
+// POSTs a JSON body, signed when there is a secret; never throws, so callers only look at the outcome.
+// Only the response status is kept: the body of whatever answered is never passed back.
+export async function postSignedJson(
+  url: string,
+  secret: string | undefined,
+  body: string,
+  headers: Record<string, string> = {},
+  options: PostOptions = {}
+): Promise<WebhookResponse> {
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+
+  try {
+    const target = new URL(url);
+    const host = target.hostname.replace(/^\[|\]$/g, '');
+    // Addresses in the URL itself are never looked up, so they are checked here
+    if (options.publicOnly && isIP(host) && isBlockedAddress(host)) {
+      return { status: null, error: blockedAddressError(host, host) };
+    }
+
+    // Redirects are not followed: one could send the payload somewhere the admin never configured
+    const status = await new Promise<number>((resolve, reject) => {
+      const request = (target.protocol === 'https:' ? https : http).request(target, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Length': Buffer.byteLength(body),
+          'User-Agent': 'LeadQualifier-Webhooks/1.0',
+          'X-Webhook-Timestamp': timestamp,
+          ...(secret && { 'X-Webhook-Signature': signWebhookBody(secret, timestamp, body) }),
+          ...headers
+        },
+        lookup: options.publicOnly ? publicOnlyLookup : undefined,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+      }, response => {
+        response.resume();
+        resolve(response.statusCode ?? 0);
+      });
+      request.on('error', reject);
+      request.end(body);
+    });
+
+    return status >= 200 && status < 300
+      ? { status, error: null }
+      : { status, error: `HTTP ${status}` };
+  } catch (error) {
+    const message = error instanceof Error && error.name === 'AbortError'
+      ? `No response within ${DELIVERY_TIMEOUT_MS / 1000}s`
+      : error instanceof Error ? error.message : 'Request failed';
+    return { status: null, error: message };
+  }
+}
+
+function buildPayload(workspaceId: string, type: WebhookDeliveryEvent, data: Record<string, unknown>): WebhookPayload {
+  return { id: `evt_${randomUUID()}`, type, createdAt: new Date().toISOString(), workspaceId, data };
+}
+
+// Whether anything in the workspace listens for the event, for events that are costly to work out
+export async function hasWebhookSubscribers(workspaceId: string, event: WebhookEvent): Promise<boolean> {
+  const subscribed = await storage.listWebhooks(workspaceId);
+  return subscribed.some(webhook => webhook.active && webhook.events.includes(event));
+}
+
+// Queues one event per data item for every active webhook of the workspace subscribed to the
+// event; the worker sends them
+export async function emitWebhookEvents(workspaceId: string, event: WebhookEvent, items: Record<string, unknown>[]): Promise<void> {
+  if (items.length === 0) {
+    return;
+  }
+  const subscribed = (await storage.listWebhooks(workspaceId))
+    .filter(webhook => webhook.active && webhook.events.includes(event));
+  if (subscribed.length === 0) {
+    return;
+  }
+
+  const now = new Date();
+  for (const data of items) {
+    const payload = buildPayload(workspaceId, event, data);
+    for (const webhook of subscribed) {
+      await storage.createWebhookDelivery({ webhookId: webhook.id, event, payload, status: 'pending', nextAttemptAt: now });
+    }
+  }
+  scheduleWorker(0);
+}
+
+export function emitWebhookEvent(workspaceId: string, event: WebhookEvent, data: Record<string, unknown>): Promise<void> {
+  return emitWebhookEvents(workspaceId, event, [data]);
+}
+
+// Sends a sample event once, right away, so an admin can check the receiver and its signature check
+export async function sendTestDelivery(webhook: Webhook): Promise<WebhookDelivery> {
+  const payload = buildPayload(webhook.workspaceId, 'webhook.test', {
+    webhookId: webhook.id,
+    message: 'Test delivery from the lead qualifier'
+  });
+  const delivery = await storage.createWebhookDelivery({ webhookId: webhook.id, event: 'webhook.test', payload, status: 'pending', nextAttemptAt: null });
+  return attemptDelivery(delivery, webhook, false);
+}
+
+// Queues the same event again as a new delivery with a fresh set of attempts
+export async function replayDelivery(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  const replay = await storage.createWebhookDelivery({
+    webhookId: delivery.webhookId,
+    event: delivery.event,
+    payload: delivery.payload,
+    status: 'pending',
+    nextAttemptAt: new Date()
+  });
+  scheduleWorker(0);
+  return replay;
+}
+
+async function attemptDelivery(delivery: WebhookDelivery, webhook: Webhook, retry: boolean): Promise<WebhookDelivery> {
+  const { status: responseStatus, error } = await postSignedJson(webhook.url, webhook.secret, JSON.stringify(delivery.payload), {
+    'X-Webhook-Id': delivery.payload.id,
+    'X-Webhook-Event': delivery.event,
+    'X-Webhook-Delivery': delivery.id
+  }, { publicOnly: true });
+
+  const attempts = delivery.attempts + 1;
+  const now = new Date();
+  const status = !error ? 'delivered' : retry && attempts < MAX_ATTEMPTS ? 'pending' : 'failed';
+  if (error) {
+    Logger.warn(`Webhook delivery ${delivery.id} failed`, { webhookId: webhook.id, attempts, error, willRetry: status === 'pending' });
+  }
+
+  const updated = await storage.updateWebhookDelivery(delivery.id, {
+    status,
+    attempts,
+    lastAttemptAt: now,
+    nextAttemptAt: status === 'pending' ? new Date(now.getTime() + retryDelay(attempts)) : null,
+    responseStatus,
+    error
+  });
+  return updated ?? delivery;
+}
+
+async function deliverDue(delivery: WebhookDelivery) {
+  const webhook = await storage.getWebhook(delivery.webhookId);
+  if (!webhook) {
+    return;
+  }
+  // Turning a webhook off stops its queued deliveries; they can be replayed once it is back on
+  if (!webhook.active) {
+    await storage.updateWebhookDelivery(delivery.id, { status: 'failed', nextAttemptAt: null, error: 'Webhook was turned off' });
+    return;
+  }
+  await attemptDelivery(delivery, webhook, true);
+}
+
+// One worker per process sends due deliveries, then sleeps until the next one is due
+let workerTimer: NodeJS.Timeout | undefined;
+let workerRunning = false;
+
+function scheduleWorker(delayMs: number) {
+  // A running worker looks for the next due delivery when it finishes
+  if (workerRunning) {
+    return;
+  }
+  clearTimeout(workerTimer);
+  workerTimer = setTimeout(runWorker, Math.max(0, delayMs));
+  workerTimer.unref();
+}
+
+async function runWorker() {
+  workerRunning = true;
+  try {
+    let due: WebhookDelivery[];
+    do {
+      due = await storage.listDueWebhookDeliveries(new Date(), DELIVERY_BATCH_SIZE);
+      await Promise.all(due.map(delivery => deliverDue(delivery)
+        .catch(error => Logger.error(`Failed to send webhook delivery ${delivery.id}`, error))));
+    } while (due.length === DELIVERY_BATCH_SIZE);
+  } catch (error) {
+    Logger.error('Webhook worker failed', error);
+  } finally {
+    workerRunning = false;
+  }
+
+  try {
+    const next = await storage.nextWebhookDeliveryAt();
+    if (next) scheduleWorker(next.getTime() - Date.now());
+  } catch (error) {
+    Logger.error('Failed to schedule webhook deliveries', error);
+  }
+}
+
+// Picks up deliveries still queued from before a restart
+export function startWebhookWorker() {
+  scheduleWorker(0);
+}
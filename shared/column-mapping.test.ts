@@ -0,0 +1,46 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { applyColumnMapping, detectHeaderRow, headerSignature, suggestColumnMapping, uniqueHeaders } from "./column-mapping";
+
+describe('uniqueHeaders', () => {
+  test('names blank headers and numbers repeated ones', () => {
+    assert.deepEqual(uniqueHeaders(['\uFEFFEmail', '', 'Email', ' Email ']), ['Email', 'Column 2', 'Email (2)', 'Email (3)']);
+  });
+});
+
+describe('detectHeaderRow', () => {
+  test('skips title rows above a header naming known fields', () => {
+    assert.equal(detectHeaderRow([['Q3 leads export'], [], ['Company', 'Email', 'Notes'], ['Acme', 'ada@acme.com', '']]), 2);
+  });
+
+  test('falls back to the first row filled about as widely as the rest', () => {
+    assert.equal(detectHeaderRow([['Report'], ['Firma', 'Kontakt', 'Ort'], ['Acme', 'Ada', 'Berlin']]), 1);
+    assert.equal(detectHeaderRow([]), 0);
+  });
+});
+
+describe('suggestColumnMapping', () => {
+  test('maps known headers once and keeps the rest as context', () => {
+    assert.deepEqual(suggestColumnMapping(['Company Name', 'E-mail', 'Email Address', 'Contact Email']), {
+      'Company Name': 'companyName',
+      'E-mail': 'context',
+      'Email Address': 'email',
+      'Contact Email': 'context'
+    });
+  });
+});
+
+describe('saved mappings', () => {
+  test('identify a layout regardless of column order and case', () => {
+    assert.equal(headerSignature(['Email', 'Company Name']), headerSignature(['company  name', 'EMAIL']));
+    assert.notEqual(headerSignature(['Email', 'Company']), headerSignature(['Email', 'Company', 'Notes']));
+  });
+
+  test('apply to differently spelled headers and suggest for new ones', () => {
+    assert.deepEqual(applyColumnMapping(['EMAIL', 'Region', 'Website'], { 'email': 'ignore', 'region': 'industry' }), {
+      EMAIL: 'ignore',
+      Region: 'industry',
+      Website: 'website'
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import type { ColumnMapping, ColumnTarget, LeadFieldName } from "./schema";
+
+// Common header variations of each Lead field, compared after normalizeHeader
+const headerAliases: Record<string, LeadFieldName> = {
+  'company': 'companyName',
+  'company_name': 'companyName',
+  'companyname': 'companyName',
+  'business_name': 'companyName',
+  'organization': 'companyName',
+  'email': 'email',
+  'email_address': 'email',
+  'contact_email': 'email',
+  'phone': 'phone',
+  'phone_number': 'phone',
+  'contact_phone': 'phone',
+  'industry': 'industry',
+  'sector': 'industry',
+  'company_size': 'companySize',
+  'companysize': 'companySize',
+  'size': 'companySize',
+  'employees': 'companySize',
+  'title': 'title',
+  'job_title': 'title',
+  'jobtitle': 'title',
+  'position': 'title',
+  'contact_name': 'contactName',
+  'contactname': 'contactName',
+  'name': 'contactName',
+  'contact': 'contactName',
+  'website': 'website',
+  'url': 'website',
+  'company_website': 'website',
+  'revenue': 'revenue',
+  'annual_revenue': 'revenue',
+  'sales': 'revenue'
+};
+
+export function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/\s+/g, '_');
+}
+
+// Blank headers get a placeholder and repeated ones a suffix, since mappings are keyed by header
+export function uniqueHeaders(values: string[]): string[] {
+  const seen = new Map<string, number>();
+  return values.map((value, index) => {
+    const header = value.replace(/^\uFEFF/, '').trim() || `Column ${index + 1}`;
+    const count = (seen.get(header) ?? 0) + 1;
+    seen.set(header, count);
+    return count > 1 ? `${header} (${count})` : header;
+  });
+}
+
+// Spreadsheets often have a title or notes above the real header. Picks the first leading row
+// naming a known field, else the first one filled in at least half as widely as the widest row.
+export function detectHeaderRow(rows: string[][], maxRows = 20): number {
+  const candidates = rows.slice(0, maxRows);
+  const known = candidates.findIndex(row => row.some(cell => headerAliases[normalizeHeader(cell)]));
+  if (known !== -1) return known;
+
+  const filled = (row: string[]) => row.filter(cell => cell.trim() && isNaN(Number(cell))).length;
+  const widest = Math.max(0, ...candidates.map(filled));
+  return Math.max(0, candidates.findIndex(row => filled(row) > 0 && filled(row) >= widest / 2));
+}
+
+// Known headers map to their Lead field; everything else is kept as context for the model
+export function suggestColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<ColumnTarget>();
+
+  headers.forEach(header => {
+    const field = headerAliases[normalizeHeader(header)];
+    // Only the first column of a kind fills a field
+    const target: ColumnTarget = field && !used.has(field) ? field : 'context';
+    used.add(target);
+    mapping[header] = target;
+  });
+
+  return mapping;
+}
+
+// Identifies a file layout regardless of column order, so a saved mapping applies to
+// next quarter's export as long as it has the same headers
+export function headerSignature(headers: string[]): string {
+  const normalized = headers.map(normalizeHeader).sort().join('\u001f');
+
+  // 32-bit FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < normalized.length; i++) {
+    hash ^= normalized.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${headers.length}-${(hash >>> 0).toString(16).padStart(8, '0')}`;
+}
+
+// Applies a saved mapping to a file's headers, which may differ in case, spacing or order
+export function applyColumnMapping(headers: string[], saved: ColumnMapping): ColumnMapping {
+  const byHeader = new Map(Object.entries(saved).map(([header, target]) => [normalizeHeader(header), target]));
+  const suggested = suggestColumnMapping(headers);
+
+  return Object.fromEntries(headers.map(header => [header, byHeader.get(normalizeHeader(header)) ?? suggested[header]]));
+}
@@ -0,0 +1,38 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { checkContact } from "./contact-validation";
+
+describe('checkContact', () => {
+  test('flags free and role addresses without making them invalid', () => {
+    assert.deepEqual(checkContact({ id: 'a', email: 'info@gmail.com' }), {
+      emailIssues: ['freeProvider', 'roleAccount'],
+      phoneIssues: [],
+      emailValid: true
+    });
+  });
+
+  test('makes bad syntax and disposable addresses invalid', () => {
+    assert.deepEqual(checkContact({ id: 'a', email: 'ada@@acme' }).emailIssues, ['invalidSyntax']);
+    const disposable = checkContact({ id: 'a', email: 'ada@mailinator.com' });
+    assert.deepEqual(disposable.emailIssues, ['disposable']);
+    assert.equal(disposable.emailValid, false);
+  });
+
+  test('runs the given domain checks once per issue', () => {
+    const checks = checkContact({ id: 'a', email: 'ada@acme.com' }, {
+      domainChecks: [domain => domain === 'acme.com' ? 'noMailServer' : undefined, () => 'noMailServer']
+    });
+    assert.deepEqual(checks.emailIssues, ['noMailServer']);
+    assert.equal(checks.emailValid, false);
+  });
+
+  test('checks phone numbers in the given region', () => {
+    assert.equal(checkContact({ id: 'a', phone: '0803 123 4567' }, { defaultRegion: 'NG' }).phoneValid, true);
+    assert.deepEqual(checkContact({ id: 'a', phone: '0803 123 4567' }).phoneIssues, ['invalidForRegion']);
+    assert.deepEqual(checkContact({ id: 'a', phone: 'call reception' }).phoneIssues, ['unparseable']);
+  });
+
+  test('leaves validity unset for missing fields', () => {
+    assert.deepEqual(checkContact({ id: 'a', email: ' ' }), { emailIssues: [], phoneIssues: [] });
+  });
+});
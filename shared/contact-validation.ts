@@ -0,0 +1,65 @@
+import { parsePhoneNumberFromString, validatePhoneNumberLength, type CountryCode } from "libphonenumber-js";
+import type { ContactChecks, EmailIssue, Lead, PhoneIssue } from "./schema";
+import { DEFAULT_PHONE_REGION, DISPOSABLE_EMAIL_DOMAINS, FREE_EMAIL_DOMAINS } from "./normalize";
+
+// Shared inboxes that rarely reach a decision maker
+const ROLE_ACCOUNTS = new Set([
+  'admin', 'billing', 'contact', 'enquiries', 'hello', 'help', 'hr', 'info', 'inquiries', 'jobs',
+  'marketing', 'media', 'noreply', 'no-reply', 'office', 'press', 'sales', 'support', 'team', 'webmaster'
+]);
+
+// Practical subset of RFC 5322: no quoted local parts or IP literals, which leads never use
+const EMAIL_PATTERN = /^[a-z0-9!#$%&'*+/=?^_`{|}~-]+(\.[a-z0-9!#$%&'*+/=?^_`{|}~-]+)*@([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+// Extra checks on an email's domain, such as an MX lookup; return an issue to flag it
+export type EmailDomainCheck = (domain: string) => EmailIssue | undefined;
+
+export interface ContactCheckOptions {
+  // Region assumed for phone numbers without a country code
+  defaultRegion?: CountryCode;
+  domainChecks?: EmailDomainCheck[];
+}
+
+// Free providers are a real address, just not a company one, so they don't make an email invalid
+const BLOCKING_EMAIL_ISSUES: EmailIssue[] = ['invalidSyntax', 'disposable', 'noMailServer'];
+
+function checkEmail(email: string, domainChecks: EmailDomainCheck[]): EmailIssue[] {
+  const address = email.trim().toLowerCase();
+  if (!EMAIL_PATTERN.test(address)) return ['invalidSyntax'];
+
+  const [local, domain] = address.split('@');
+  const issues: EmailIssue[] = [];
+  if (DISPOSABLE_EMAIL_DOMAINS.has(domain)) issues.push('disposable');
+  if (FREE_EMAIL_DOMAINS.has(domain)) issues.push('freeProvider');
+  if (ROLE_ACCOUNTS.has(local.split('+')[0])) issues.push('roleAccount');
+  domainChecks.forEach(check => {
+    const issue = check(domain);
+    if (issue && !issues.includes(issue)) issues.push(issue);
+  });
+  return issues;
+}
+
+function checkPhone(phone: string, defaultRegion: CountryCode): PhoneIssue[] {
+  const parsed = parsePhoneNumberFromString(phone, defaultRegion);
+  if (!parsed) {
+    const length = validatePhoneNumberLength(phone, defaultRegion);
+    if (length === 'TOO_SHORT') return ['tooShort'];
+    if (length === 'TOO_LONG') return ['tooLong'];
+    return ['unparseable'];
+  }
+  return parsed.isValid() ? [] : ['invalidForRegion'];
+}
+
+export function checkContact(lead: Lead, options: ContactCheckOptions = {}): ContactChecks {
+  const checks: ContactChecks = { emailIssues: [], phoneIssues: [] };
+
+  if (lead.email?.trim()) {
+    checks.emailIssues = checkEmail(lead.email, options.domainChecks ?? []);
+    checks.emailValid = !checks.emailIssues.some(issue => BLOCKING_EMAIL_ISSUES.includes(issue));
+  }
+  if (lead.phone?.trim()) {
+    checks.phoneIssues = checkPhone(lead.phone, options.defaultRegion ?? DEFAULT_PHONE_REGION);
+    checks.phoneValid = checks.phoneIssues.length === 0;
+  }
+  return checks;
+}
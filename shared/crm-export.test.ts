@@ -0,0 +1,101 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import type { CrmExportMapping, CrmProfileId, ProcessedLead } from "./schema";
+import { buildCrmRows, checkCrmMapping, crmProfiles, crmValue, toCsv } from "./crm-export";
+
+// Leads covering full, sparse and hostile rows, and the file each CRM's wizard is expected to get for them
+const fixture = (name: string) => readFileSync(new URL(`./__fixtures__/crm/${name}`, import.meta.url), 'utf8');
+const leads: ProcessedLead[] = JSON.parse(fixture('leads.json'));
+
+const lead = (fields: Partial<ProcessedLead>): ProcessedLead => ({ id: 'lead', score: 50, qualified: false, reasoning: 'Fit unclear', ...fields });
+
+const withColumns = (profileId: CrmProfileId, columns: CrmExportMapping['columns']): CrmExportMapping => ({
+  ...crmProfiles[profileId].defaultMapping,
+  columns
+});
+
+for (const profileId of Object.keys(crmProfiles) as CrmProfileId[]) {
+  describe(`${crmProfiles[profileId].name} profile`, () => {
+    test('exports the fixture leads as the expected import file', () => {
+      assert.equal(toCsv(buildCrmRows(leads, profileId)), fixture(`${profileId}.csv`));
+    });
+
+    test('default mapping has every column the import requires', () => {
+      const issues = checkCrmMapping(profileId, crmProfiles[profileId].defaultMapping);
+      assert.deepEqual(issues.filter(issue => issue.level === 'error'), []);
+    });
+  });
+}
+
+describe('checkCrmMapping', () => {
+  test('reports each required column group that is missing', () => {
+    const issues = checkCrmMapping('salesforce', withColumns('salesforce', [
+      { header: 'Last Name', source: 'lastName' },
+      { header: 'Company', source: 'none' }
+    ]));
+    assert.deepEqual(issues, [{ level: 'error', message: 'Salesforce needs a "Company" column' }]);
+
+    assert.deepEqual(checkCrmMapping('pipedrive', withColumns('pipedrive', [{ header: 'Person - Email', source: 'email' }])), [
+      { level: 'error', message: 'Pipedrive needs one of the columns "Person - Name", "Organization - Name"' }
+    ]);
+  });
+
+  test('warns about custom fields and status values the CRM lacks', () => {
+    const issues = checkCrmMapping('hubspot', {
+      columns: [
+        { header: 'Email', source: 'email' },
+        { header: 'AI Score', source: 'score' },
+        { header: 'Lead Status', source: 'status' }
+      ],
+      statusValues: { qualified: 'Hot', notQualified: 'Unqualified' }
+    });
+    assert.deepEqual(issues.map(issue => issue.level), ['warning', 'warning']);
+    assert.match(issues[0].message, /"AI Score" is not a standard HubSpot field/);
+    assert.match(issues[1].message, /"Hot" is not one of HubSpot's standard Lead Status values/);
+  });
+});
+
+describe('crmValue', () => {
+  const mapping = crmProfiles.hubspot.defaultMapping;
+
+  test('splits a contact name into first name and the rest', () => {
+    const ada = lead({ contactName: '  Ada  King Lovelace ' });
+    assert.equal(crmValue(ada, 'firstName', mapping), 'Ada');
+    assert.equal(crmValue(ada, 'lastName', mapping), 'King Lovelace');
+  });
+
+  test('treats a single name as the last name', () => {
+    const prince = lead({ contactName: 'Prince' });
+    assert.equal(crmValue(prince, 'firstName', mapping), '');
+    assert.equal(crmValue(prince, 'lastName', mapping), 'Prince');
+    assert.equal(crmValue(lead({}), 'lastName', mapping), '');
+  });
+});
+
+describe('buildCrmRows', () => {
+  test('cuts values to the length the CRM keeps', () => {
+    const [, row] = buildCrmRows([lead({ contactName: `${'A'.repeat(50)} Smith` })], 'salesforce');
+    assert.equal(row[0], 'A'.repeat(40));
+  });
+
+  test('keeps the formula prefix inside the length the CRM keeps', () => {
+    const [, row] = buildCrmRows([lead({ contactName: `=${'A'.repeat(50)} Smith` })], 'salesforce');
+    assert.equal(row[0], `'=${'A'.repeat(38)}`);
+    assert.equal(toCsv([row]).split(',')[0], row[0]);
+  });
+});
+
+describe('toCsv', () => {
+  test('keeps cells that would run as formulas from doing so', () => {
+    assert.equal(toCsv([['=1+1', '@SUM(A1:A9)', '+CMD|calc', '-2+3+cmd|calc', '\t=1+1']]), `'=1+1,'@SUM(A1:A9),'+CMD|calc,'-2+3+cmd|calc,'\t=1+1`);
+  });
+
+  test('leaves phone numbers and negative amounts as they are', () => {
+    assert.equal(toCsv([['+44 20 7946 0000', '+1 (415) 555-0134', '-1500']]), '+44 20 7946 0000,+1 (415) 555-0134,-1500');
+  });
+
+  test('quotes a neutralized cell that needs quoting', () => {
+    assert.equal(toCsv([['=HYPERLINK("http://x", "y")']]), `"'=HYPERLINK(""http://x"", ""y"")"`);
+  });
+});
@@ -0,0 +1,260 @@
+import type { CrmExportMapping, CrmProfileId, CrmSource, ProcessedLead } from "./schema";
+import { normalizeLeadFields } from "./normalize";
+
+// What a CRM's import wizard accepts, to check mappings against without calling the CRM.
+// Columns outside knownColumns still import, but only into custom fields created beforehand.
+export interface CrmImportSchema {
+  // Headers the wizard maps to a standard field by itself
+  knownColumns: string[];
+  // An import is rejected unless, for each group, one of its columns is present
+  required: string[][];
+  // The standard field the status goes into and the values it accepts out of the box
+  statusColumn: string;
+  statusValues: string[];
+  // Longest value the CRM keeps, by header
+  maxLength: Record<string, number>;
+}
+
+export interface CrmProfile {
+  id: CrmProfileId;
+  name: string;
+  // What an import of the file creates
+  description: string;
+  importSchema: CrmImportSchema;
+  defaultMapping: CrmExportMapping;
+  // Written where a required value is missing, so the row is not rejected
+  placeholders: Partial<Record<CrmSource, string>>;
+}
+
+export interface CrmMappingIssue {
+  // Errors make the import fail; warnings need something set up in the CRM first
+  level: 'error' | 'warning';
+  message: string;
+}
+
+export const crmSourceLabels: Record<CrmSource, string> = {
+  companyName: 'Company name',
+  email: 'Email',
+  phone: 'Phone (as uploaded)',
+  industry: 'Industry',
+  companySize: 'Company size (as uploaded)',
+  title: 'Job title',
+  contactName: 'Contact name',
+  website: 'Website',
+  revenue: 'Revenue (as uploaded)',
+  firstName: 'First name',
+  lastName: 'Last name',
+  domain: 'Company domain',
+  phoneE164: 'Phone (international format)',
+  country: 'Country code',
+  employeeCount: 'Employee count',
+  annualRevenue: 'Annual revenue',
+  score: 'Score',
+  status: 'Lead status',
+  reasoning: 'AI reasoning',
+  qualificationCriteria: 'Criteria met',
+  notes: 'Notes (score, verdict and reasoning)',
+  none: 'Leave empty'
+};
+
+export const crmProfiles: Record<CrmProfileId, CrmProfile> = {
+  hubspot: {
+    id: 'hubspot',
+    name: 'HubSpot',
+    description: 'Contacts, with their company, for the HubSpot contact import',
+    importSchema: {
+      knownColumns: ['First Name', 'Last Name', 'Email', 'Phone Number', 'Company Name', 'Job Title', 'Website URL', 'Industry', 'Number of Employees', 'Annual Revenue', 'Country/Region', 'Lead Status', 'Lifecycle Stage'],
+      required: [['Email', 'First Name', 'Last Name']],
+      statusColumn: 'Lead Status',
+      statusValues: ['New', 'Open', 'In Progress', 'Open Deal', 'Unqualified', 'Attempted to Contact', 'Connected', 'Bad Timing'],
+      maxLength: { 'Qualification Notes': 65536 }
+    },
+    defaultMapping: {
+      columns: [
+        { header: 'First Name', source: 'firstName' },
+        { header: 'Last Name', source: 'lastName' },
+        { header: 'Email', source: 'email' },
+        { header: 'Phone Number', source: 'phone' },
+        { header: 'Company Name', source: 'companyName' },
+        { header: 'Job Title', source: 'title' },
+        { header: 'Website URL', source: 'website' },
+        { header: 'Industry', source: 'industry' },
+        { header: 'Number of Employees', source: 'employeeCount' },
+        { header: 'Annual Revenue', source: 'annualRevenue' },
+        { header: 'Country/Region', source: 'country' },
+        { header: 'Lead Status', source: 'status' },
+        { header: 'Qualification Score', source: 'score' },
+        { header: 'Qualification Notes', source: 'notes' }
+      ],
+      statusValues: { qualified: 'Open', notQualified: 'Unqualified' }
+    },
+    placeholders: {}
+  },
+  salesforce: {
+    id: 'salesforce',
+    name: 'Salesforce',
+    description: 'Leads for the Salesforce Data Import Wizard',
+    importSchema: {
+      knownColumns: ['First Name', 'Last Name', 'Company', 'Email', 'Phone', 'Title', 'Website', 'Industry', 'No. of Employees', 'Annual Revenue', 'Country', 'Lead Status', 'Lead Source', 'Rating', 'Description'],
+      required: [['Last Name'], ['Company']],
+      statusColumn: 'Lead Status',
+      statusValues: ['Open - Not Contacted', 'Working - Contacted', 'Closed - Converted', 'Closed - Not Converted'],
+      maxLength: { 'First Name': 40, 'Last Name': 80, 'Company': 255, 'Title': 128, 'Description': 32000 }
+    },
+    defaultMapping: {
+      columns: [
+        { header: 'First Name', source: 'firstName' },
+        { header: 'Last Name', source: 'lastName' },
+        { header: 'Company', source: 'companyName' },
+        { header: 'Email', source: 'email' },
+        { header: 'Phone', source: 'phone' },
+        { header: 'Title', source: 'title' },
+        { header: 'Website', source: 'website' },
+        { header: 'Industry', source: 'industry' },
+        { header: 'No. of Employees', source: 'employeeCount' },
+        { header: 'Annual Revenue', source: 'annualRevenue' },
+        { header: 'Country', source: 'country' },
+        { header: 'Lead Status', source: 'status' },
+        { header: 'Description', source: 'notes' }
+      ],
+      statusValues: { qualified: 'Open - Not Contacted', notQualified: 'Closed - Not Converted' }
+    },
+    // Salesforce's own web-to-lead placeholder for the fields every lead needs
+    placeholders: { lastName: '[not provided]', companyName: '[not provided]' }
+  },
+  pipedrive: {
+    id: 'pipedrive',
+    name: 'Pipedrive',
+    description: 'People linked to their organizations, with a note each, for the Pipedrive spreadsheet import',
+    importSchema: {
+      knownColumns: ['Person - Name', 'Person - Email', 'Person - Phone', 'Person - Label', 'Organization - Name', 'Organization - Address', 'Note - Content'],
+      required: [['Person - Name', 'Organization - Name']],
+      statusColumn: 'Person - Label',
+      statusValues: ['Customer', 'Hot lead', 'Warm lead', 'Cold lead'],
+      maxLength: { 'Person - Name': 255, 'Organization - Name': 255, 'Note - Content': 100000 }
+    },
+    defaultMapping: {
+      columns: [
+        { header: 'Person - Name', source: 'contactName' },
+        { header: 'Person - Email', source: 'email' },
+        { header: 'Person - Phone', source: 'phone' },
+        { header: 'Person - Label', source: 'status' },
+        { header: 'Organization - Name', source: 'companyName' },
+        { header: 'Organization - Address', source: 'country' },
+        { header: 'Note - Content', source: 'notes' }
+      ],
+      statusValues: { qualified: 'Hot lead', notQualified: 'Cold lead' }
+    },
+    placeholders: {}
+  }
+};
+
+// "Ada King Lovelace" is first name "Ada", last name "King Lovelace"; a single name is a last
+// name, since that is the one CRMs require
+function splitName(name: string | undefined): { firstName: string; lastName: string } {
+  const parts = name?.trim().split(/\s+/).filter(Boolean) ?? [];
+  if (parts.length < 2) return { firstName: '', lastName: parts[0] ?? '' };
+  return { firstName: parts[0], lastName: parts.slice(1).join(' ') };
+}
+
+function notesFor(lead: ProcessedLead): string {
+  return [
+    `Lead score ${lead.score}/100 - ${lead.qualified ? 'qualified' : 'not qualified'}`,
+    lead.reasoning,
+    lead.qualificationCriteria?.length ? `Criteria met: ${lead.qualificationCriteria.join('; ')}` : ''
+  ].filter(Boolean).join('\n');
+}
+
+export function crmValue(lead: ProcessedLead, source: CrmSource, mapping: CrmExportMapping): string {
+  const normalized = lead.normalized ?? normalizeLeadFields(lead);
+
+  switch (source) {
+    case 'firstName': return splitName(lead.contactName).firstName;
+    case 'lastName': return splitName(lead.contactName).lastName;
+    case 'domain': return normalized.domain ?? '';
+    case 'phoneE164': return normalized.phone ?? '';
+    case 'country': return normalized.country ?? '';
+    // Lower bound of a range, as CRMs take a single number
+    case 'employeeCount': return normalized.employees ? String(normalized.employees.min) : '';
+    // In the currency it was given in
+    case 'annualRevenue': return normalized.revenue ? String(normalized.revenue.amount) : '';
+    case 'score': return String(lead.score);
+    case 'status': return lead.qualified ? mapping.statusValues.qualified : mapping.statusValues.notQualified;
+    case 'reasoning': return lead.reasoning;
+    case 'qualificationCriteria': return lead.qualificationCriteria?.join('; ') ?? '';
+    case 'notes': return notesFor(lead);
+    case 'none': return '';
+    default: return lead[source] ?? '';
+  }
+}
+
+// Header row then one row per lead, values cut to what the CRM keeps. Formula cells are
+// neutralized before the cut so the prefix counts towards the limit; toCsv leaves them as they are.
+export function buildCrmRows(leads: ProcessedLead[], profileId: CrmProfileId, mapping: CrmExportMapping = crmProfiles[profileId].defaultMapping): string[][] {
+  const { importSchema, placeholders } = crmProfiles[profileId];
+
+  return [
+    mapping.columns.map(column => column.header),
+    ...leads.map(lead => mapping.columns.map(({ header, source }) => {
+      const value = neutralizeFormula(crmValue(lead, source, mapping) || placeholders[source] || '');
+      const maxLength = importSchema.maxLength[header];
+      return maxLength !== undefined && value.length > maxLength ? value.slice(0, maxLength) : value;
+    }))
+  ];
+}
+
+// A cell starting with one of these is read as a formula by spreadsheet apps; model reasoning
+// and uploaded fields must never run as one. Plain numbers such as "+44 20 7946 0000" are left
+// alone, as they cannot call anything and the CRM would keep the quote.
+function neutralizeFormula(value: string): string {
+  return /^[=+\-@\t\r]/.test(value) && !/^[+-]?[\d\s().\-]+$/.test(value) ? `'${value}` : value;
+}
+
+function escapeCsvValue(value: string): string {
+  const text = neutralizeFormula(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// RFC 4180, which all three import wizards read, with formula cells neutralized
+export function toCsv(rows: string[][]): string {
+  return rows.map(row => row.map(escapeCsvValue).join(',')).join('\r\n');
+}
+
+export function crmExportFileName(profileId: CrmProfileId, date: Date = new Date()): string {
+  return `${profileId}_import_${date.toISOString().split('T')[0]}.csv`;
+}
+
+// What would stop the file importing, or needs setting up in the CRM first
+export function checkCrmMapping(profileId: CrmProfileId, mapping: CrmExportMapping): CrmMappingIssue[] {
+  const { name, importSchema } = crmProfiles[profileId];
+  const filled = mapping.columns.filter(column => column.source !== 'none');
+  const headers = new Set(filled.map(column => column.header));
+  const issues: CrmMappingIssue[] = [];
+
+  for (const group of importSchema.required) {
+    if (!group.some(header => headers.has(header))) {
+      issues.push({
+        level: 'error',
+        message: group.length === 1
+          ? `${name} needs a "${group[0]}" column`
+          : `${name} needs one of the columns ${group.map(header => `"${header}"`).join(', ')}`
+      });
+    }
+  }
+
+  for (const { header } of filled) {
+    if (!importSchema.knownColumns.includes(header)) {
+      issues.push({ level: 'warning', message: `"${header}" is not a standard ${name} field; create a custom field for it before importing` });
+    }
+  }
+
+  if (filled.some(column => column.header === importSchema.statusColumn && column.source === 'status')) {
+    for (const value of [mapping.statusValues.qualified, mapping.statusValues.notQualified]) {
+      if (!importSchema.statusValues.includes(value)) {
+        issues.push({ level: 'warning', message: `"${value}" is not one of ${name}'s standard ${importSchema.statusColumn} values; add it before importing` });
+      }
+    }
+  }
+
+  return issues;
+}
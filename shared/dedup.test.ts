@@ -0,0 +1,78 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Lead } from "./schema";
+import { applyDuplicateDecisions, findDuplicates } from "./dedup";
+
+const lead = (id: string, fields: Partial<Lead>, sourceRow?: number): Lead => ({ id, sourceRow, ...fields });
+
+describe('findDuplicates', () => {
+  test('matches emails regardless of case, tags and Gmail dots', () => {
+    const clusters = findDuplicates([
+      lead('a', { email: 'Ada.Lovelace+crm@gmail.com' }),
+      lead('b', { email: 'other@acme.com' }),
+      lead('c', { email: 'adalovelace@GMAIL.com' })
+    ], 'US');
+    assert.deepEqual(clusters.map(cluster => cluster.leads.map(l => l.id)), [['a', 'c']]);
+    assert.deepEqual(clusters[0].matchedOn, ['email']);
+  });
+
+  test('reads local phone numbers in the given region', () => {
+    const leads = [
+      lead('a', { phone: '0803 123 4567' }),
+      lead('b', { phone: '+234 803 123 4567' })
+    ];
+    assert.deepEqual(findDuplicates(leads, 'US'), []);
+
+    const [cluster] = findDuplicates(leads, 'NG');
+    assert.deepEqual(cluster.leads.map(l => l.id), ['a', 'b']);
+    assert.deepEqual(cluster.matchedOn, ['phone']);
+  });
+
+  test('matches similar names at the same company domain, not across companies', () => {
+    const clusters = findDuplicates([
+      lead('a', { contactName: 'Jonathan Smith', website: 'https://acme.com' }),
+      lead('b', { contactName: 'Jonathon Smith', email: 'jsmith@acme.com' }),
+      lead('c', { contactName: 'Jonathan Smith', website: 'https://other.io' })
+    ], 'US');
+    assert.deepEqual(clusters.map(cluster => cluster.leads.map(l => l.id)), [['a', 'b']]);
+    assert.deepEqual(clusters[0].matchedOn, ['name']);
+  });
+
+  test('reports the upload row of each lead', () => {
+    const [cluster] = findDuplicates([
+      lead('a', { email: 'ada@acme.com' }, 2),
+      lead('b', { email: 'ada@acme.com' }, 7)
+    ], 'US');
+    assert.deepEqual(cluster.rows, [2, 7]);
+  });
+});
+
+describe('applyDuplicateDecisions', () => {
+  const leads = [
+    lead('a', { email: 'ada@acme.com', companyName: 'Acme' }, 2),
+    lead('b', { email: 'bob@beta.io' }, 3),
+    lead('c', { email: 'ADA@acme.com', phone: '+1 415 555 0134', additionalData: { Notes: 'Met at expo' } }, 5)
+  ];
+  const clusters = findDuplicates(leads, 'US');
+
+  test('merges a cluster into its first lead, recording where each field came from', () => {
+    const [merged, other] = applyDuplicateDecisions(leads, clusters, new Set());
+    assert.equal(other.id, 'b');
+    assert.equal(merged.id, 'a');
+    assert.equal(merged.email, 'ada@acme.com');
+    assert.equal(merged.phone, '+1 415 555 0134');
+    assert.deepEqual(merged.dedup, {
+      clusterId: 'a',
+      decision: 'merged',
+      matchedOn: ['email'],
+      rows: [2, 5],
+      fields: { email: 2, companyName: 2, phone: 5, Notes: 5 }
+    });
+  });
+
+  test('keeps the leads of a cluster the user kept separate', () => {
+    const result = applyDuplicateDecisions(leads, clusters, new Set(['a']));
+    assert.deepEqual(result.map(l => [l.id, l.dedup?.decision]), [['a', 'kept'], ['b', undefined], ['c', 'kept']]);
+    assert.deepEqual(result[2].dedup?.rows, [5]);
+  });
+});
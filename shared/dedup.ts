@@ -0,0 +1,175 @@
+import type { CountryCode } from "libphonenumber-js";
+import { leadFieldNames, type DuplicateMatchType, type Lead } from "./schema";
+import { canonicalDomain, FREE_EMAIL_DOMAINS, normalizeEmail, normalizePersonName, toE164 } from "./normalize";
+
+export interface DuplicateCluster {
+  // The id of its first lead, so decisions survive re-running the search
+  id: string;
+  leads: Lead[];
+  // Upload row of each lead
+  rows: number[];
+  matchedOn: DuplicateMatchType[];
+}
+
+// Names at the same company this similar are taken to be the same person
+const NAME_SIMILARITY_THRESHOLD = 0.85;
+// Fuzzy name matching compares every pair, so very large companies only match exact names
+const MAX_FUZZY_GROUP_SIZE = 200;
+
+const duplicateMatchOrder: DuplicateMatchType[] = ['email', 'phone', 'name'];
+
+const rowOf = (lead: Lead, index: number) => lead.sourceRow ?? index + 1;
+
+function companyDomain(lead: Lead): string | undefined {
+  const website = canonicalDomain(lead.website);
+  if (website) return website;
+
+  const emailDomain = normalizeEmail(lead.email)?.split('@')[1];
+  return emailDomain && !FREE_EMAIL_DOMAINS.has(emailDomain) ? emailDomain : undefined;
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function nameSimilarity(a: string, b: string): number {
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+}
+
+// Groups leads that share a normalized email or E.164 phone number, or a company domain
+// and a similar contact name. Only groups of two or more are returned. Phone numbers without
+// a country code are read as being from phoneRegion.
+export function findDuplicates(leads: Lead[], phoneRegion: CountryCode): DuplicateCluster[] {
+  const parent = leads.map((_, i) => i);
+  const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]));
+  const matches = new Map<number, Set<DuplicateMatchType>>();
+
+  const union = (a: number, b: number, match: DuplicateMatchType) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    const merged = new Set([...Array.from(matches.get(rootA) ?? []), ...Array.from(matches.get(rootB) ?? []), match]);
+    // Keep the earliest lead as the root so clusters come out in upload order
+    const [root, child] = rootA < rootB ? [rootA, rootB] : [rootB, rootA];
+    parent[child] = root;
+    matches.set(root, merged);
+  };
+
+  const unionByKey = (key: (lead: Lead) => string | undefined, match: DuplicateMatchType) => {
+    const firstByKey = new Map<string, number>();
+    leads.forEach((lead, i) => {
+      const value = key(lead);
+      if (!value) return;
+      const first = firstByKey.get(value);
+      if (first === undefined) firstByKey.set(value, i);
+      else union(first, i, match);
+    });
+  };
+
+  unionByKey(lead => normalizeEmail(lead.email), 'email');
+  unionByKey(lead => toE164(lead.phone, phoneRegion), 'phone');
+
+  const byDomain = new Map<string, { index: number; name: string }[]>();
+  leads.forEach((lead, index) => {
+    const domain = companyDomain(lead);
+    const name = normalizePersonName(lead.contactName);
+    if (!domain || !name) return;
+    const group = byDomain.get(domain) ?? [];
+    group.push({ index, name });
+    byDomain.set(domain, group);
+  });
+
+  byDomain.forEach((group, domain) => {
+    if (group.length > MAX_FUZZY_GROUP_SIZE) {
+      unionByKey(lead => {
+        const name = normalizePersonName(lead.contactName);
+        return name && companyDomain(lead) === domain ? `${domain}|${name}` : undefined;
+      }, 'name');
+      return;
+    }
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) {
+        if (nameSimilarity(group[i].name, group[j].name) >= NAME_SIMILARITY_THRESHOLD) {
+          union(group[i].index, group[j].index, 'name');
+        }
+      }
+    }
+  });
+
+  const clusters = new Map<number, number[]>();
+  leads.forEach((_, i) => {
+    const root = find(i);
+    const members = clusters.get(root) ?? [];
+    members.push(i);
+    clusters.set(root, members);
+  });
+
+  return Array.from(clusters.entries())
+    .filter(([, members]) => members.length > 1)
+    .map(([root, members]) => ({
+      id: leads[members[0]].id,
+      leads: members.map(i => leads[i]),
+      rows: members.map(i => rowOf(leads[i], i)),
+      matchedOn: duplicateMatchOrder.filter(match => matches.get(root)?.has(match))
+    }));
+}
+
+// Combines a cluster into its first lead. Each field and context column takes the first
+// value found in upload order, and records which row it came from.
+export function mergeCluster(cluster: DuplicateCluster): Lead {
+  const [first] = cluster.leads;
+  const merged: Lead = { id: first.id, sourceRow: first.sourceRow, additionalData: {} };
+  const fields: Record<string, number> = {};
+
+  cluster.leads.forEach((lead, index) => {
+    const row = cluster.rows[index];
+
+    leadFieldNames.forEach(field => {
+      const value = lead[field];
+      if (value && !merged[field]) {
+        merged[field] = value;
+        fields[field] = row;
+      }
+    });
+    Object.entries(lead.additionalData ?? {}).forEach(([column, value]) => {
+      if (value && !merged.additionalData![column]) {
+        merged.additionalData![column] = value;
+        fields[column] = row;
+      }
+    });
+  });
+
+  merged.dedup = {
+    clusterId: cluster.id,
+    decision: 'merged',
+    matchedOn: cluster.matchedOn,
+    rows: cluster.rows,
+    fields
+  };
+  return merged;
+}
+
+// Replaces each cluster with its merged lead, in the position of its first lead, unless the
+// user chose to keep it separate. Leads that stay separate still record the decision.
+export function applyDuplicateDecisions(leads: Lead[], clusters: DuplicateCluster[], keptSeparate: Set<string>): Lead[] {
+  const clusterByLead = new Map<string, DuplicateCluster>();
+  clusters.forEach(cluster => cluster.leads.forEach(lead => clusterByLead.set(lead.id, cluster)));
+
+  return leads.flatMap((lead, index) => {
+    const cluster = clusterByLead.get(lead.id);
+    if (!cluster) return [lead];
+
+    if (keptSeparate.has(cluster.id)) {
+      const dedup = { clusterId: cluster.id, decision: 'kept' as const, matchedOn: cluster.matchedOn, rows: [rowOf(lead, index)], fields: {} };
+      return [{ ...lead, dedup }];
+    }
+    return cluster.id === lead.id ? [mergeCluster(cluster)] : [];
+  });
+}
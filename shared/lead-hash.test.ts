@@ -0,0 +1,61 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Lead } from "./schema";
+import { assignLeadIds, leadContentHash, scoringVersion } from "./lead-hash";
+
+const lead = (fields: Partial<Lead>): Lead => ({ id: '', ...fields });
+
+describe('assignLeadIds', () => {
+  test('gives the same person the same id however the row is formatted', () => {
+    const [first] = assignLeadIds([lead({ email: 'Ada.Lovelace@Acme.com', companyName: 'Acme' })], 'US');
+    const [again] = assignLeadIds([lead({ email: 'ada.lovelace@acme.com', title: 'CTO' })], 'US');
+    assert.match(first.id, /^lead_/);
+    assert.equal(again.id, first.id);
+  });
+
+  test('reads local phone numbers in the given region', () => {
+    const leads = [lead({ phone: '0803 123 4567' }), lead({ phone: '+234 803 123 4567' })];
+
+    const [local, international] = assignLeadIds(leads, 'NG');
+    assert.equal(international.id, `${local.id}_2`);
+
+    // Read as a US number it is not a phone at all, so the two are different people
+    const [usLocal, usInternational] = assignLeadIds(leads, 'US');
+    assert.notEqual(usInternational.id, `${usLocal.id}_2`);
+  });
+
+  test('tells leads with the same identity apart by upload order', () => {
+    const ids = assignLeadIds([lead({ email: 'ada@acme.com' }), lead({ email: 'ada@acme.com' }), lead({ email: 'ada@acme.com' })], 'US')
+      .map(l => l.id);
+    assert.deepEqual(ids, [ids[0], `${ids[0]}_2`, `${ids[0]}_3`]);
+  });
+
+  test('falls back to the content for leads without an identity', () => {
+    const [a] = assignLeadIds([lead({ industry: 'Retail' })], 'US');
+    const [b] = assignLeadIds([lead({ industry: 'Logistics' })], 'US');
+    assert.notEqual(a.id, b.id);
+  });
+});
+
+describe('leadContentHash', () => {
+  test('ignores the id, upload row and derived fields', () => {
+    const base = lead({ email: 'ada@acme.com', industry: 'Retail' });
+    const derived = { ...base, id: 'lead_x', sourceRow: 9, normalized: { emailType: 'corporate' as const }, contactChecks: { emailIssues: [], phoneIssues: [] } };
+    assert.equal(leadContentHash(derived), leadContentHash(base));
+    assert.notEqual(leadContentHash({ ...base, industry: 'Logistics' }), leadContentHash(base));
+  });
+
+  test('does not depend on key order', () => {
+    assert.equal(leadContentHash({ id: '', email: 'a@b.co', title: 'CEO' }), leadContentHash({ title: 'CEO', email: 'a@b.co', id: '' }));
+  });
+});
+
+describe('scoringVersion', () => {
+  test('changes with the brief, rubric or rules', () => {
+    const brief = { businessDescription: 'Freight software for mid-sized shippers', campaignGoals: 'Book demos' };
+    const version = scoringVersion(brief);
+    assert.equal(scoringVersion(brief, null, null), version);
+    assert.notEqual(scoringVersion({ ...brief, campaignGoals: 'Sell upgrades' }), version);
+    assert.notEqual(scoringVersion(brief, { criteria: [], disqualifiers: [], threshold: 60 }), version);
+  });
+});
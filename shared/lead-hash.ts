@@ -0,0 +1,69 @@
+import type { CountryCode } from "libphonenumber-js";
+import type { BusinessSetup, Lead, Rubric, RuleSet } from "./schema";
+import { canonicalDomain, normalizeEmail, normalizePersonName, toE164 } from "./normalize";
+
+// 53-bit string hash (cyrb53) - collisions are negligible at lead-list sizes, unlike 32-bit FNV
+export function hashText(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+}
+
+// JSON with object keys sorted, so equal values always serialize the same way
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0);
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+// Who the lead is, regardless of formatting or the other columns in the row
+function leadIdentity(lead: Lead, phoneRegion: CountryCode): string | undefined {
+  const email = normalizeEmail(lead.email);
+  if (email) return `email:${email}`;
+
+  const phone = toE164(lead.phone, phoneRegion);
+  if (phone) return `phone:${phone}`;
+
+  const name = normalizePersonName(lead.contactName);
+  const company = canonicalDomain(lead.website) ?? normalizePersonName(lead.companyName);
+  if (name || company) return `name:${company ?? ''}|${name ?? ''}`;
+
+  return undefined;
+}
+
+// Everything that can change a lead's score; normalized fields and contact checks are derived from the rest
+export function leadContentHash(lead: Lead): string {
+  const { id, sourceRow, dedup, normalized, contactChecks, ...content } = lead;
+  return hashText(stableStringify(content));
+}
+
+// Gives each lead an id derived from its identity, so the same person gets the same id when
+// a list is uploaded again. Leads sharing an identity are told apart by upload order. Phone
+// numbers without a country code are read as being from phoneRegion.
+export function assignLeadIds(leads: Lead[], phoneRegion: CountryCode): Lead[] {
+  const seen = new Map<string, number>();
+
+  return leads.map(lead => {
+    const base = `lead_${hashText(leadIdentity(lead, phoneRegion) ?? `content:${leadContentHash(lead)}`)}`;
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return { ...lead, id: count > 1 ? `${base}_${count}` : base };
+  });
+}
+
+// Changes whenever the brief, rubric or rules a lead is scored against change
+export function scoringVersion(businessSetup: BusinessSetup, rubric?: Rubric | null, ruleSet?: RuleSet | null): string {
+  return hashText(stableStringify({ businessSetup, rubric: rubric ?? null, ruleSet: ruleSet ?? null }));
+}
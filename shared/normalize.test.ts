@@ -0,0 +1,108 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  canonicalDomain,
+  classifyEmail,
+  formatEmployeeRange,
+  normalizeEmail,
+  normalizeLeadFields,
+  normalizePersonName,
+  parseEmployeeRange,
+  parsePhoneRegion,
+  parseRevenue,
+  toE164
+} from "./normalize";
+
+describe('normalizeEmail', () => {
+  test('drops case, tags and Gmail dots', () => {
+    assert.equal(normalizeEmail(' Ada.Lovelace+crm@GMAIL.com '), 'adalovelace@gmail.com');
+    assert.equal(normalizeEmail('ada.king+crm@acme.com'), 'ada.king@acme.com');
+  });
+
+  test('rejects what is not an address', () => {
+    assert.equal(normalizeEmail('ada@localhost'), undefined);
+    assert.equal(normalizeEmail('+crm@acme.com'), undefined);
+    assert.equal(normalizeEmail(undefined), undefined);
+  });
+});
+
+describe('classifyEmail', () => {
+  test('tells free, disposable and company addresses apart', () => {
+    assert.equal(classifyEmail('ada@gmail.com'), 'free');
+    assert.equal(classifyEmail('ada@mailinator.com'), 'disposable');
+    assert.equal(classifyEmail('ada@acme.com'), 'corporate');
+  });
+});
+
+describe('phone numbers', () => {
+  test('reads local numbers in the given region', () => {
+    assert.equal(toE164('(415) 555-0134'), '+14155550134');
+    assert.equal(toE164('0803 123 4567', 'NG'), '+2348031234567');
+    assert.equal(toE164('+44 20 7946 0000', 'NG'), '+442079460000');
+    assert.equal(toE164('12'), undefined);
+  });
+
+  test('accepts only regions libphonenumber knows', () => {
+    assert.equal(parsePhoneRegion(' gb '), 'GB');
+    assert.equal(parsePhoneRegion('XX'), undefined);
+    assert.equal(parsePhoneRegion(undefined), undefined);
+  });
+});
+
+describe('canonicalDomain', () => {
+  test('strips scheme, www, port and path', () => {
+    assert.equal(canonicalDomain('https://www.Acme.com:8080/about?x=1'), 'acme.com');
+    assert.equal(canonicalDomain('acme.co.uk'), 'acme.co.uk');
+    assert.equal(canonicalDomain('not a site'), undefined);
+  });
+});
+
+describe('normalizePersonName', () => {
+  test('compares names regardless of order, case and accents', () => {
+    assert.equal(normalizePersonName('Smith, John'), normalizePersonName('john smith'));
+    assert.equal(normalizePersonName('José Álvarez'), 'alvarez jose');
+    assert.equal(normalizePersonName(' , '), undefined);
+  });
+});
+
+describe('parseEmployeeRange', () => {
+  test('reads ranges, bounds and words', () => {
+    assert.deepEqual(parseEmployeeRange('51 to 200'), { min: 51, max: 200 });
+    assert.deepEqual(parseEmployeeRange('1,000+'), { min: 1000, max: null });
+    assert.deepEqual(parseEmployeeRange('under 10'), { min: 1, max: 10 });
+    assert.deepEqual(parseEmployeeRange('10k'), { min: 10000, max: 10000 });
+    assert.deepEqual(parseEmployeeRange('Enterprise'), { min: 1000, max: null });
+    assert.equal(parseEmployeeRange('unknown'), undefined);
+  });
+
+  test('formats ranges back for display', () => {
+    assert.equal(formatEmployeeRange({ min: 1000, max: null }), '1,000+');
+    assert.equal(formatEmployeeRange({ min: 11, max: 50 }), '11–50');
+  });
+});
+
+describe('parseRevenue', () => {
+  test('reads amounts, suffixes and currencies', () => {
+    assert.deepEqual(parseRevenue('$2M'), { amount: 2e6, currency: 'USD' });
+    assert.deepEqual(parseRevenue('EUR 1.5 million'), { amount: 1.5e6, currency: 'EUR' });
+    assert.deepEqual(parseRevenue('€10-50M'), { amount: 10e6, currency: 'EUR' });
+    assert.deepEqual(parseRevenue('2,000,000'), { amount: 2e6, currency: 'USD' });
+    assert.equal(parseRevenue('n/a'), undefined);
+  });
+});
+
+describe('normalizeLeadFields', () => {
+  test('leaves out what could not be derived', () => {
+    assert.deepEqual(normalizeLeadFields({ id: 'a', email: 'ada@acme.com', phone: '0803 123 4567' }, 'NG'), {
+      domain: 'acme.com',
+      phone: '+2348031234567',
+      country: 'NG',
+      emailType: 'corporate'
+    });
+  });
+
+  test('takes the domain from the website over the email, and never from a free email', () => {
+    assert.equal(normalizeLeadFields({ id: 'a', email: 'ada@acme.com', website: 'www.acme.io' }).domain, 'acme.io');
+    assert.equal(normalizeLeadFields({ id: 'a', email: 'ada@gmail.com' }).domain, undefined);
+  });
+});
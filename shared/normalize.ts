@@ -0,0 +1,188 @@
+import { isSupportedCountry, parsePhoneNumberFromString, type CountryCode } from "libphonenumber-js";
+import type { EmailType, Lead, NormalizedLeadFields } from "./schema";
+
+// Webmail providers; an address there says nothing about the lead's company
+export const FREE_EMAIL_DOMAINS = new Set([
+  'gmail.com',
+  'googlemail.com',
+  'yahoo.com',
+  'hotmail.com',
+  'outlook.com',
+  'live.com',
+  'msn.com',
+  'aol.com',
+  'icloud.com',
+  'me.com',
+  'proton.me',
+  'protonmail.com',
+  'gmx.com',
+  'gmx.de',
+  'web.de',
+  'mail.com',
+  'yandex.com',
+  'zoho.com'
+]);
+
+// Throwaway inbox services; leads using them rarely convert
+export const DISPOSABLE_EMAIL_DOMAINS = new Set([
+  'mailinator.com',
+  'guerrillamail.com',
+  'sharklasers.com',
+  '10minutemail.com',
+  'tempmail.com',
+  'temp-mail.org',
+  'yopmail.com',
+  'trashmail.com',
+  'getnada.com',
+  'throwawaymail.com',
+  'dispostable.com',
+  'maildrop.cc',
+  'fakeinbox.com'
+]);
+
+// Lowercased, without "+tag" suffixes, and without the dots Gmail ignores
+export function normalizeEmail(email: string | undefined): string | undefined {
+  const match = email?.trim().toLowerCase().match(/^([^@\s]+)@([^@\s]+\.[^@\s]+)$/);
+  if (!match) return undefined;
+
+  let local = match[1].split('+')[0];
+  const domain = match[2];
+  if (domain === 'gmail.com' || domain === 'googlemail.com') {
+    local = local.replace(/\./g, '');
+  }
+  return local ? `${local}@${domain}` : undefined;
+}
+
+// Bare numbers without a country code are read as being from this region, unless the caller
+// knows better
+export const DEFAULT_PHONE_REGION: CountryCode = 'US';
+
+// A region code such as "NG" or "gb", if libphonenumber has metadata for it
+export function parsePhoneRegion(region: string | undefined): CountryCode | undefined {
+  const code = region?.trim().toUpperCase();
+  return code && isSupportedCountry(code) ? code : undefined;
+}
+
+// Formats a phone number as E.164, using libphonenumber's per-region metadata
+export function toE164(phone: string | undefined, defaultRegion: CountryCode = DEFAULT_PHONE_REGION): string | undefined {
+  const parsed = phone ? parsePhoneNumberFromString(phone, defaultRegion) : undefined;
+  return parsed?.isPossible() ? parsed.number : undefined;
+}
+
+// Bare lowercase host without scheme, "www." or path, e.g. "https://www.Acme.com/about" -> "acme.com"
+export function canonicalDomain(url: string | undefined): string | undefined {
+  const host = url?.trim().toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .split(/[/?#:]/)[0]
+    .replace(/^www\./, '');
+  return host && /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(host) ? host : undefined;
+}
+
+// Lowercase words without punctuation or accents, in alphabetical order, so
+// "Smith, John" and "john smith" compare equal
+export function normalizePersonName(name: string | undefined): string | undefined {
+  const words = name?.normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+  return words?.length ? words.sort().join(' ') : undefined;
+}
+
+export function classifyEmail(email: string | undefined): EmailType | undefined {
+  const domain = normalizeEmail(email)?.split('@')[1];
+  if (!domain) return undefined;
+  if (DISPOSABLE_EMAIL_DOMAINS.has(domain)) return 'disposable';
+  return FREE_EMAIL_DOMAINS.has(domain) ? 'free' : 'corporate';
+}
+
+// ISO 3166-1 alpha-2 code of the number's region; unknown for unassigned area codes
+export function countryFromPhone(e164: string | undefined): string | undefined {
+  return e164 ? parsePhoneNumberFromString(e164)?.country : undefined;
+}
+
+const SIZE_WORDS: [RegExp, { min: number; max: number | null }][] = [
+  [/self[- ]employed|sole|solo|freelance/, { min: 1, max: 1 }],
+  [/micro/, { min: 1, max: 9 }],
+  [/small|smb|startup/, { min: 1, max: 49 }],
+  [/mid|medium/, { min: 50, max: 999 }],
+  [/enterprise|large|corporate/, { min: 1000, max: null }]
+];
+
+// Reads "11-50", "51 to 200", "200 employees", "1,000+", "10k" or words like "enterprise"
+export function parseEmployeeRange(size: string | undefined): NormalizedLeadFields['employees'] {
+  const text = size?.toLowerCase().replace(/,/g, '').trim();
+  if (!text) return undefined;
+
+  const numbers = Array.from(text.matchAll(/(\d+(?:\.\d+)?)\s*(k)?/g), ([, value, thousands]) =>
+    Math.round(parseFloat(value) * (thousands ? 1000 : 1))
+  );
+
+  if (numbers.length >= 2) {
+    return { min: Math.min(numbers[0], numbers[1]), max: Math.max(numbers[0], numbers[1]) };
+  }
+  if (numbers.length === 1) {
+    const [count] = numbers;
+    if (/\+|or more|over|above|more than/.test(text)) return { min: count, max: null };
+    if (/under|less than|fewer than|up to|</.test(text)) return { min: 1, max: count };
+    return { min: count, max: count };
+  }
+  return SIZE_WORDS.find(([pattern]) => pattern.test(text))?.[1];
+}
+
+const CURRENCY_SYMBOLS: Record<string, string> = { '$': 'USD', '€': 'EUR', '£': 'GBP', '¥': 'JPY', '₹': 'INR' };
+const CURRENCY_CODES = ['USD', 'EUR', 'GBP', 'JPY', 'INR', 'CAD', 'AUD', 'CHF', 'SEK', 'NOK', 'DKK'];
+const AMOUNT_SUFFIXES: Record<string, number> = {
+  k: 1e3, thousand: 1e3, m: 1e6, mm: 1e6, mn: 1e6, million: 1e6, b: 1e9, bn: 1e9, billion: 1e9
+};
+
+// Reads "$2M", "2,000,000", "EUR 1.5 million" or "€10-50M" (the lower bound of a range).
+// Amounts without a currency are taken to be US dollars.
+export function parseRevenue(revenue: string | undefined): NormalizedLeadFields['revenue'] {
+  const text = revenue?.trim();
+  if (!text) return undefined;
+
+  const code = CURRENCY_CODES.find(c => text.toUpperCase().includes(c));
+  const symbol = Object.keys(CURRENCY_SYMBOLS).find(s => text.includes(s));
+  const currency = code ?? (symbol ? CURRENCY_SYMBOLS[symbol] : 'USD');
+
+  const match = text.toLowerCase().replace(/,/g, '').match(/(\d+(?:\.\d+)?)\s*(?:-\s*[\d.]+\s*)?(thousand|million|billion|mm|mn|bn|k|m|b)?\b/);
+  if (!match) return undefined;
+
+  return { amount: parseFloat(match[1]) * (AMOUNT_SUFFIXES[match[2]] ?? 1), currency };
+}
+
+// Derives typed values from the raw fields; the raw values stay on the lead untouched
+export function normalizeLeadFields(lead: Lead, defaultRegion: CountryCode = DEFAULT_PHONE_REGION): NormalizedLeadFields {
+  const phone = toE164(lead.phone, defaultRegion);
+  const emailDomain = normalizeEmail(lead.email)?.split('@')[1];
+  const emailType = classifyEmail(lead.email);
+  const normalized: NormalizedLeadFields = {
+    employees: parseEmployeeRange(lead.companySize),
+    revenue: parseRevenue(lead.revenue),
+    domain: canonicalDomain(lead.website) ?? (emailType === 'corporate' ? emailDomain : undefined),
+    phone,
+    country: countryFromPhone(phone),
+    emailType
+  };
+
+  // Leave out what could not be derived, so stored leads only carry real values
+  return Object.fromEntries(Object.entries(normalized).filter(([, value]) => value !== undefined));
+}
+
+export function formatEmployeeRange(employees: NonNullable<NormalizedLeadFields['employees']>): string {
+  if (employees.max === null) return `${employees.min.toLocaleString('en-US')}+`;
+  if (employees.min === employees.max) return employees.min.toLocaleString('en-US');
+  return `${employees.min.toLocaleString('en-US')}–${employees.max.toLocaleString('en-US')}`;
+}
+
+export function formatRevenue(revenue: NonNullable<NormalizedLeadFields['revenue']>): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: revenue.currency,
+    notation: 'compact',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 1
+  }).format(revenue.amount);
+}
@@ -0,0 +1,61 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Lead, ScoringRule } from "./schema";
+import { DEFAULT_RULE_SET, evaluateRules, matchesRule } from "./rules-engine";
+
+const rule = (fields: Pick<ScoringRule, 'field' | 'operator' | 'value'>): ScoringRule => ({ weight: 10, label: 'Rule', ...fields });
+const lead = (fields: Partial<Lead>): Lead => ({ id: 'lead', ...fields });
+
+describe('matchesRule', () => {
+  test('compares text without regard to case', () => {
+    const cto = lead({ title: 'Co-Founder & CTO' });
+    assert.equal(matchesRule(rule({ field: 'title', operator: 'containsAny', value: 'ceo, founder' }), cto), true);
+    assert.equal(matchesRule(rule({ field: 'title', operator: 'notContains', value: 'cto' }), cto), false);
+    assert.equal(matchesRule(rule({ field: 'title', operator: 'equals', value: 'co-founder & cto' }), cto), true);
+    assert.equal(matchesRule(rule({ field: 'title', operator: 'contains', value: '' }), cto), false);
+  });
+
+  test('looks up other fields in the lead\'s additional data', () => {
+    const crm = lead({ additionalData: { CRM: 'Salesforce' } });
+    assert.equal(matchesRule(rule({ field: 'CRM', operator: 'exists', value: '' }), crm), true);
+    assert.equal(matchesRule(rule({ field: 'Budget', operator: 'missing', value: '' }), crm), true);
+  });
+
+  test('counts a size range only when all of it qualifies', () => {
+    const small = lead({ companySize: '11-50' });
+    assert.equal(matchesRule(rule({ field: 'companySize', operator: 'atLeast', value: '10' }), small), true);
+    assert.equal(matchesRule(rule({ field: 'companySize', operator: 'atLeast', value: '20' }), small), false);
+    assert.equal(matchesRule(rule({ field: 'companySize', operator: 'atMost', value: '50' }), small), true);
+    assert.equal(matchesRule(rule({ field: 'companySize', operator: 'atMost', value: '50' }), lead({ companySize: '1,000+' })), false);
+  });
+
+  test('compares revenue by its amount', () => {
+    const acme = lead({ revenue: '$2.5M' });
+    assert.equal(matchesRule(rule({ field: 'revenue', operator: 'atLeast', value: '$2M' }), acme), true);
+    assert.equal(matchesRule(rule({ field: 'revenue', operator: 'atMost', value: '1m' }), acme), false);
+    assert.equal(matchesRule(rule({ field: 'revenue', operator: 'atLeast', value: '1m' }), lead({})), false);
+  });
+
+  test('counts only reachable contact details', () => {
+    const contact = rule({ field: 'contact', operator: 'exists', value: '' });
+    assert.equal(matchesRule(contact, lead({ email: 'ada@acme.com' })), true);
+    assert.equal(matchesRule(contact, lead({ email: 'ada@mailinator.com' })), false);
+    assert.equal(matchesRule(rule({ field: 'emailIssues', operator: 'contains', value: 'disposable' }), lead({ email: 'ada@mailinator.com' })), true);
+  });
+});
+
+describe('evaluateRules', () => {
+  test('adds the matched weights to the base score and lists them', () => {
+    const result = evaluateRules(DEFAULT_RULE_SET, lead({ industry: 'Tech', title: 'CEO', email: 'ada@acme.com' }));
+    assert.equal(result.score, 85);
+    assert.equal(result.qualified, true);
+    assert.deepEqual(result.qualificationCriteria, ['Tech industry', 'Executive contact', 'Valid contact info']);
+  });
+
+  test('keeps the score between 0 and 100 and applies the threshold', () => {
+    const ruleSet = { baseScore: 90, rules: [{ ...rule({ field: 'title', operator: 'exists', value: '' }), weight: 50 }] };
+    assert.equal(evaluateRules(ruleSet, lead({ title: 'CEO' })).score, 100);
+    assert.equal(evaluateRules({ baseScore: 10, rules: [{ ...ruleSet.rules[0], weight: -50 }] }, lead({ title: 'CEO' })).score, 0);
+    assert.equal(evaluateRules(ruleSet, lead({}), 95).qualified, false);
+  });
+});
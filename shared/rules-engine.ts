@@ -0,0 +1,138 @@
+import type { Lead, NormalizedLeadFields, RuleSet, ScoringRule } from "./schema";
+import { formatEmployeeRange, normalizeLeadFields } from "./normalize";
+import { checkContact } from "./contact-validation";
+
+export const DEFAULT_QUALIFICATION_THRESHOLD = 60;
+
+export const DEFAULT_RULE_SET: RuleSet = {
+  baseScore: 50,
+  rules: [
+    { field: "industry", operator: "contains", value: "tech", weight: 10, label: "Tech industry" },
+    { field: "companySize", operator: "contains", value: "enterprise", weight: 15, label: "Enterprise size" },
+    { field: "title", operator: "containsAny", value: "ceo, founder", weight: 20, label: "Executive contact" },
+    { field: "contact", operator: "exists", value: "", weight: 5, label: "Valid contact info" },
+    { field: "emailIssues", operator: "containsAny", value: "invalidSyntax, disposable", weight: -10, label: "Junk email address" }
+  ]
+};
+
+// Fields offered when editing rules; any other name is looked up in the lead's additionalData
+export const ruleFields = [
+  "companyName",
+  "contactName",
+  "title",
+  "email",
+  "phone",
+  "contact",
+  "industry",
+  "companySize",
+  "website",
+  "revenue",
+  "employees",
+  "domain",
+  "country",
+  "emailType",
+  "emailIssues",
+  "phoneIssues"
+] as const;
+
+// Read from the lead's normalized values rather than its raw fields
+const NORMALIZED_FIELDS = new Set<string>(["employees", "domain", "country", "emailType"]);
+
+export interface RuleEvaluation {
+  score: number;
+  qualified: boolean;
+  matchedRules: ScoringRule[];
+  qualificationCriteria: string[];
+  reasoning: string;
+}
+
+const LEAD_FIELDS = new Set<string>(ruleFields);
+
+function readField(lead: Lead, normalized: NormalizedLeadFields, field: string): string {
+  let value: unknown;
+  if (field === "contact" || field === "emailIssues" || field === "phoneIssues") {
+    const checks = lead.contactChecks ?? checkContact(lead);
+    // Only a reachable email or phone counts as contact info
+    if (field === "contact") value = (checks.emailValid ? lead.email : undefined) ?? (checks.phoneValid ? lead.phone : undefined);
+    else value = checks[field].join(", ");
+  } else if (field === "employees") {
+    value = normalized.employees && formatEmployeeRange(normalized.employees);
+  } else if (NORMALIZED_FIELDS.has(field)) {
+    value = normalized[field as keyof NormalizedLeadFields];
+  } else if (LEAD_FIELDS.has(field)) {
+    value = lead[field as keyof Lead];
+  } else {
+    value = lead.additionalData?.[field];
+  }
+  return value === undefined || value === null ? "" : String(value).trim();
+}
+
+// Reads figures like "250", "1,200" or "$5M"
+function parseNumber(value: string): number | undefined {
+  const match = value.replace(/[,$€£\s]/g, "").match(/^(-?\d+(?:\.\d+)?)([kmb])?$/i);
+  if (!match) {
+    return undefined;
+  }
+  const multiplier = { k: 1e3, m: 1e6, b: 1e9 }[match[2]?.toLowerCase() as "k" | "m" | "b"] ?? 1;
+  return parseFloat(match[1]) * multiplier;
+}
+
+// Sizes and revenue compare by their normalized values. A size range only counts when all
+// of it qualifies, so "11-50" is at least 10 and at most 50, but not at least 20.
+function readNumber(lead: Lead, normalized: NormalizedLeadFields, field: string, operator: "atLeast" | "atMost"): number | undefined {
+  if ((field === "companySize" || field === "employees") && normalized.employees) {
+    return operator === "atLeast" ? normalized.employees.min : normalized.employees.max ?? Infinity;
+  }
+  if (field === "revenue" && normalized.revenue) {
+    return normalized.revenue.amount;
+  }
+  return parseNumber(readField(lead, normalized, field));
+}
+
+export function matchesRule(rule: ScoringRule, lead: Lead): boolean {
+  const normalized = lead.normalized ?? normalizeLeadFields(lead);
+  const actual = readField(lead, normalized, rule.field);
+  const haystack = actual.toLowerCase();
+  const expected = rule.value.trim().toLowerCase();
+
+  switch (rule.operator) {
+    case "contains":
+      return expected !== "" && haystack.includes(expected);
+    case "containsAny":
+      return expected.split(",").map(v => v.trim()).filter(Boolean).some(v => haystack.includes(v));
+    case "notContains":
+      return expected !== "" && !haystack.includes(expected);
+    case "equals":
+      return haystack === expected;
+    case "exists":
+      return actual !== "";
+    case "missing":
+      return actual === "";
+    case "atLeast":
+    case "atMost": {
+      const a = readNumber(lead, normalized, rule.field, rule.operator);
+      const b = parseNumber(expected);
+      if (a === undefined || b === undefined) return false;
+      return rule.operator === "atLeast" ? a >= b : a <= b;
+    }
+  }
+}
+
+// Deterministic: the same lead and rules always give the same score, on either side
+export function evaluateRules(
+  ruleSet: RuleSet,
+  lead: Lead,
+  threshold: number = DEFAULT_QUALIFICATION_THRESHOLD
+): RuleEvaluation {
+  const matchedRules = ruleSet.rules.filter(rule => matchesRule(rule, lead));
+  const score = Math.max(0, Math.min(100, matchedRules.reduce((sum, rule) => sum + rule.weight, ruleSet.baseScore)));
+  const qualificationCriteria = matchedRules.map(rule => rule.label);
+
+  return {
+    score,
+    qualified: score >= threshold,
+    matchedRules,
+    qualificationCriteria,
+    reasoning: `Lead scored based on qualification rules: ${qualificationCriteria.length > 0 ? qualificationCriteria.join(', ') : 'no matching rules'}.`
+  };
+}
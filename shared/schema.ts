@@ -1,12 +1,59 @@
+import { sql } from "drizzle-orm";
+import { pgTable, text, varchar, integer, boolean, jsonb, timestamp, primaryKey, doublePrecision, unique, index } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { CountryCode } from "libphonenumber-js";
 
 export const businessSetupSchema = z.object({
   businessDescription: z.string().min(10, "Business description must be at least 10 characters"),
   campaignGoals: z.string().min(10, "Campaign goals must be at least 10 characters"),
 });
 
+// Why leads were flagged as the same contact
+export const duplicateMatchTypes = ["email", "phone", "name"] as const;
+
+// Set on leads that were flagged as duplicates during upload
+export const leadDedupSchema = z.object({
+  // Shared by every lead flagged as the same contact
+  clusterId: z.string(),
+  decision: z.enum(["merged", "kept"]),
+  matchedOn: z.array(z.enum(duplicateMatchTypes)),
+  // Upload rows combined into this lead; just its own row when kept separate
+  rows: z.array(z.number().int().positive()),
+  // Which row each field and context column was taken from
+  fields: z.record(z.number().int().positive()),
+});
+
+export const emailTypes = ["free", "corporate", "disposable"] as const;
+
+// Typed values derived from the raw Lead fields, which are kept as uploaded
+export const normalizedLeadFieldsSchema = z.object({
+  // max is null for open-ended sizes such as "1000+"
+  employees: z.object({ min: z.number().int().nonnegative(), max: z.number().int().nonnegative().nullable() }).optional(),
+  revenue: z.object({ amount: z.number().nonnegative(), currency: z.string().length(3) }).optional(),
+  domain: z.string().optional(),
+  // E.164
+  phone: z.string().optional(),
+  // ISO 3166-1 alpha-2, from the phone number's country code
+  country: z.string().length(2).optional(),
+  emailType: z.enum(emailTypes).optional(),
+});
+
+export const emailIssues = ["invalidSyntax", "disposable", "roleAccount", "freeProvider", "noMailServer"] as const;
+export const phoneIssues = ["unparseable", "tooShort", "tooLong", "invalidForRegion"] as const;
+
+// Offline checks of the lead's email and phone; the validity flags are unset when the field is empty
+export const contactChecksSchema = z.object({
+  emailValid: z.boolean().optional(),
+  emailIssues: z.array(z.enum(emailIssues)),
+  phoneValid: z.boolean().optional(),
+  phoneIssues: z.array(z.enum(phoneIssues)),
+});
+
 export const leadSchema = z.object({
   id: z.string(),
+  // Where in the upload the lead was read from, numbered as the file's row errors are
+  sourceRow: z.number().int().positive().optional(),
   companyName: z.string().optional(),
   email: z.string().optional(),
   phone: z.string().optional(),
@@ -17,6 +64,118 @@ export const leadSchema = z.object({
   website: z.string().optional(),
   revenue: z.string().optional(),
   additionalData: z.record(z.any()).optional(),
+  dedup: leadDedupSchema.optional(),
+  normalized: normalizedLeadFieldsSchema.optional(),
+  contactChecks: contactChecksSchema.optional(),
+});
+
+// Where an uploaded column ends up: a Lead field, additionalData that is shown to the
+// model as context, or nowhere
+export const leadFieldNames = [
+  "companyName",
+  "email",
+  "phone",
+  "industry",
+  "companySize",
+  "title",
+  "contactName",
+  "website",
+  "revenue",
+] as const;
+
+export const columnTargets = [...leadFieldNames, "context", "ignore"] as const;
+
+// Keyed by the column header as it appears in the file
+export const columnMappingSchema = z.record(z.enum(columnTargets));
+
+// CRMs the results can be exported for, as files their import wizards accept
+export const crmProfileIds = ["hubspot", "salesforce", "pipedrive"] as const;
+
+// What a column of a CRM export is filled with: a lead field, a value derived from the lead's
+// fields or its score, or nothing
+export const crmSources = [
+  ...leadFieldNames,
+  "firstName",
+  "lastName",
+  "domain",
+  "phoneE164",
+  "country",
+  "employeeCount",
+  "annualRevenue",
+  "score",
+  "status",
+  "reasoning",
+  "qualificationCriteria",
+  "notes",
+  "none",
+] as const;
+
+export const crmExportColumnSchema = z.object({
+  header: z.string().trim().min(1, "Column name is required").max(100),
+  source: z.enum(crmSources),
+});
+
+// A workspace's columns for one CRM, in file order, and the status values written for qualified
+// and not qualified leads
+export const crmExportMappingSchema = z.object({
+  columns: z.array(crmExportColumnSchema).min(1).max(100)
+    .refine(columns => new Set(columns.map(c => c.header.toLowerCase())).size === columns.length, "Column names must be unique"),
+  statusValues: z.object({
+    qualified: z.string().trim().min(1).max(100),
+    notQualified: z.string().trim().min(1).max(100),
+  }),
+});
+
+// A weighted rubric every lead of a run is scored against, so scores stay comparable
+export const rubricCriterionSchema = z.object({
+  id: z.string().trim().min(1).max(50),
+  name: z.string().trim().min(1, "Criterion name is required").max(100),
+  description: z.string().trim().max(500),
+  weight: z.number().min(0).max(100),
+});
+
+export const rubricSchema = z.object({
+  criteria: z.array(rubricCriterionSchema).min(1, "Add at least one criterion").max(10)
+    .refine(criteria => new Set(criteria.map(c => c.id)).size === criteria.length, "Criterion ids must be unique")
+    .refine(criteria => criteria.some(c => c.weight > 0), "At least one criterion needs a weight above 0"),
+  // Any one of these makes a lead unqualified regardless of its score
+  disqualifiers: z.array(z.string().trim().min(1).max(200)).max(10),
+  threshold: z.number().int().min(0).max(100),
+});
+
+export const criterionScoreSchema = z.object({
+  criterionId: z.string(),
+  score: z.number().min(0).max(100),
+  reasoning: z.string().optional(),
+});
+
+// Declarative scoring rules, evaluated by shared/rules-engine.ts for offline scoring and as
+// the fallback when a model is unavailable
+export const ruleOperators = ["contains", "containsAny", "notContains", "equals", "exists", "missing", "atLeast", "atMost"] as const;
+
+export const scoringRuleSchema = z.object({
+  // A lead field, "contact" for email or phone, or any other CSV column
+  field: z.string().trim().min(1, "Rule field is required").max(100),
+  operator: z.enum(ruleOperators),
+  value: z.string().trim().max(200),
+  weight: z.number().int().min(-100).max(100),
+  label: z.string().trim().min(1, "Rule label is required").max(100),
+});
+
+export const ruleSetSchema = z.object({
+  baseScore: z.number().int().min(0).max(100),
+  rules: z.array(scoringRuleSchema).max(50),
+});
+
+// How a score was produced: clean model output, model output that needed repair or a re-ask,
+// deliberate rule-based scoring, or rules used because the model failed
+export const scoringMethods = ["ai", "repaired", "rules", "fallback"] as const;
+
+// Model tokens spent scoring a lead, and their cost in USD when the model has a known price
+export const tokenUsageSchema = z.object({
+  inputTokens: z.number().int().min(0),
+  outputTokens: z.number().int().min(0),
+  cost: z.number().min(0).optional(),
 });
 
 export const processedLeadSchema = leadSchema.extend({
@@ -24,11 +183,129 @@ export const processedLeadSchema = leadSchema.extend({
   qualified: z.boolean(),
   reasoning: z.string(),
   qualificationCriteria: z.array(z.string()).optional(),
+  scoringMethod: z.enum(scoringMethods).optional(),
+  // Only present when the lead was scored against a rubric
+  criterionScores: z.array(criterionScoreSchema).optional(),
+  // Absent when no model was called, e.g. for reused or rule-based scores
+  usage: tokenUsageSchema.optional(),
+});
+
+// What a scoring model has to return for a single lead
+export const leadScoreResponseSchema = processedLeadSchema.pick({
+  score: true,
+  qualified: true,
+  reasoning: true,
+  qualificationCriteria: true,
+}).extend({
+  reasoning: z.string().trim().min(1, "reasoning must not be empty"),
+});
+
+// What a scoring model has to return for a lead scored against a rubric; the overall
+// score is the weighted average of the criterion scores, computed server-side
+export const rubricScoreResponseSchema = z.object({
+  criterionScores: z.array(criterionScoreSchema.extend({
+    reasoning: z.string().trim().min(1, "reasoning must not be empty"),
+  })),
+  disqualifier: z.string().nullable().optional(),
+  reasoning: z.string().trim().min(1, "reasoning must not be empty"),
+});
+
+export const scoringProviderNames = ["openai", "local", "anthropic", "offline"] as const;
+
+export const scoringProviderSchema = z.object({
+  name: z.enum(scoringProviderNames),
+  model: z.string().min(1).max(100).optional(),
+});
+
+// Request bodies of the analysis routes, also published in the /api/v1 OpenAPI document
+
+// A lead as clients submit it; the server works out its normalized fields and contact checks
+export const leadInputSchema = z.object({
+  id: z.string().min(1),
+  companyName: z.string().optional(),
+  email: z.string().optional(),
+  phone: z.string().optional(),
+  industry: z.string().optional(),
+  companySize: z.string().optional(),
+  title: z.string().optional(),
+  contactName: z.string().optional(),
+  website: z.string().optional(),
+  revenue: z.string().optional(),
+  additionalData: z.record(z.any()).optional(),
+  sourceRow: z.number().int().positive().optional(),
+  dedup: leadDedupSchema.optional(),
+});
+
+export const businessSetupInputSchema = z.object({
+  businessDescription: z.string().min(1).max(1000), // Reduced from 10 to 1 for flexibility
+  campaignGoals: z.string().min(1).max(1000), // Reduced from 10 to 1 for flexibility
+});
+
+export const jobRequestSchema = z.object({
+  leads: z.array(leadInputSchema).min(1).max(10000)
+    .refine(leads => new Set(leads.map(lead => lead.id)).size === leads.length, 'Lead ids must be unique'),
+  businessSetup: businessSetupInputSchema,
+  provider: scoringProviderSchema.optional(),
+  campaignId: z.string().optional(),
+  // Every lead is scored against this rubric, defaulting to the campaign's
+  rubric: rubricSchema.optional(),
+  // Rules for offline scoring and the fallback, defaulting to the campaign's
+  ruleSet: ruleSetSchema.optional(),
+  // Defaults to the rubric's threshold, then the campaign's
+  scoringThreshold: z.number().int().min(0).max(100).optional(),
+  fileName: z.string().max(255).optional(),
+  // Most the run may spend in USD before it pauses
+  budget: z.number().positive().max(100000).optional()
+});
+
+export const jobResumeSchema = z.object({
+  // Replaces the job's budget; null removes it, up to the server's per-run limit
+  budget: z.number().positive().max(100000).nullable().optional()
+});
+
+// A sample of the list stands in for the whole of it
+export const costEstimateRequestSchema = z.object({
+  leads: z.array(leadInputSchema).min(1).max(200),
+  leadCount: z.number().int().min(1).max(10000),
+  businessSetup: businessSetupInputSchema,
+  provider: scoringProviderSchema.optional(),
+  rubric: rubricSchema.optional()
+});
+
+export const rubricRequestSchema = z.object({
+  businessSetup: businessSetupInputSchema,
+  provider: scoringProviderSchema.optional()
 });
 
 export type BusinessSetup = z.infer<typeof businessSetupSchema>;
 export type Lead = z.infer<typeof leadSchema>;
 export type ProcessedLead = z.infer<typeof processedLeadSchema>;
+export type ScoringMethod = typeof scoringMethods[number];
+export type TokenUsage = z.infer<typeof tokenUsageSchema>;
+export type LeadScoreResponse = z.infer<typeof leadScoreResponseSchema>;
+export type RubricCriterion = z.infer<typeof rubricCriterionSchema>;
+export type Rubric = z.infer<typeof rubricSchema>;
+export type CriterionScore = z.infer<typeof criterionScoreSchema>;
+export type RubricScoreResponse = z.infer<typeof rubricScoreResponseSchema>;
+export type LeadFieldName = typeof leadFieldNames[number];
+export type DuplicateMatchType = typeof duplicateMatchTypes[number];
+export type LeadDedup = z.infer<typeof leadDedupSchema>;
+export type EmailType = typeof emailTypes[number];
+export type NormalizedLeadFields = z.infer<typeof normalizedLeadFieldsSchema>;
+export type EmailIssue = typeof emailIssues[number];
+export type PhoneIssue = typeof phoneIssues[number];
+export type ContactChecks = z.infer<typeof contactChecksSchema>;
+export type ColumnTarget = typeof columnTargets[number];
+export type ColumnMapping = z.infer<typeof columnMappingSchema>;
+export type CrmProfileId = typeof crmProfileIds[number];
+export type CrmSource = typeof crmSources[number];
+export type CrmExportColumn = z.infer<typeof crmExportColumnSchema>;
+export type CrmExportMapping = z.infer<typeof crmExportMappingSchema>;
+export type RuleOperator = typeof ruleOperators[number];
+export type ScoringRule = z.infer<typeof scoringRuleSchema>;
+export type RuleSet = z.infer<typeof ruleSetSchema>;
+export type ScoringProviderName = typeof scoringProviderNames[number];
+export type ScoringProviderConfig = z.infer<typeof scoringProviderSchema>;
 
 export interface ProcessingStats {
   totalLeads: number;
@@ -37,4 +314,504 @@ export interface ProcessingStats {
   notQualifiedLeads: number;
   averageScore: number;
   qualificationRate: number;
+  // Totals of the leads' usage; missing on runs from before usage was recorded
+  inputTokens?: number;
+  outputTokens?: number;
+  // USD, leaving out models without a known price
+  estimatedCost?: number;
+}
+
+// Expected spend of scoring a lead list, worked out before the run starts
+export interface CostEstimate {
+  provider: ScoringProviderName;
+  model: string;
+  leads: number;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  // USD; null when the model has no known price
+  cost: number | null;
+  // Server-side spend limits in USD, null when not set
+  runLimit: number | null;
+  dailyLimit: number | null;
+  spentToday: number;
+}
+
+export interface ProcessingProgress {
+  processed: number;
+  total: number;
+  currentBatch: number;
+  totalBatches: number;
+  averageTimePerLead: number;
+  estimatedTimeRemaining: number;
+  errors: number;
+  retries: number;
+  // Leads whose earlier result was reused instead of scoring them again
+  cached: number;
+  // Of the retries, those the model provider asked for by rate-limiting the request
+  rateLimited?: number;
+  // Model requests the run may currently have in flight; lowered while the provider rate-limits
+  concurrency?: number;
 }
+
+export type AnalysisJobStatus = "queued" | "running" | "paused" | "completed" | "cancelled" | "failed";
+// Statuses in which a job makes no progress, for now or for good
+export const stoppedJobStatuses: AnalysisJobStatus[] = ["paused", "completed", "cancelled", "failed"];
+
+// Why a job stopped before finishing: its own budget, the spend limit across all runs today,
+// or the user pausing it
+export const pauseReasons = ["budget", "dailyLimit", "user"] as const;
+export type PauseReason = typeof pauseReasons[number];
+
+// What a workspace member may do: viewers only read, analysts also run analyses and edit
+// campaigns, admins also manage the members
+export const workspaceRoles = ["admin", "analyst", "viewer"] as const;
+export type WorkspaceRole = typeof workspaceRoles[number];
+// API keys act for the workspace with one of these roles; managing members stays with people
+export const apiKeyRoles = ["analyst", "viewer"] as const;
+export type ApiKeyRole = typeof apiKeyRoles[number];
+
+// Events a webhook can subscribe to; "webhook.test" is only sent by the test button
+export const webhookEvents = ["run.completed", "lead.qualified", "lead.score_changed"] as const;
+export type WebhookEvent = typeof webhookEvents[number];
+export type WebhookDeliveryEvent = WebhookEvent | "webhook.test";
+// pending deliveries are waiting for their next attempt; failed ones have used up their retries
+export type WebhookDeliveryStatus = "pending" | "delivered" | "failed";
+
+// Answers of the export survey
+export const timeSavedOptions = ["1-5", "6-10", "11-20", "20+"] as const;
+export type TimeSaved = typeof timeSavedOptions[number];
+// USD per 100 leads
+export const priceRangeOptions = ["1-2", "3-5", "6-10", "10+"] as const;
+export type PriceRange = typeof priceRangeOptions[number];
+// null on feedback kept while no relay destination is configured
+export type FeedbackRelayStatus = "pending" | "delivered" | "failed";
+
+// What was being exported when the survey was answered
+export const feedbackExportInfoSchema = z.object({
+  exportType: z.enum(["all", "filtered"]),
+  fileName: z.string().max(255),
+  leadsCount: z.number().int().min(0),
+  totalLeads: z.number().int().min(0),
+  qualifiedLeads: z.number().int().min(0),
+  qualificationRate: z.number().min(0).max(100),
+});
+
+export type FeedbackExportInfo = z.infer<typeof feedbackExportInfoSchema>;
+
+// Database tables - MemStorage mirrors the same record shapes
+
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  // Stored lowercased
+  email: text("email").notNull().unique(),
+  name: text("name"),
+  // scrypt hash and salt as "hash.salt"
+  passwordHash: text("password_hash").notNull(),
+  // When the user answered or skipped the export survey, which is only asked once
+  surveyedAt: timestamp("surveyed_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// A team's own campaigns, runs and mappings, invisible to every other workspace
+export const workspaces = pgTable("workspaces", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const workspaceMembers = pgTable("workspace_members", {
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  role: text("role").$type<WorkspaceRole>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [primaryKey({ columns: [table.workspaceId, table.userId] })]);
+
+// Login sessions, in the layout connect-pg-simple expects
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: jsonb("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [index("IDX_session_expire").on(table.expire)]);
+
+// Keys for calling /api/v1 from other systems on behalf of a workspace
+export const apiKeys = pgTable("api_keys", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  // Start of the key, so it can be recognized after the key itself is no longer shown
+  prefix: text("prefix").notNull(),
+  // SHA-256 of the key; the key is only returned when it is created
+  keyHash: text("key_hash").notNull().unique(),
+  role: text("role").$type<ApiKeyRole>().notNull(),
+  // Requests per minute
+  rateLimit: integer("rate_limit").notNull(),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+});
+
+export const campaigns = pgTable("campaigns", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  businessDescription: text("business_description").notNull(),
+  campaignGoals: text("campaign_goals").notNull(),
+  // Leads scoring at or above this are qualified
+  scoringThreshold: integer("scoring_threshold").notNull().default(60),
+  rubric: jsonb("rubric").$type<Rubric>(),
+  ruleSet: jsonb("rule_set").$type<RuleSet>(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// One submitted lead list
+export const uploads = pgTable("uploads", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  campaignId: varchar("campaign_id").references(() => campaigns.id, { onDelete: "set null" }),
+  fileName: text("file_name"),
+  leadCount: integer("lead_count").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Lead ids are only unique within their upload
+export const leadRecords = pgTable("leads", {
+  uploadId: varchar("upload_id").notNull().references(() => uploads.id, { onDelete: "cascade" }),
+  id: varchar("id").notNull(),
+  position: integer("position").notNull(),
+  companyName: text("company_name"),
+  email: text("email"),
+  phone: text("phone"),
+  industry: text("industry"),
+  companySize: text("company_size"),
+  title: text("title"),
+  contactName: text("contact_name"),
+  website: text("website"),
+  revenue: text("revenue"),
+  additionalData: jsonb("additional_data").$type<Record<string, any>>(),
+  sourceRow: integer("source_row"),
+  dedup: jsonb("dedup").$type<LeadDedup>(),
+  normalized: jsonb("normalized").$type<NormalizedLeadFields>(),
+  contactChecks: jsonb("contact_checks").$type<ContactChecks>(),
+}, (table) => [primaryKey({ columns: [table.uploadId, table.id] })]);
+
+export const analysisJobs = pgTable("analysis_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  uploadId: varchar("upload_id").notNull().references(() => uploads.id, { onDelete: "cascade" }),
+  campaignId: varchar("campaign_id").references(() => campaigns.id, { onDelete: "set null" }),
+  status: text("status").$type<AnalysisJobStatus>().notNull(),
+  businessSetup: jsonb("business_setup").$type<BusinessSetup>().notNull(),
+  provider: jsonb("provider").$type<ScoringProviderConfig>(),
+  // Snapshot of the campaign threshold when the job was submitted; null keeps the model's verdict
+  scoringThreshold: integer("scoring_threshold"),
+  rubric: jsonb("rubric").$type<Rubric>(),
+  // Rules for offline scoring and the fallback; null uses the defaults
+  ruleSet: jsonb("rule_set").$type<RuleSet>(),
+  progress: jsonb("progress").$type<ProcessingProgress>().notNull(),
+  stats: jsonb("stats").$type<ProcessingStats>().notNull(),
+  // Most the run may spend, in USD; null for no limit
+  budget: doublePrecision("budget"),
+  pauseReason: text("pause_reason").$type<PauseReason>(),
+  error: text("error"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+// Scoring results; the lead itself is joined in from leads via the job's upload
+export const processedLeadRecords = pgTable("processed_leads", {
+  jobId: varchar("job_id").notNull().references(() => analysisJobs.id, { onDelete: "cascade" }),
+  leadId: varchar("lead_id").notNull(),
+  score: integer("score").notNull(),
+  qualified: boolean("qualified").notNull(),
+  reasoning: text("reasoning").notNull(),
+  qualificationCriteria: jsonb("qualification_criteria").$type<string[]>(),
+  scoringMethod: text("scoring_method").$type<ScoringMethod>(),
+  criterionScores: jsonb("criterion_scores").$type<CriterionScore[]>(),
+  usage: jsonb("usage").$type<TokenUsage>(),
+  processedAt: timestamp("processed_at").notNull().defaultNow(),
+}, (table) => [primaryKey({ columns: [table.jobId, table.leadId] })]);
+
+// Results reused when an unchanged lead is scored again with the same brief, rubric and model
+export const scoreCache = pgTable("score_cache", {
+  // workspaceId:leadContentHash:scoringVersion:provider/model
+  key: text("key").primaryKey(),
+  result: jsonb("result").$type<CachedScore>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Estimated model spend per UTC day across all runs, for the daily limit. Kept apart from
+// the results so deleting a run does not give its spend back.
+export const dailySpend = pgTable("daily_spend", {
+  // YYYY-MM-DD
+  day: text("day").primaryKey(),
+  cost: doublePrecision("cost").notNull().default(0),
+});
+
+// Export survey answers, relayed to FEEDBACK_RELAY_URL when one is configured
+export const feedback = pgTable("feedback", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }),
+  skipped: boolean("skipped").notNull().default(false),
+  timeSaved: text("time_saved").$type<TimeSaved>(),
+  willingToPay: boolean("willing_to_pay"),
+  priceRange: text("price_range").$type<PriceRange>(),
+  // Only kept when the user agreed to be contacted
+  email: text("email"),
+  exportInfo: jsonb("export_info").$type<FeedbackExportInfo>(),
+  relayStatus: text("relay_status").$type<FeedbackRelayStatus>(),
+  relayAttempts: integer("relay_attempts").notNull().default(0),
+  nextRelayAt: timestamp("next_relay_at"),
+  relayedAt: timestamp("relayed_at"),
+  relayError: text("relay_error"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [index("feedback_workspace_idx").on(table.workspaceId, table.createdAt)]);
+
+// Workspace subscriptions that POST events to another system, signed with the secret
+export const webhooks = pgTable("webhooks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  url: text("url").notNull(),
+  description: text("description"),
+  events: jsonb("events").$type<WebhookEvent[]>().notNull(),
+  // Key of the HMAC-SHA256 signature sent with every delivery
+  secret: text("secret").notNull(),
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// One event sent, or to be sent, to one webhook; the log behind retries and replays
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  webhookId: varchar("webhook_id").notNull().references(() => webhooks.id, { onDelete: "cascade" }),
+  event: text("event").$type<WebhookDeliveryEvent>().notNull(),
+  // The exact JSON body sent; replays send it again unchanged
+  payload: jsonb("payload").$type<WebhookPayload>().notNull(),
+  status: text("status").$type<WebhookDeliveryStatus>().notNull(),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at"),
+  lastAttemptAt: timestamp("last_attempt_at"),
+  responseStatus: integer("response_status"),
+  error: text("error"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [index("webhook_deliveries_due_idx").on(table.status, table.nextAttemptAt)]);
+
+// Column mappings remembered for files with the same set of headers
+export const mappingTemplates = pgTable("mapping_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  // headerSignature() of the headers the mapping was made for
+  signature: text("signature").notNull(),
+  mapping: jsonb("mapping").$type<ColumnMapping>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [unique().on(table.workspaceId, table.signature)]);
+
+// Field mappings a workspace saved for CRM exports, one per CRM
+export const crmExportMappings = pgTable("crm_export_mappings", {
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  crm: text("crm").$type<CrmProfileId>().notNull(),
+  mapping: jsonb("mapping").$type<CrmExportMapping>().notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [primaryKey({ columns: [table.workspaceId, table.crm] })]);
+
+export const insertCampaignSchema = createInsertSchema(campaigns, {
+  name: (schema) => schema.trim().min(1, "Campaign name is required").max(100),
+  businessDescription: (schema) => schema.trim().min(1).max(1000),
+  campaignGoals: (schema) => schema.trim().min(1).max(1000),
+  scoringThreshold: (schema) => schema.int().min(0).max(100),
+  rubric: rubricSchema.nullable(),
+  ruleSet: ruleSetSchema.nullable(),
+}).pick({
+  name: true,
+  businessDescription: true,
+  campaignGoals: true,
+  scoringThreshold: true,
+  rubric: true,
+  ruleSet: true,
+});
+
+export const insertMappingTemplateSchema = z.object({
+  name: z.string().trim().min(1, "Template name is required").max(100),
+  headers: z.array(z.string()).min(1).max(500),
+  mapping: columnMappingSchema,
+});
+
+export const registerSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Enter a valid email address").max(255),
+  password: z.string().min(8, "Password must be at least 8 characters").max(200),
+  name: z.string().trim().max(100).optional(),
+  // The workspace created for the new account
+  workspaceName: z.string().trim().min(1).max(100).optional(),
+});
+
+export const loginSchema = z.object({
+  email: z.string().trim().toLowerCase().email().max(255),
+  password: z.string().min(1).max(200),
+});
+
+const webhookUrlSchema = z.string().trim().url().max(2000)
+  .refine(url => /^https?:\/\//i.test(url), "Webhook URLs must use http or https");
+
+export const insertWebhookSchema = z.object({
+  url: webhookUrlSchema,
+  description: z.string().trim().max(200).nullable().optional(),
+  events: z.array(z.enum(webhookEvents)).min(1, "Choose at least one event"),
+  active: z.boolean().optional(),
+});
+
+export const feedbackRequestSchema = z.object({
+  skipped: z.boolean(),
+  timeSaved: z.enum(timeSavedOptions).nullable().default(null),
+  willingToPay: z.boolean().nullable().default(null),
+  priceRange: z.enum(priceRangeOptions).nullable().default(null),
+  email: z.string().trim().toLowerCase().email("Enter a valid email address").max(255).nullable().default(null),
+  contactConsent: z.boolean().default(false),
+  exportInfo: feedbackExportInfoSchema.nullable().default(null),
+}).superRefine((data, ctx) => {
+  if (data.skipped) return;
+  if (!data.timeSaved) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["timeSaved"], message: "Choose how much time was saved" });
+  }
+  if (data.willingToPay === null) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["willingToPay"], message: "Choose yes or no" });
+  }
+  if (data.willingToPay && !data.priceRange) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["priceRange"], message: "Choose a price range" });
+  }
+  if (data.email && !data.contactConsent) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["contactConsent"], message: "Agree to be contacted to leave an email" });
+  }
+});
+
+export type FeedbackRequest = z.infer<typeof feedbackRequestSchema>;
+
+export const insertApiKeySchema = z.object({
+  name: z.string().trim().min(1, "Key name is required").max(100),
+  role: z.enum(apiKeyRoles).default("analyst"),
+  // Requests per minute; defaults to the server's API_KEY_RATE_LIMIT
+  rateLimit: z.number().int().min(1).max(10000).optional(),
+});
+
+export type User = typeof users.$inferSelect;
+export type InsertUser = Omit<typeof users.$inferInsert, "id" | "surveyedAt" | "createdAt">;
+// A user as the API shows it, without the password hash
+export type PublicUser = Omit<User, "passwordHash">;
+export type Workspace = typeof workspaces.$inferSelect;
+export type WorkspaceMember = typeof workspaceMembers.$inferSelect;
+export type InsertWorkspaceMember = Omit<WorkspaceMember, "createdAt">;
+// A workspace the user belongs to, with their role in it
+export type WorkspaceMembership = Workspace & { role: WorkspaceRole };
+// Entry in GET /api/workspace/members
+export type WorkspaceMemberView = WorkspaceMember & { email: string; name: string | null };
+
+export type Feedback = typeof feedback.$inferSelect;
+export type InsertFeedback = Pick<Feedback, "workspaceId" | "userId" | "skipped" | "timeSaved" | "willingToPay" | "priceRange" | "email" | "exportInfo" | "relayStatus" | "nextRelayAt">;
+
+// Totals over a workspace's survey answers for the feedback report
+export interface FeedbackSummary {
+  responses: number;
+  skipped: number;
+  timeSaved: Record<TimeSaved, number>;
+  // Per answered survey, taking the middle of each range and 20 for "20+"; null with no answers
+  averageHoursSaved: number | null;
+  totalHoursSaved: number;
+  willingToPay: number;
+  notWillingToPay: number;
+  // Percent of answered surveys; null with no answers
+  willingToPayRate: number | null;
+  priceRanges: Record<PriceRange, number>;
+}
+
+export interface FeedbackReport {
+  summary: FeedbackSummary;
+  // Newest first
+  responses: Feedback[];
+}
+
+export type Webhook = typeof webhooks.$inferSelect;
+export type InsertWebhook = Omit<typeof webhooks.$inferInsert, "id" | "createdAt" | "updatedAt">;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = Pick<WebhookDelivery, "webhookId" | "event" | "payload" | "status" | "nextAttemptAt">;
+
+// Body of every webhook delivery; id is the same for every delivery and replay of one event
+export interface WebhookPayload {
+  id: string;
+  type: WebhookDeliveryEvent;
+  createdAt: string;
+  workspaceId: string;
+  data: Record<string, unknown>;
+}
+
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type InsertApiKey = Omit<typeof apiKeys.$inferInsert, "id" | "createdAt" | "lastUsedAt" | "revokedAt">;
+// An API key as GET /api/api-keys lists it
+export type ApiKeyView = Omit<ApiKey, "keyHash">;
+// Returned once by POST /api/api-keys; the key cannot be read again
+export type CreatedApiKey = ApiKeyView & { key: string };
+
+// Response of GET /api/auth/me
+export interface AuthSession {
+  user: PublicUser;
+  workspaces: WorkspaceMembership[];
+  // The workspace the /api routes act on; null once the user has been removed from all of them
+  workspaceId: string | null;
+  // Region the server reads phone numbers without a country code in, so the browser's duplicate
+  // search and lead ids read them the same way
+  phoneRegion: CountryCode;
+}
+
+export type Campaign = typeof campaigns.$inferSelect;
+// The workspace is set from the caller, never from the request body
+export type InsertCampaign = z.infer<typeof insertCampaignSchema> & { workspaceId: string };
+export type CampaignWithRuns = Campaign & { runs: AnalysisJobSummary[] };
+export type Upload = typeof uploads.$inferSelect;
+export type InsertUpload = Omit<typeof uploads.$inferInsert, "id" | "createdAt">;
+export type MappingTemplate = typeof mappingTemplates.$inferSelect;
+export type InsertMappingTemplate = Pick<MappingTemplate, "workspaceId" | "name" | "signature" | "mapping">;
+export type CrmExportMappingRecord = typeof crmExportMappings.$inferSelect;
+export type InsertCrmExportMappingRecord = Omit<CrmExportMappingRecord, "updatedAt">;
+export type CachedScore = Pick<ProcessedLead, "score" | "qualified" | "reasoning" | "qualificationCriteria" | "scoringMethod" | "criterionScores"> & {
+  disqualifiedBy?: string;
+};
+export type ScoreCacheEntry = typeof scoreCache.$inferSelect;
+export type InsertScoreCacheEntry = Pick<ScoreCacheEntry, "key" | "result">;
+export type AnalysisJob = typeof analysisJobs.$inferSelect;
+export type InsertAnalysisJob = Omit<typeof analysisJobs.$inferInsert, "id" | "createdAt" | "updatedAt">;
+
+// Shape returned by the /api/jobs/:id routes: the job plus the results scored so far
+export type AnalysisJobView = AnalysisJob & { results: ProcessedLead[] };
+
+// Events of the GET /api/jobs/:id/events stream. A snapshot carries everything so far and
+// replaces what the client has; results events add the leads scored since.
+export type JobStreamEvent =
+  | {
+      type: "snapshot";
+      results: ProcessedLead[];
+      progress: ProcessingProgress;
+      stats: ProcessingStats;
+      status: AnalysisJobStatus;
+      pauseReason: PauseReason | null;
+      error: string | null;
+    }
+  | { type: "results"; results: ProcessedLead[]; progress: ProcessingProgress; stats: ProcessingStats }
+  | { type: "status"; status: AnalysisJobStatus; pauseReason: PauseReason | null; error: string | null };
+
+// Response of POST /api/rubric
+export interface RubricGeneration {
+  rubric: Rubric;
+  usedFallback: boolean;
+  provider: string;
+  model: string;
+  // Tokens of the model request, including a failed one before the fallback
+  usage?: TokenUsage;
+}
+
+// Entry in GET /api/jobs
+export type AnalysisJobSummary = AnalysisJob & { fileName: string | null };